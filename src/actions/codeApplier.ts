@@ -8,6 +8,7 @@ import {
   IRange,
   ActionException
 } from './types';
+import { getRedactor } from '../redaction';
 
 /**
  * Applies code modifications to existing files
@@ -130,12 +131,15 @@ export class CodeApplier implements ICodeApplier {
 
   /**
    * Merge new code with existing content
+   * Redaction placeholders echoed back by the model are replaced with the original values
    * @param existingContent Current file content
-   * @param newContent New code to add
+   * @param generatedContent New code to add
    * @param range Optional range for insertion
    * @returns Merged content
    */
-  mergeCode(existingContent: string, newContent: string, range?: IRange): string {
+  mergeCode(existingContent: string, generatedContent: string, range?: IRange): string {
+    const newContent = getRedactor().restore(generatedContent);
+
     if (!existingContent) {
       return newContent;
     }
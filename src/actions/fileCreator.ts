@@ -9,6 +9,7 @@ import {
   ActionType,
   ActionException
 } from './types';
+import { getRedactor } from '../redaction';
 
 /**
  * Creates new files based on code actions
@@ -416,9 +417,10 @@ export class FileCreator implements IFileCreator {
 
   /**
    * Prepare final file content with proper formatting
+   * Redaction placeholders echoed back by the model are replaced with the original values
    */
   private prepareFileContent(action: ICodeAction): string {
-    let content = action.content;
+    let content = getRedactor().restore(action.content);
 
     // Add file header comment if appropriate
     if (this.shouldAddFileHeader(action)) {
@@ -0,0 +1,47 @@
+import * as vscode from 'vscode';
+
+/**
+ * Bridge a VSCode cancellation token to an AbortSignal usable by fetch
+ * @param token Cancellation token, if the caller supports cancellation
+ * @returns Abort signal that fires when the token is cancelled
+ */
+export function toAbortSignal(token?: vscode.CancellationToken): AbortSignal | undefined {
+  if (!token) {
+    return undefined;
+  }
+
+  const controller = new AbortController();
+  if (token.isCancellationRequested) {
+    controller.abort();
+  } else {
+    const listener = token.onCancellationRequested(() => {
+      listener.dispose();
+      controller.abort();
+    });
+  }
+
+  return controller.signal;
+}
+
+/**
+ * Throw a CancellationError if the token has been cancelled
+ * @param token Cancellation token to check
+ */
+export function throwIfCancelled(token?: vscode.CancellationToken): void {
+  if (token?.isCancellationRequested) {
+    throw new vscode.CancellationError();
+  }
+}
+
+/**
+ * Check whether an error was caused by a cancelled request
+ * @param error Error to inspect
+ * @returns True for VSCode cancellations and aborted fetches
+ */
+export function isCancellationError(error: unknown): boolean {
+  if (error instanceof vscode.CancellationError) {
+    return true;
+  }
+
+  return error instanceof Error && error.name === 'AbortError';
+}
@@ -0,0 +1,46 @@
+import * as vscode from 'vscode';
+import { IApiEndpointConfig } from './types';
+
+/**
+ * Anthropic's public API, used unless a gateway is configured
+ */
+export const DEFAULT_API_BASE_URL = 'https://api.anthropic.com';
+
+/**
+ * Load the base URL, extra headers and auth header scheme of the Messages API
+ */
+export function loadEndpointConfig(): IApiEndpointConfig {
+  const config = vscode.workspace.getConfiguration('codeAssist');
+
+  return {
+    baseUrl: (config.get<string>('api.baseUrl') || DEFAULT_API_BASE_URL).trim().replace(/\/+$/, ''),
+    headers: config.get<Record<string, string>>('api.headers', {}),
+    authHeader: config.get<string>('api.authHeader') || 'x-api-key',
+    authScheme: config.get<string>('api.authScheme', '').trim()
+  };
+}
+
+/**
+ * Headers for a Messages API request
+ * @param apiKey API key, sent in the configured auth header
+ * @param endpoint Endpoint settings, loaded from settings by default
+ * @returns JSON, version, extra and auth headers
+ */
+export function buildApiHeaders(apiKey: string, endpoint: IApiEndpointConfig = loadEndpointConfig()): Record<string, string> {
+  return {
+    'Content-Type': 'application/json',
+    'anthropic-version': '2023-06-01',
+    ...endpoint.headers,
+    [endpoint.authHeader]: endpoint.authScheme ? `${endpoint.authScheme} ${apiKey}` : apiKey
+  };
+}
+
+/**
+ * Whether requests go straight to Anthropic with the standard x-api-key header
+ * Gateways may use their own key formats, so format checks only apply in this case
+ */
+export function isDefaultEndpoint(endpoint: IApiEndpointConfig = loadEndpointConfig(), baseUrl: string = endpoint.baseUrl): boolean {
+  return baseUrl.replace(/\/+$/, '') === DEFAULT_API_BASE_URL &&
+    endpoint.authHeader.toLowerCase() === 'x-api-key' &&
+    !endpoint.authScheme;
+}
@@ -0,0 +1,14 @@
+/**
+ * Claude API module exports
+ * Provides streaming, cancellation, retry, record/replay and proxy support for the Messages API
+ */
+
+export { SseParser } from './sseParser';
+export { MessageStreamReader } from './messageStream';
+export { SseStandInServer } from './standInServer';
+export { toAbortSignal, throwIfCancelled, isCancellationError } from './cancellation';
+export { ApiTransport, apiFetch, getTransport, loadTransportConfig } from './transport';
+export { fetchOverNetwork, loadNetworkConfig, shouldBypassProxy } from './networkFetch';
+export { DEFAULT_API_BASE_URL, loadEndpointConfig, buildApiHeaders, isDefaultEndpoint } from './endpoint';
+export { fetchWithRetry, computeBackoffDelay, parseRetryAfter, toApiException, loadRetryOptions } from './retry';
+export * from './types';
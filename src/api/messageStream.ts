@@ -0,0 +1,156 @@
+import { IClaudeApiResponse } from '../auth/types';
+import { SseParser } from './sseParser';
+import { IServerSentEvent, IStreamHandlers, IStreamResult, StreamException } from './types';
+
+/**
+ * Reads a Messages API event stream and rebuilds the final response
+ * Text deltas are forwarded to the handlers as soon as they are decoded
+ */
+export class MessageStreamReader {
+  private readonly parser = new SseParser();
+  private readonly response: IClaudeApiResponse = { content: [] };
+  private readonly blocks: any[] = [];
+  private readonly partialJson: Map<number, string> = new Map();
+  private text = '';
+
+  constructor(private readonly handlers: IStreamHandlers = {}) {}
+
+  /**
+   * Consume a streaming fetch response until the stream ends
+   * @param httpResponse Response returned by fetch with stream enabled
+   * @returns Accumulated text and reconstructed response
+   */
+  async read(httpResponse: Response): Promise<IStreamResult> {
+    if (!httpResponse.body) {
+      throw new StreamException('NO_BODY', 'Streaming response has no body');
+    }
+
+    const reader = httpResponse.body.getReader();
+    const decoder = new TextDecoder();
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) {
+          break;
+        }
+
+        for (const event of this.parser.feed(decoder.decode(value, { stream: true }))) {
+          this.handleEvent(event);
+        }
+      }
+
+      for (const event of this.parser.feed(decoder.decode())) {
+        this.handleEvent(event);
+      }
+      for (const event of this.parser.flush()) {
+        this.handleEvent(event);
+      }
+    } finally {
+      reader.releaseLock();
+    }
+
+    return {
+      text: this.text,
+      response: {
+        ...this.response,
+        content: this.blocks.length > 0
+          ? this.blocks.filter(block => block)
+          : [{ type: 'text', text: this.text }]
+      }
+    };
+  }
+
+  /**
+   * Get the text received so far, useful when the stream is interrupted
+   */
+  getPartialText(): string {
+    return this.text;
+  }
+
+  /**
+   * Get the usage of an interrupted stream
+   * The final output count only arrives at the end of the stream, so it is estimated from the text
+   * received so far at about four characters per token
+   * @returns Usage reported by message_start, or undefined if the stream ended before it
+   */
+  getPartialUsage(): IClaudeApiResponse['usage'] {
+    if (!this.response.usage) {
+      return undefined;
+    }
+
+    return {
+      ...this.response.usage,
+      output_tokens: Math.max(this.response.usage.output_tokens || 0, Math.ceil(this.text.length / 4))
+    };
+  }
+
+  /**
+   * Apply a single server-sent event to the response being rebuilt
+   * @param event Parsed server-sent event
+   */
+  private handleEvent(event: IServerSentEvent): void {
+    this.handlers.onEvent?.(event);
+
+    if (event.event === 'ping') {
+      return;
+    }
+
+    let payload: any;
+    try {
+      payload = JSON.parse(event.data);
+    } catch (error) {
+      throw new StreamException('INVALID_EVENT', `Malformed stream event: ${event.event}`, event.data);
+    }
+
+    switch (payload.type) {
+      case 'message_start':
+        Object.assign(this.response, payload.message, { content: [] });
+        break;
+
+      case 'content_block_start':
+        this.blocks[payload.index] = { ...payload.content_block };
+        break;
+
+      case 'content_block_delta':
+        if (payload.delta?.type === 'text_delta' && payload.delta.text) {
+          this.text += payload.delta.text;
+          if (this.blocks[payload.index]) {
+            this.blocks[payload.index].text += payload.delta.text;
+          }
+          this.handlers.onTextDelta?.(payload.delta.text);
+        }
+        if (payload.delta?.type === 'input_json_delta') {
+          // Tool input arrives as JSON fragments, parsed once the block stops
+          const partial = this.partialJson.get(payload.index) || '';
+          this.partialJson.set(payload.index, partial + (payload.delta.partial_json || ''));
+        }
+        break;
+
+      case 'content_block_stop':
+        if (this.partialJson.has(payload.index) && this.blocks[payload.index]) {
+          const json = this.partialJson.get(payload.index) || '';
+          this.blocks[payload.index].input = json ? JSON.parse(json) : {};
+          this.partialJson.delete(payload.index);
+        }
+        break;
+
+      case 'message_delta':
+        if (payload.delta) {
+          this.response.stop_reason = payload.delta.stop_reason;
+          this.response.stop_sequence = payload.delta.stop_sequence;
+        }
+        if (payload.usage && this.response.usage) {
+          this.response.usage.output_tokens = payload.usage.output_tokens;
+        }
+        break;
+
+      case 'error':
+        throw new StreamException(
+          payload.error?.type || 'stream_error',
+          payload.error?.message || 'Claude API stream error',
+          payload
+        );
+    }
+  }
+}
@@ -0,0 +1,220 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as https from 'https';
+import * as net from 'net';
+import * as tls from 'tls';
+import { Readable } from 'stream';
+import { INetworkConfig, TransportException } from './types';
+
+const caBundleCache: Map<string, string> = new Map();
+
+/**
+ * Send a request directly or through a proxy, trusting an extra CA bundle if configured
+ * Plain fetch is used when no proxy, CA bundle or relaxed TLS applies
+ * @param url Request URL
+ * @param init Fetch options; the body must be a string
+ * @param config Proxy and certificate settings
+ * @returns HTTP response whose body streams as it arrives
+ */
+export async function fetchOverNetwork(
+  url: string,
+  init: RequestInit = {},
+  config: INetworkConfig = loadNetworkConfig()
+): Promise<Response> {
+  const target = new URL(url);
+  const proxy = config.proxy && !shouldBypassProxy(target.hostname, config.noProxy)
+    ? new URL(config.proxy)
+    : undefined;
+
+  if (!proxy && !config.caBundle && config.strictSSL) {
+    return fetch(url, init);
+  }
+
+  return sendWithNode(target, init, config, proxy);
+}
+
+/**
+ * Load proxy and certificate settings
+ * `codeAssist.api.proxy` overrides VS Code's `http.proxy`, which overrides the HTTPS_PROXY and HTTP_PROXY variables
+ */
+export function loadNetworkConfig(): INetworkConfig {
+  const config = vscode.workspace.getConfiguration('codeAssist');
+  const httpConfig = vscode.workspace.getConfiguration('http');
+
+  const proxy = config.get<string>('api.proxy') ||
+    httpConfig.get<string>('proxy') ||
+    process.env.HTTPS_PROXY || process.env.https_proxy ||
+    process.env.HTTP_PROXY || process.env.http_proxy;
+  const noProxy = [
+    ...httpConfig.get<string[]>('noProxy', []),
+    ...(process.env.NO_PROXY || process.env.no_proxy || '').split(',')
+  ].map(entry => entry.trim()).filter(entry => entry.length > 0);
+
+  return {
+    proxy: proxy || undefined,
+    proxyAuthorization: httpConfig.get<string>('proxyAuthorization') || undefined,
+    noProxy,
+    strictSSL: httpConfig.get<boolean>('proxyStrictSSL', true),
+    caBundle: config.get<string>('api.caBundle') || undefined
+  };
+}
+
+/**
+ * Check NO_PROXY-style entries: exact hosts, domain suffixes such as .corp.example and *
+ * Loopback addresses never use the proxy
+ */
+export function shouldBypassProxy(hostname: string, noProxy: string[]): boolean {
+  if (hostname === 'localhost' || hostname === '::1' || hostname.startsWith('127.')) {
+    return true;
+  }
+
+  return noProxy.some(entry => {
+    if (entry === '*') {
+      return true;
+    }
+
+    const domain = entry.replace(/^\*?\./, '').replace(/:\d+$/, '').toLowerCase();
+    const host = hostname.toLowerCase();
+    return host === domain || host.endsWith(`.${domain}`);
+  });
+}
+
+/**
+ * Send the request with Node's http stack, tunnelling HTTPS through the proxy with CONNECT
+ */
+async function sendWithNode(target: URL, init: RequestInit, config: INetworkConfig, proxy?: URL): Promise<Response> {
+  const signal = init.signal || undefined;
+  const tlsOptions: tls.ConnectionOptions = {
+    ca: config.caBundle ? [...tls.rootCertificates, readCaBundle(config.caBundle)] : undefined,
+    rejectUnauthorized: config.strictSSL,
+    servername: target.hostname
+  };
+
+  const options: https.RequestOptions = {
+    method: init.method || 'GET',
+    headers: toHeaderRecord(init.headers),
+    signal,
+    ...tlsOptions
+  };
+
+  let request: http.ClientRequest;
+  if (proxy && target.protocol === 'https:') {
+    const socket = await openTunnel(proxy, target, config, signal);
+    request = https.request(target, {
+      ...options,
+      agent: false,
+      createConnection: () => tls.connect({ ...tlsOptions, socket })
+    });
+  } else if (proxy) {
+    // Plain HTTP goes to the proxy with the absolute URL as path
+    request = http.request({
+      ...options,
+      host: proxy.hostname,
+      port: proxy.port || 80,
+      path: target.href,
+      headers: { ...options.headers as Record<string, string>, ...proxyHeaders(proxy, config), Host: target.host }
+    });
+  } else {
+    request = (target.protocol === 'https:' ? https : http).request(target, options);
+  }
+
+  return new Promise((resolve, reject) => {
+    request.on('response', response => {
+      const headers = new Headers();
+      for (const [name, value] of Object.entries(response.headers)) {
+        if (value !== undefined) {
+          headers.set(name, Array.isArray(value) ? value.join(', ') : value);
+        }
+      }
+
+      const status = response.statusCode || 500;
+      const hasBody = ![204, 304].includes(status) && options.method !== 'HEAD';
+      resolve(new Response(hasBody ? Readable.toWeb(response) as ReadableStream<Uint8Array> : null, {
+        status,
+        statusText: response.statusMessage,
+        headers
+      }));
+    });
+    request.on('error', reject);
+
+    if (typeof init.body === 'string') {
+      request.write(init.body);
+    }
+    request.end();
+  });
+}
+
+/**
+ * Ask the proxy for a raw connection to the target host
+ */
+function openTunnel(proxy: URL, target: URL, config: INetworkConfig, signal?: AbortSignal): Promise<net.Socket> {
+  const authority = `${target.hostname}:${target.port || 443}`;
+  const requestModule = proxy.protocol === 'https:' ? https : http;
+
+  return new Promise((resolve, reject) => {
+    const request = requestModule.request({
+      host: proxy.hostname,
+      port: proxy.port || (proxy.protocol === 'https:' ? 443 : 80),
+      method: 'CONNECT',
+      path: authority,
+      headers: { Host: authority, ...proxyHeaders(proxy, config) },
+      rejectUnauthorized: config.strictSSL,
+      signal
+    });
+
+    request.on('connect', (response, socket) => {
+      if (response.statusCode !== 200) {
+        socket.destroy();
+        reject(new TransportException(
+          'PROXY_ERROR',
+          `Proxy ${proxy.host} refused to connect to ${authority}: ${response.statusCode} ${response.statusMessage || ''}`.trim()
+        ));
+        return;
+      }
+      resolve(socket);
+    });
+    request.on('error', reject);
+    request.end();
+  });
+}
+
+/**
+ * Proxy credentials from the proxy URL or VS Code's http.proxyAuthorization
+ */
+function proxyHeaders(proxy: URL, config: INetworkConfig): Record<string, string> {
+  if (config.proxyAuthorization) {
+    return { 'Proxy-Authorization': config.proxyAuthorization };
+  }
+
+  if (proxy.username) {
+    const credentials = `${decodeURIComponent(proxy.username)}:${decodeURIComponent(proxy.password)}`;
+    return { 'Proxy-Authorization': `Basic ${Buffer.from(credentials).toString('base64')}` };
+  }
+
+  return {};
+}
+
+/**
+ * Read a PEM bundle once per path
+ */
+function readCaBundle(filePath: string): string {
+  let bundle = caBundleCache.get(filePath);
+  if (bundle === undefined) {
+    try {
+      bundle = fs.readFileSync(filePath, 'utf8');
+    } catch (error) {
+      throw new TransportException('CA_BUNDLE', `Could not read the CA bundle ${filePath}`, error);
+    }
+    caBundleCache.set(filePath, bundle);
+  }
+  return bundle;
+}
+
+function toHeaderRecord(headers: HeadersInit | undefined): Record<string, string> {
+  const record: Record<string, string> = {};
+  new Headers(headers).forEach((value, name) => {
+    record[name] = value;
+  });
+  return record;
+}
@@ -0,0 +1,201 @@
+import * as vscode from 'vscode';
+import {
+  ApiError,
+  ApiException,
+  AuthenticationError,
+  AuthenticationException
+} from '../auth/types';
+import { isCancellationError, throwIfCancelled } from './cancellation';
+import { apiFetch } from './transport';
+import { IRetryOptions, RetryCallback, TransportException } from './types';
+
+/**
+ * Statuses worth retrying: 429 rate limit and 529 overload
+ */
+const RETRYABLE_STATUSES = new Set([429, 529]);
+
+/**
+ * Send a request, retrying rate-limited and overloaded responses with backoff
+ * @param url Request URL
+ * @param init Fetch options, including the abort signal
+ * @param options Retry limits and delays
+ * @param onRetry Called before each wait so the UI can announce the retry
+ * @param token Optional token that also interrupts the waits between attempts
+ * @returns Successful HTTP response
+ */
+export async function fetchWithRetry(
+  url: string,
+  init: RequestInit,
+  options: IRetryOptions,
+  onRetry?: RetryCallback,
+  token?: vscode.CancellationToken
+): Promise<Response> {
+  for (let attempt = 0; ; attempt++) {
+    throwIfCancelled(token);
+
+    let response: Response;
+    try {
+      response = await apiFetch(url, init);
+    } catch (error) {
+      if (isCancellationError(error) || error instanceof TransportException) {
+        throw error;
+      }
+      throw new ApiException(
+        ApiError.NETWORK_ERROR,
+        `Could not reach the API: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        undefined,
+        undefined,
+        error
+      );
+    }
+
+    if (response.ok) {
+      return response;
+    }
+
+    const error = await toApiException(response);
+    if (!(error instanceof ApiException) || !RETRYABLE_STATUSES.has(response.status) || attempt >= options.maxRetries) {
+      throw error;
+    }
+
+    const delayMs = error.retryAfterMs ?? computeBackoffDelay(attempt, options);
+    onRetry?.({ attempt: attempt + 1, maxRetries: options.maxRetries, delayMs, error });
+    await waitForRetry(delayMs, token);
+  }
+}
+
+/**
+ * Exponential backoff with equal jitter: half the delay is fixed, half is random
+ * @param attempt Zero-based attempt that just failed
+ * @param options Initial and maximum delays
+ * @param random Source of randomness, injectable for tests
+ * @returns Delay in milliseconds
+ */
+export function computeBackoffDelay(
+  attempt: number,
+  options: IRetryOptions,
+  random: () => number = Math.random
+): number {
+  const exponential = Math.min(options.maxDelayMs, options.initialDelayMs * Math.pow(2, attempt));
+  return Math.round(exponential / 2 + random() * exponential / 2);
+}
+
+/**
+ * Parse a retry-after header given in seconds or as an HTTP date
+ * @param header Header value
+ * @param now Current time, injectable for tests
+ * @returns Delay in milliseconds, or undefined if absent or malformed
+ */
+export function parseRetryAfter(header: string | null, now: number = Date.now()): number | undefined {
+  if (!header) {
+    return undefined;
+  }
+
+  const seconds = Number(header);
+  if (!isNaN(seconds)) {
+    return Math.max(0, Math.round(seconds * 1000));
+  }
+
+  const date = Date.parse(header);
+  if (!isNaN(date)) {
+    return Math.max(0, date - now);
+  }
+
+  return undefined;
+}
+
+/**
+ * Map an error response to a typed exception with a readable message
+ * @param response Non-OK HTTP response
+ * @returns AuthenticationException for key problems, ApiException otherwise
+ */
+export async function toApiException(response: Response): Promise<ApiException | AuthenticationException> {
+  const body = await response.text();
+
+  // Anthropic errors look like { type: 'error', error: { type, message } }
+  let detail = body;
+  try {
+    const parsed = JSON.parse(body);
+    detail = parsed.error?.message || parsed.message || body;
+  } catch (error) {
+    // Plain-text error body
+  }
+
+  const details = { status: response.status, body };
+
+  switch (response.status) {
+    case 401:
+      return new AuthenticationException(
+        AuthenticationError.INVALID_API_KEY,
+        'The API key was rejected. Please reconfigure your API key.',
+        details
+      );
+    case 403:
+      return new AuthenticationException(
+        AuthenticationError.PERMISSION_DENIED,
+        `The API key is not allowed to make this request: ${detail}`,
+        details
+      );
+    case 429:
+      return new ApiException(
+        ApiError.RATE_LIMITED,
+        'Rate limit reached. Please wait a moment before sending more messages.',
+        response.status,
+        parseRetryAfter(response.headers.get('retry-after')),
+        details
+      );
+    case 529:
+      return new ApiException(
+        ApiError.OVERLOADED,
+        'The API is temporarily overloaded. Please try again shortly.',
+        response.status,
+        parseRetryAfter(response.headers.get('retry-after')),
+        details
+      );
+    case 404:
+      return new ApiException(ApiError.NOT_FOUND, `Not found: ${detail}`, response.status, undefined, details);
+  }
+
+  if (response.status >= 500) {
+    return new ApiException(
+      ApiError.SERVER_ERROR,
+      `The API failed with status ${response.status}: ${detail}`,
+      response.status,
+      undefined,
+      details
+    );
+  }
+
+  return new ApiException(ApiError.INVALID_REQUEST, `Invalid request: ${detail}`, response.status, undefined, details);
+}
+
+/**
+ * Load retry options from settings
+ */
+export function loadRetryOptions(): IRetryOptions {
+  const config = vscode.workspace.getConfiguration('codeAssist');
+
+  return {
+    maxRetries: config.get<number>('retry.maxRetries', 4),
+    initialDelayMs: config.get<number>('retry.initialDelayMs', 1000),
+    maxDelayMs: config.get<number>('retry.maxDelayMs', 30000)
+  };
+}
+
+/**
+ * Wait before the next attempt, stopping early when the request is cancelled
+ */
+function waitForRetry(delayMs: number, token?: vscode.CancellationToken): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const listener = token?.onCancellationRequested(() => {
+      clearTimeout(timer);
+      listener?.dispose();
+      reject(new vscode.CancellationError());
+    });
+
+    const timer = setTimeout(() => {
+      listener?.dispose();
+      resolve();
+    }, delayMs);
+  });
+}
@@ -0,0 +1,85 @@
+import { IServerSentEvent } from './types';
+
+/**
+ * Incremental parser for text/event-stream payloads
+ * Accepts arbitrary chunks and emits complete events as they arrive
+ */
+export class SseParser {
+  private buffer = '';
+
+  /**
+   * Feed a chunk of the stream into the parser
+   * @param chunk Raw text received from the network
+   * @returns Events completed by this chunk
+   */
+  feed(chunk: string): IServerSentEvent[] {
+    this.buffer += chunk.replace(/\r\n/g, '\n');
+
+    const events: IServerSentEvent[] = [];
+    let boundary = this.buffer.indexOf('\n\n');
+
+    while (boundary !== -1) {
+      const block = this.buffer.substring(0, boundary);
+      this.buffer = this.buffer.substring(boundary + 2);
+
+      const event = this.parseBlock(block);
+      if (event) {
+        events.push(event);
+      }
+
+      boundary = this.buffer.indexOf('\n\n');
+    }
+
+    return events;
+  }
+
+  /**
+   * Flush whatever is left in the buffer once the stream has ended
+   * @returns The trailing event, if any
+   */
+  flush(): IServerSentEvent[] {
+    const block = this.buffer;
+    this.buffer = '';
+
+    const event = this.parseBlock(block);
+    return event ? [event] : [];
+  }
+
+  /**
+   * Parse a single event block into its event name and data
+   * @param block Lines of a single event, without the trailing blank line
+   * @returns Parsed event or null for comments and empty blocks
+   */
+  private parseBlock(block: string): IServerSentEvent | null {
+    let eventName = 'message';
+    const dataLines: string[] = [];
+
+    for (const line of block.split('\n')) {
+      if (!line || line.startsWith(':')) {
+        continue;
+      }
+
+      const separatorIndex = line.indexOf(':');
+      const field = separatorIndex === -1 ? line : line.substring(0, separatorIndex);
+      let value = separatorIndex === -1 ? '' : line.substring(separatorIndex + 1);
+      if (value.startsWith(' ')) {
+        value = value.substring(1);
+      }
+
+      if (field === 'event') {
+        eventName = value;
+      } else if (field === 'data') {
+        dataLines.push(value);
+      }
+    }
+
+    if (dataLines.length === 0) {
+      return null;
+    }
+
+    return {
+      event: eventName,
+      data: dataLines.join('\n')
+    };
+  }
+}
@@ -0,0 +1,217 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { IStandInFailure, IStandInServerConfig } from './types';
+
+/**
+ * Local stand-in for the Messages API used to exercise streaming offline
+ * Replays a fixed reply as text deltas, mimicking Anthropic's SSE event sequence
+ * Configured failures are answered first, in order, to exercise retry handling
+ */
+export class SseStandInServer {
+  private readonly config: IStandInServerConfig;
+  private server: http.Server | null = null;
+  private requestCount = 0;
+
+  constructor(config: Partial<IStandInServerConfig> = {}) {
+    this.config = {
+      port: 0,
+      reply: 'Hello from the local stand-in server. This reply is streamed chunk by chunk.',
+      chunkSize: 8,
+      delayMs: 20,
+      model: 'stand-in-model',
+      failures: [],
+      ...config
+    };
+  }
+
+  /**
+   * Start listening on localhost
+   * @returns Base URL of the server, e.g. http://127.0.0.1:54321
+   */
+  async start(): Promise<string> {
+    if (this.server) {
+      return this.getBaseUrl();
+    }
+
+    this.server = http.createServer((request, response) => {
+      this.handleRequest(request, response).catch(error => {
+        console.error('Stand-in server failed to handle request:', error);
+        response.destroy();
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(this.config.port, '127.0.0.1', () => resolve());
+    });
+
+    return this.getBaseUrl();
+  }
+
+  /**
+   * Stop the server and close open connections
+   */
+  async stop(): Promise<void> {
+    if (!this.server) {
+      return;
+    }
+
+    const server = this.server;
+    this.server = null;
+
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  }
+
+  /**
+   * Get the base URL of the running server
+   */
+  getBaseUrl(): string {
+    if (!this.server) {
+      throw new Error('Stand-in server is not running');
+    }
+
+    const address = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${address.port}`;
+  }
+
+  /**
+   * Number of Messages API requests received so far, failed ones included
+   */
+  getRequestCount(): number {
+    return this.requestCount;
+  }
+
+  /**
+   * Serve a single Messages API request
+   */
+  private async handleRequest(request: http.IncomingMessage, response: http.ServerResponse): Promise<void> {
+    if (request.method !== 'POST' || request.url !== '/v1/messages') {
+      response.writeHead(404, { 'Content-Type': 'application/json' });
+      response.end(JSON.stringify({ type: 'error', error: { type: 'not_found_error', message: 'Not found' } }));
+      return;
+    }
+
+    const body = JSON.parse(await this.readBody(request) || '{}');
+
+    const failure = this.config.failures[this.requestCount++];
+    if (failure) {
+      this.writeFailure(response, failure);
+      return;
+    }
+    const messageId = `msg_standin_${Date.now()}`;
+    const model = body.model || this.config.model;
+
+    if (!body.stream) {
+      response.writeHead(200, { 'Content-Type': 'application/json' });
+      response.end(JSON.stringify({
+        id: messageId,
+        type: 'message',
+        role: 'assistant',
+        model,
+        content: [{ type: 'text', text: this.config.reply }],
+        stop_reason: 'end_turn',
+        usage: { input_tokens: 10, output_tokens: this.countChunks() }
+      }));
+      return;
+    }
+
+    response.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive'
+    });
+
+    this.writeEvent(response, 'message_start', {
+      type: 'message_start',
+      message: {
+        id: messageId,
+        type: 'message',
+        role: 'assistant',
+        model,
+        content: [],
+        stop_reason: null,
+        usage: { input_tokens: 10, output_tokens: 0 }
+      }
+    });
+    this.writeEvent(response, 'content_block_start', {
+      type: 'content_block_start',
+      index: 0,
+      content_block: { type: 'text', text: '' }
+    });
+    this.writeEvent(response, 'ping', { type: 'ping' });
+
+    for (let i = 0; i < this.config.reply.length; i += this.config.chunkSize) {
+      if (response.destroyed) {
+        return;
+      }
+
+      this.writeEvent(response, 'content_block_delta', {
+        type: 'content_block_delta',
+        index: 0,
+        delta: { type: 'text_delta', text: this.config.reply.substring(i, i + this.config.chunkSize) }
+      });
+      await this.sleep(this.config.delayMs);
+    }
+
+    this.writeEvent(response, 'content_block_stop', { type: 'content_block_stop', index: 0 });
+    this.writeEvent(response, 'message_delta', {
+      type: 'message_delta',
+      delta: { stop_reason: 'end_turn', stop_sequence: null },
+      usage: { output_tokens: this.countChunks() }
+    });
+    this.writeEvent(response, 'message_stop', { type: 'message_stop' });
+    response.end();
+  }
+
+  /**
+   * Answer with a scripted error response
+   */
+  private writeFailure(response: http.ServerResponse, failure: IStandInFailure): void {
+    const headers: http.OutgoingHttpHeaders = { 'Content-Type': 'application/json' };
+    if (failure.retryAfter !== undefined) {
+      headers['retry-after'] = failure.retryAfter;
+    }
+
+    const errorType = failure.status === 429 ? 'rate_limit_error'
+      : failure.status === 529 ? 'overloaded_error'
+      : failure.status === 401 ? 'authentication_error'
+      : 'api_error';
+
+    response.writeHead(failure.status, headers);
+    response.end(JSON.stringify({ type: 'error', error: { type: errorType, message: `Stand-in ${errorType}` } }));
+  }
+
+  /**
+   * Write a single server-sent event
+   */
+  private writeEvent(response: http.ServerResponse, event: string, data: any): void {
+    response.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  }
+
+  /**
+   * Read the full request body as text
+   */
+  private readBody(request: http.IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+      let data = '';
+      request.setEncoding('utf8');
+      request.on('data', chunk => data += chunk);
+      request.on('end', () => resolve(data));
+      request.on('error', reject);
+    });
+  }
+
+  /**
+   * Number of deltas the configured reply is split into
+   */
+  private countChunks(): number {
+    return Math.ceil(this.config.reply.length / this.config.chunkSize);
+  }
+
+  /**
+   * Utility sleep function
+   */
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
@@ -0,0 +1,251 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { fetchOverNetwork } from './networkFetch';
+import {
+  IRecordedExchange,
+  IRecordedRequest,
+  ITransportConfig,
+  TransportException,
+  TransportMode
+} from './types';
+
+/**
+ * HTTP transport under the API clients
+ * Live mode sends requests over the network, honouring proxy and CA settings,
+ * record mode also saves every exchange as a fixture,
+ * and replay mode answers from saved fixtures without touching the network
+ */
+export class ApiTransport {
+  private readonly config: ITransportConfig;
+  private pendingWrites: Promise<void> = Promise.resolve();
+
+  constructor(config: ITransportConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Current mode and fixture directory
+   */
+  getConfig(): ITransportConfig {
+    return this.config;
+  }
+
+  /**
+   * Send a request according to the transport mode
+   * @param url Request URL
+   * @param init Fetch options
+   * @returns Live or replayed HTTP response
+   */
+  async fetch(url: string, init: RequestInit = {}): Promise<Response> {
+    switch (this.config.mode) {
+      case TransportMode.REPLAY:
+        return this.replay(url, init);
+      case TransportMode.RECORD:
+        return this.record(url, init);
+      default:
+        return fetchOverNetwork(url, init);
+    }
+  }
+
+  /**
+   * Wait until every recorded exchange has been written to disk
+   */
+  flush(): Promise<void> {
+    return this.pendingWrites;
+  }
+
+  /**
+   * Hash of the parts of a request that decide its response
+   * Headers are left out so API keys never affect or leak into fixtures,
+   * and JSON bodies are compared with their keys sorted
+   * @param url Request URL
+   * @param init Fetch options
+   * @returns Hex fixture key
+   */
+  static computeRequestKey(url: string, init: RequestInit = {}): string {
+    const request = ApiTransport.normalizeRequest(url, init);
+    const canonical = `${request.method} ${request.url}\n${stableStringify(request.body)}`;
+
+    return crypto.createHash('sha256').update(canonical).digest('hex').substring(0, 32);
+  }
+
+  /**
+   * Method, URL and parsed body of a request, as stored in fixtures
+   */
+  private static normalizeRequest(url: string, init: RequestInit): IRecordedRequest {
+    const rawBody = typeof init.body === 'string' ? init.body : '';
+    let body: any = rawBody;
+    try {
+      body = rawBody ? JSON.parse(rawBody) : null;
+    } catch (error) {
+      // Non-JSON bodies are keyed by their raw text
+    }
+
+    return {
+      method: (init.method || 'GET').toUpperCase(),
+      url: url.replace(/\/+$/, ''),
+      body
+    };
+  }
+
+  /**
+   * Call the API and save the exchange once the response body has been read
+   * The caller gets the live response, so streaming still arrives as it is produced
+   */
+  private async record(url: string, init: RequestInit): Promise<Response> {
+    const response = await fetchOverNetwork(url, init);
+    const key = ApiTransport.computeRequestKey(url, init);
+    const request = ApiTransport.normalizeRequest(url, init);
+    const copy = response.clone();
+
+    const write = this.pendingWrites.then(async () => {
+      try {
+        const headers: Record<string, string> = {};
+        copy.headers.forEach((value, name) => {
+          headers[name] = value;
+        });
+
+        const exchange: IRecordedExchange = {
+          key,
+          recordedAt: new Date().toISOString(),
+          request,
+          response: { status: copy.status, statusText: copy.statusText, headers, body: await copy.text() }
+        };
+
+        await fs.promises.mkdir(this.config.fixturesDir, { recursive: true });
+        await fs.promises.writeFile(this.getFixturePath(key), JSON.stringify(exchange, null, 2), 'utf8');
+
+      } catch (error) {
+        console.error(`Failed to record fixture ${key}:`, error);
+      }
+    });
+    this.pendingWrites = write;
+
+    return response;
+  }
+
+  /**
+   * Answer a request from its recorded fixture
+   */
+  private async replay(url: string, init: RequestInit): Promise<Response> {
+    if (init.signal?.aborted) {
+      throw new vscode.CancellationError();
+    }
+
+    const key = ApiTransport.computeRequestKey(url, init);
+    let exchange: IRecordedExchange;
+    try {
+      exchange = JSON.parse(await fs.promises.readFile(this.getFixturePath(key), 'utf8'));
+    } catch (error) {
+      throw new TransportException(
+        'FIXTURE_NOT_FOUND',
+        `No recorded fixture for ${init.method || 'GET'} ${url} (key ${key}) in ${this.config.fixturesDir}. ` +
+        'Run once in record mode to capture it.',
+        { key, error }
+      );
+    }
+
+    // Responses without a body cannot carry one when rebuilt
+    const body = [204, 304].includes(exchange.response.status) ? null : exchange.response.body;
+
+    return new Response(body, {
+      status: exchange.response.status,
+      statusText: exchange.response.statusText,
+      headers: exchange.response.headers
+    });
+  }
+
+  private getFixturePath(key: string): string {
+    return path.join(this.config.fixturesDir, `${key}.json`);
+  }
+}
+
+let sharedTransport: ApiTransport | null = null;
+
+/**
+ * Send a request through the transport configured for the extension
+ * @param url Request URL
+ * @param init Fetch options
+ * @returns Live or replayed HTTP response
+ */
+export function apiFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  return getTransport().fetch(url, init);
+}
+
+/**
+ * Get the shared transport, rebuilt whenever the mode or fixture directory changes
+ */
+export function getTransport(): ApiTransport {
+  const config = loadTransportConfig();
+  const current = sharedTransport?.getConfig();
+
+  if (!sharedTransport || current!.mode !== config.mode || current!.fixturesDir !== config.fixturesDir) {
+    sharedTransport = new ApiTransport(config);
+  }
+
+  return sharedTransport;
+}
+
+/**
+ * Load the transport mode and fixture directory
+ * CODE_ASSIST_TRANSPORT and CODE_ASSIST_FIXTURES_DIR override the settings, for test runs.
+ * A relative fixture directory needs a single root to resolve against; in a multi-root workspace
+ * without a workspace file, recording and replaying require an absolute path
+ */
+export function loadTransportConfig(): ITransportConfig {
+  const config = vscode.workspace.getConfiguration('codeAssist');
+
+  const requestedMode = process.env.CODE_ASSIST_TRANSPORT || config.get<string>('transport.mode', TransportMode.LIVE);
+  const mode = Object.values(TransportMode).includes(requestedMode as TransportMode)
+    ? requestedMode as TransportMode
+    : TransportMode.LIVE;
+
+  const fixturesDir = process.env.CODE_ASSIST_FIXTURES_DIR ||
+    config.get<string>('transport.fixturesDir', '.codeassist/fixtures');
+  if (path.isAbsolute(fixturesDir)) {
+    return { mode, fixturesDir };
+  }
+
+  const root = getFixturesRoot();
+  if (!root && mode !== TransportMode.LIVE) {
+    throw new TransportException(
+      'FIXTURES_DIR_AMBIGUOUS',
+      `Cannot tell which workspace folder the fixture directory ${fixturesDir} is relative to. ` +
+      'Set codeAssist.transport.fixturesDir to an absolute path, or save the workspace to a .code-workspace file.'
+    );
+  }
+
+  return { mode, fixturesDir: path.resolve(root || process.cwd(), fixturesDir) };
+}
+
+/**
+ * Directory a relative fixture path resolves against: the only workspace folder, or the directory of
+ * the .code-workspace file of a multi-root workspace, as VS Code does for the folders listed in it
+ * @returns Root directory, or undefined when a multi-root workspace has not been saved
+ */
+function getFixturesRoot(): string | undefined {
+  const folders = vscode.workspace.workspaceFolders || [];
+  if (folders.length <= 1) {
+    return folders[0]?.uri.fsPath || process.cwd();
+  }
+
+  const workspaceFile = vscode.workspace.workspaceFile;
+  return workspaceFile?.scheme === 'file' ? path.dirname(workspaceFile.fsPath) : undefined;
+}
+
+/**
+ * JSON with object keys sorted, so equal requests hash equally
+ */
+function stableStringify(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`).join(',')}}`;
+  }
+
+  return JSON.stringify(value) ?? 'null';
+}
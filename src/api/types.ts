@@ -0,0 +1,135 @@
+/**
+ * Types and interfaces for the Claude API module
+ */
+
+import { ApiException, IClaudeApiResponse } from '../auth/types';
+import { IToolDefinition } from '../tools/types';
+
+export interface IServerSentEvent {
+  event: string;
+  data: string;
+}
+
+export type StreamDeltaCallback = (delta: string) => void;
+
+export interface IStreamHandlers {
+  onTextDelta?: StreamDeltaCallback;
+  onEvent?: (event: IServerSentEvent) => void;
+}
+
+export interface IStreamResult {
+  text: string;
+  response: IClaudeApiResponse;
+}
+
+export interface IMessagesRequest {
+  messages: any[];
+  system?: any[];
+  tools?: IToolDefinition[];
+  toolChoice?: 'auto' | 'none';
+}
+
+export interface IStandInServerConfig {
+  port: number;
+  reply: string;
+  chunkSize: number;
+  delayMs: number;
+  model: string;
+  failures: IStandInFailure[];
+}
+
+export interface IStandInFailure {
+  status: number;
+  retryAfter?: string;
+}
+
+export interface IRetryOptions {
+  maxRetries: number;
+  initialDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface IRetryNotice {
+  attempt: number;
+  maxRetries: number;
+  delayMs: number;
+  error: ApiException;
+}
+
+export type RetryCallback = (notice: IRetryNotice) => void;
+
+export enum TransportMode {
+  LIVE = 'live',
+  RECORD = 'record',
+  REPLAY = 'replay'
+}
+
+export interface ITransportConfig {
+  mode: TransportMode;
+  fixturesDir: string;
+}
+
+export interface IApiEndpointConfig {
+  /** Base URL of the Messages API, e.g. an internal gateway */
+  baseUrl: string;
+  /** Extra headers sent with every request */
+  headers: Record<string, string>;
+  /** Header carrying the API key */
+  authHeader: string;
+  /** Text placed before the key in the auth header, e.g. Bearer */
+  authScheme: string;
+}
+
+export interface INetworkConfig {
+  /** Proxy URL, undefined to connect directly */
+  proxy?: string;
+  proxyAuthorization?: string;
+  /** Hosts reached without the proxy */
+  noProxy: string[];
+  /** Reject servers whose certificate cannot be verified */
+  strictSSL: boolean;
+  /** Path of a PEM file with extra certificate authorities */
+  caBundle?: string;
+}
+
+export interface IRecordedRequest {
+  method: string;
+  url: string;
+  body: any;
+}
+
+export interface IRecordedResponse {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body: string;
+}
+
+export interface IRecordedExchange {
+  key: string;
+  recordedAt: string;
+  request: IRecordedRequest;
+  response: IRecordedResponse;
+}
+
+export class StreamException extends Error {
+  constructor(
+    public readonly errorType: string,
+    message: string,
+    public readonly details?: any
+  ) {
+    super(message);
+    this.name = 'StreamException';
+  }
+}
+
+export class TransportException extends Error {
+  constructor(
+    public readonly errorType: string,
+    message: string,
+    public readonly details?: any
+  ) {
+    super(message);
+    this.name = 'TransportException';
+  }
+}
@@ -1,23 +1,29 @@
 import * as vscode from 'vscode';
 import { IApiKeyValidator, IApiKeyValidationResult, AuthenticationError, AuthenticationException } from './types';
+import { ModelRegistry } from '../models/modelRegistry';
+import { apiFetch } from '../api/transport';
+import { buildApiHeaders, isDefaultEndpoint, loadEndpointConfig } from '../api/endpoint';
 
 /**
  * Validates Claude API keys by testing format and connectivity
  */
 export class ApiKeyValidator implements IApiKeyValidator {
   private readonly timeout: number;
+  private readonly modelRegistry: ModelRegistry;
 
   constructor() {
     const config = vscode.workspace.getConfiguration('codeAssist');
     this.timeout = config.get<number>('apiKeyValidationTimeout') || 10000;
+    this.modelRegistry = new ModelRegistry();
   }
 
   /**
    * Validates the format and functionality of a Claude API key
    * @param apiKey The API key to validate
+   * @param baseUrl API base URL the key belongs to, the configured endpoint by default
    * @returns Validation result with details
    */
-  async validateApiKey(apiKey: string): Promise<IApiKeyValidationResult> {
+  async validateApiKey(apiKey: string, baseUrl: string = loadEndpointConfig().baseUrl): Promise<IApiKeyValidationResult> {
     const result: IApiKeyValidationResult = {
       isValid: false,
       details: {
@@ -29,21 +35,24 @@ export class ApiKeyValidator implements IApiKeyValidator {
 
     try {
       // Step 1: Validate key format
-      result.details!.keyFormat = this.validateKeyFormat(apiKey);
+      const endpoint = loadEndpointConfig();
+      result.details!.keyFormat = this.validateKeyFormat(apiKey, isDefaultEndpoint(endpoint, baseUrl));
       if (!result.details!.keyFormat) {
-        result.error = 'Invalid API key format. Claude API keys should start with "sk-ant-"';
+        result.error = isDefaultEndpoint(endpoint, baseUrl)
+          ? 'Invalid API key format. Claude API keys should start with "sk-ant-"'
+          : 'API key cannot be empty';
         return result;
       }
 
       // Step 2: Test API connection
-      result.details!.apiConnection = await this.testConnection(apiKey);
+      result.details!.apiConnection = await this.testConnection(apiKey, baseUrl);
       if (!result.details!.apiConnection) {
         result.error = 'Unable to connect to Claude API. Please check your internet connection and API key.';
         return result;
       }
 
       // Step 3: Test permissions (basic API call)
-      result.details!.permissions = await this.testPermissions(apiKey);
+      result.details!.permissions = await this.testPermissions(apiKey, baseUrl);
       if (!result.details!.permissions) {
         result.error = 'API key does not have sufficient permissions or has been revoked.';
         return result;
@@ -61,22 +70,19 @@ export class ApiKeyValidator implements IApiKeyValidator {
   /**
    * Test basic connectivity to Claude API
    * @param apiKey The API key to test
+   * @param baseUrl API base URL the key belongs to
    * @returns True if connection successful
    */
-  async testConnection(apiKey: string): Promise<boolean> {
+  async testConnection(apiKey: string, baseUrl: string = loadEndpointConfig().baseUrl): Promise<boolean> {
     try {
       const controller = new AbortController();
       const timeoutId = setTimeout(() => controller.abort(), this.timeout);
 
-      const response = await fetch('https://api.anthropic.com/v1/messages', {
+      const response = await apiFetch(`${baseUrl}/v1/messages`, {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'x-api-key': apiKey,
-          'anthropic-version': '2023-06-01'
-        },
+        headers: buildApiHeaders(apiKey),
         body: JSON.stringify({
-          model: 'claude-3-sonnet-20240229',
+          model: this.modelRegistry.getDefaultModel().id,
           max_tokens: 1,
           messages: [{ role: 'user', content: 'test' }]
         }),
@@ -102,15 +108,19 @@ export class ApiKeyValidator implements IApiKeyValidator {
   /**
    * Validate the format of the API key
    * @param apiKey The API key to validate
+   * @param anthropicFormat Whether the key must look like an Anthropic key; gateways issue their own formats
    * @returns True if format is valid
    */
-  private validateKeyFormat(apiKey: string): boolean {
+  private validateKeyFormat(apiKey: string, anthropicFormat: boolean): boolean {
     if (!apiKey || typeof apiKey !== 'string') {
       return false;
     }
 
     const trimmedKey = apiKey.trim();
-    
+    if (!anthropicFormat) {
+      return trimmedKey.length > 0;
+    }
+
     // Claude API keys typically start with "sk-ant-" and have a specific length
     return trimmedKey.startsWith('sk-ant-') && trimmedKey.length > 20;
   }
@@ -118,22 +128,19 @@ export class ApiKeyValidator implements IApiKeyValidator {
   /**
    * Test if the API key has necessary permissions
    * @param apiKey The API key to test
+   * @param baseUrl API base URL the key belongs to
    * @returns True if permissions are sufficient
    */
-  private async testPermissions(apiKey: string): Promise<boolean> {
+  private async testPermissions(apiKey: string, baseUrl: string): Promise<boolean> {
     try {
       const controller = new AbortController();
       const timeoutId = setTimeout(() => controller.abort(), this.timeout);
 
-      const response = await fetch('https://api.anthropic.com/v1/messages', {
+      const response = await apiFetch(`${baseUrl}/v1/messages`, {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'x-api-key': apiKey,
-          'anthropic-version': '2023-06-01'
-        },
+        headers: buildApiHeaders(apiKey),
         body: JSON.stringify({
-          model: 'claude-3-sonnet-20240229',
+          model: this.modelRegistry.getDefaultModel().id,
           max_tokens: 10,
           messages: [{ role: 'user', content: 'Hello' }]
         }),
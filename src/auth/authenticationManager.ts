@@ -1,6 +1,7 @@
 import * as vscode from 'vscode';
-import { SecretManager } from './secretManager';
 import { ApiKeyValidator } from './apiKeyValidator';
+import { ProfileManager } from './profileManager';
+import { isDefaultEndpoint, loadEndpointConfig } from '../api/endpoint';
 import { 
   IAuthenticationManager, 
   IApiKeyValidationResult, 
@@ -15,12 +16,16 @@ import {
  * Handles API key configuration, validation, and management
  */
 export class AuthenticationManager implements IAuthenticationManager {
-  private readonly secretManager: SecretManager;
+  private readonly profileManager: ProfileManager;
   private readonly validator: ApiKeyValidator;
   private config: IAuthenticationConfig;
 
-  constructor(context: vscode.ExtensionContext) {
-    this.secretManager = new SecretManager(context);
+  /**
+   * @param context Extension context providing secret storage
+   * @param profileManager Credential profiles; the active profile holds the stored key
+   */
+  constructor(context: vscode.ExtensionContext, profileManager: ProfileManager = new ProfileManager(context)) {
+    this.profileManager = profileManager;
     this.validator = new ApiKeyValidator();
     this.config = this.loadConfiguration();
   }
@@ -30,11 +35,11 @@ export class AuthenticationManager implements IAuthenticationManager {
    */
   async initialize(): Promise<void> {
     try {
-      // Migrate from old configuration if needed
-      await this.secretManager.migrateFromConfiguration();
+      // Migrate from old configuration and the single stored key if needed
+      await this.profileManager.initialize();
 
-      // Auto-validate API key if enabled
-      if (this.config.autoValidateApiKey) {
+      // Auto-validate API key if enabled and the selected provider needs one
+      if (this.config.autoValidateApiKey && this.isApiKeyRequired()) {
         const isAuthenticated = await this.isAuthenticated();
         if (!isAuthenticated) {
           vscode.window.showWarningMessage(
@@ -120,7 +125,7 @@ export class AuthenticationManager implements IAuthenticationManager {
       };
     }
 
-    return await this.validator.validateApiKey(apiKeySource.value);
+    return await this.validator.validateApiKey(apiKeySource.value, this.profileManager.getActiveBaseUrl());
   }
 
   /**
@@ -134,7 +139,8 @@ export class AuthenticationManager implements IAuthenticationManager {
     );
 
     if (confirmation === 'Yes, Revoke') {
-      await this.secretManager.deleteApiKey();
+      const secretManager = await this.profileManager.getActiveSecretManager();
+      await secretManager.deleteApiKey();
       
       // Also clear environment variable setting if enabled
       const config = vscode.workspace.getConfiguration('codeAssist');
@@ -149,6 +155,10 @@ export class AuthenticationManager implements IAuthenticationManager {
    * @returns True if authenticated
    */
   async isAuthenticated(): Promise<boolean> {
+    if (!this.isApiKeyRequired()) {
+      return true;
+    }
+
     try {
       const apiKeySource = await this.getApiKeySource();
       return !!apiKeySource && apiKeySource.isValid;
@@ -157,6 +167,16 @@ export class AuthenticationManager implements IAuthenticationManager {
     }
   }
 
+  /**
+   * Check whether the selected provider needs a Claude API key
+   * Keyless providers such as local Ollama servers skip key prompts and validation
+   * @returns True if the Anthropic provider is selected
+   */
+  isApiKeyRequired(): boolean {
+    this.config = this.loadConfiguration();
+    return this.config.provider === 'anthropic';
+  }
+
   /**
    * Get API key from the configured source
    * @returns API key source information
@@ -167,11 +187,12 @@ export class AuthenticationManager implements IAuthenticationManager {
     let apiKey: string | undefined;
     let sourceType: 'environment' | 'secure_storage' | 'configuration';
 
+    const secretManager = await this.profileManager.getActiveSecretManager();
     if (this.config.useEnvironmentVariable) {
-      apiKey = this.secretManager.getApiKeyFromEnvironment(this.config.environmentVariableName);
+      apiKey = secretManager.getApiKeyFromEnvironment(this.config.environmentVariableName);
       sourceType = 'environment';
     } else {
-      apiKey = await this.secretManager.getApiKey();
+      apiKey = await secretManager.getApiKey();
       sourceType = 'secure_storage';
     }
 
@@ -180,7 +201,7 @@ export class AuthenticationManager implements IAuthenticationManager {
     }
 
     // Validate the key
-    const validation = await this.validator.validateApiKey(apiKey);
+    const validation = await this.validator.validateApiKey(apiKey, this.profileManager.getActiveBaseUrl());
 
     return {
       type: sourceType,
@@ -201,7 +222,8 @@ export class AuthenticationManager implements IAuthenticationManager {
         if (!value || !value.trim()) {
           return 'API key cannot be empty';
         }
-        if (!value.startsWith('sk-ant-')) {
+        // Gateways behind a custom base URL or auth header may issue their own key formats
+        if (isDefaultEndpoint(loadEndpointConfig(), this.profileManager.getActiveBaseUrl()) && !value.startsWith('sk-ant-')) {
           return 'Claude API keys should start with "sk-ant-"';
         }
         return null;
@@ -214,7 +236,7 @@ export class AuthenticationManager implements IAuthenticationManager {
 
     // Validate the key
     vscode.window.showInformationMessage('Validating API key...');
-    const validation = await this.validator.validateApiKey(apiKey);
+    const validation = await this.validator.validateApiKey(apiKey, this.profileManager.getActiveBaseUrl());
 
     if (!validation.isValid) {
       vscode.window.showErrorMessage(
@@ -223,8 +245,9 @@ export class AuthenticationManager implements IAuthenticationManager {
       return false;
     }
 
-    // Store the key
-    await this.secretManager.storeApiKey(apiKey);
+    // Store the key in the active profile
+    const secretManager = await this.profileManager.getActiveSecretManager();
+    await secretManager.storeApiKey(apiKey);
     
     // Ensure environment variable option is disabled
     const config = vscode.workspace.getConfiguration('codeAssist');
@@ -267,7 +290,7 @@ export class AuthenticationManager implements IAuthenticationManager {
 
     // Validate the key from environment
     vscode.window.showInformationMessage('Validating API key from environment...');
-    const validation = await this.validator.validateApiKey(apiKey);
+    const validation = await this.validator.validateApiKey(apiKey, this.profileManager.getActiveBaseUrl());
 
     if (!validation.isValid) {
       vscode.window.showErrorMessage(
@@ -296,7 +319,8 @@ export class AuthenticationManager implements IAuthenticationManager {
       useEnvironmentVariable: config.get<boolean>('useEnvironmentVariable') || false,
       environmentVariableName: config.get<string>('environmentVariableName') || 'CLAUDE_API_KEY',
       autoValidateApiKey: config.get<boolean>('autoValidateApiKey') || true,
-      apiKeyValidationTimeout: config.get<number>('apiKeyValidationTimeout') || 10000
+      apiKeyValidationTimeout: config.get<number>('apiKeyValidationTimeout') || 10000,
+      provider: config.get<string>('provider') || 'anthropic'
     };
   }
 }
@@ -6,4 +6,6 @@
 export { SecretManager } from './secretManager';
 export { ApiKeyValidator } from './apiKeyValidator';
 export { AuthenticationManager } from './authenticationManager';
+export { ProfileManager } from './profileManager';
+export { ProfileStatusBar } from './profileStatusBar';
 export * from './types';
@@ -0,0 +1,395 @@
+import * as vscode from 'vscode';
+import { SecretManager } from './secretManager';
+import { ApiKeyValidator } from './apiKeyValidator';
+import { ModelRegistry } from '../models/modelRegistry';
+import { loadEndpointConfig } from '../api/endpoint';
+import { ICredentialProfile, ProfileException } from './types';
+
+/**
+ * Named Claude credential profiles, e.g. "work" and "personal"
+ * Profile details live in global state, each key in secret storage,
+ * and the `codeAssist.activeProfile` setting picks the profile per workspace
+ */
+export class ProfileManager {
+  static readonly DEFAULT_PROFILE_NAME = 'default';
+  private static readonly PROFILES_STATE_KEY = 'codeAssist.credentialProfiles';
+
+  private readonly context: vscode.ExtensionContext;
+  private readonly validator: ApiKeyValidator;
+  private readonly modelRegistry: ModelRegistry;
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+  private initialization: Promise<void> | null = null;
+
+  /**
+   * Fires when profiles are added, renamed or deleted, or another profile is selected
+   */
+  readonly onDidChangeProfiles = this.changeEmitter.event;
+
+  constructor(context: vscode.ExtensionContext) {
+    this.context = context;
+    this.validator = new ApiKeyValidator();
+    this.modelRegistry = new ModelRegistry();
+
+    context.subscriptions.push(
+      vscode.workspace.onDidChangeConfiguration(event => {
+        if (event.affectsConfiguration('codeAssist.activeProfile')) {
+          this.changeEmitter.fire();
+        }
+      })
+    );
+  }
+
+  /**
+   * Create the default profile on first use and move any single stored key into the active profile
+   */
+  initialize(): Promise<void> {
+    if (!this.initialization) {
+      this.initialization = this.migrateLegacyKey().catch(error => {
+        // Allow a later call to try again
+        this.initialization = null;
+        throw error;
+      });
+    }
+    return this.initialization;
+  }
+
+  /**
+   * List all profiles in creation order
+   */
+  listProfiles(): ICredentialProfile[] {
+    return this.context.globalState.get<ICredentialProfile[]>(ProfileManager.PROFILES_STATE_KEY, []);
+  }
+
+  /**
+   * Get the profile selected by `codeAssist.activeProfile`
+   * @returns Selected profile, the first profile when the setting is unknown, or undefined if none exist
+   */
+  getActiveProfile(): ICredentialProfile | undefined {
+    const profiles = this.listProfiles();
+    const activeName = vscode.workspace.getConfiguration('codeAssist').get<string>('activeProfile');
+
+    return profiles.find(profile => profile.name === activeName) || profiles[0];
+  }
+
+  /**
+   * Secret storage for the key of the active profile, creating the default profile if needed
+   */
+  async getActiveSecretManager(): Promise<SecretManager> {
+    await this.initialize();
+
+    const profile = this.getActiveProfile() || await this.createProfile(ProfileManager.DEFAULT_PROFILE_NAME);
+    return this.getSecretManager(profile);
+  }
+
+  /**
+   * Base URL of the active profile, or the configured `codeAssist.api.baseUrl`
+   */
+  getActiveBaseUrl(): string {
+    return (this.getActiveProfile()?.baseUrl || loadEndpointConfig().baseUrl).replace(/\/+$/, '');
+  }
+
+  /**
+   * Add a profile through input boxes and offer to switch to it
+   * @returns True if a profile was added
+   */
+  async addProfile(): Promise<boolean> {
+    try {
+      const name = await this.promptForName('Name of the new profile, e.g. work or personal');
+      if (!name) {
+        return false;
+      }
+
+      const apiKey = await vscode.window.showInputBox({
+        prompt: `Claude API key for profile "${name}"`,
+        password: true,
+        placeHolder: 'sk-ant-...',
+        validateInput: value => value && value.trim() ? null : 'API key cannot be empty'
+      });
+      if (!apiKey) {
+        return false;
+      }
+
+      const baseUrl = await vscode.window.showInputBox({
+        prompt: 'API base URL for this profile',
+        value: loadEndpointConfig().baseUrl,
+        validateInput: value => /^https?:\/\/\S+$/.test(value.trim()) ? null : 'Enter an http(s) URL'
+      });
+      if (baseUrl === undefined) {
+        return false;
+      }
+
+      const defaultModel = await this.promptForModel();
+      if (defaultModel === undefined) {
+        return false;
+      }
+
+      const normalizedBaseUrl = baseUrl.trim().replace(/\/+$/, '');
+      vscode.window.showInformationMessage('Validating API key...');
+      const validation = await this.validator.validateApiKey(apiKey.trim(), normalizedBaseUrl);
+      if (!validation.isValid) {
+        vscode.window.showErrorMessage(
+          `API key validation failed: ${ApiKeyValidator.getValidationErrorMessage(validation)}`
+        );
+        return false;
+      }
+
+      const profile = await this.createProfile(name, {
+        baseUrl: normalizedBaseUrl === loadEndpointConfig().baseUrl ? undefined : normalizedBaseUrl,
+        defaultModel: defaultModel || undefined
+      });
+      await this.getSecretManager(profile).storeApiKey(apiKey);
+
+      const switchNow = await vscode.window.showInformationMessage(
+        `Profile "${name}" added.`,
+        'Switch to It'
+      );
+      if (switchNow === 'Switch to It') {
+        await this.setActiveProfile(profile);
+      }
+      return true;
+
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `Failed to add profile: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      return false;
+    }
+  }
+
+  /**
+   * Rename a profile, keeping it selected wherever it was selected
+   * @returns True if the profile was renamed
+   */
+  async renameProfile(): Promise<boolean> {
+    const profile = await this.pickProfile('Select the profile to rename');
+    if (!profile) {
+      return false;
+    }
+
+    const name = await this.promptForName(`New name for profile "${profile.name}"`, profile.name);
+    if (!name || name === profile.name) {
+      return false;
+    }
+
+    await this.saveProfiles(this.listProfiles().map(existing =>
+      existing.id === profile.id ? { ...existing, name } : existing
+    ));
+
+    // Update every settings scope that referred to the old name
+    const inspection = vscode.workspace.getConfiguration('codeAssist').inspect<string>('activeProfile');
+    if (inspection?.workspaceValue === profile.name) {
+      await this.updateActiveProfileSetting(name, vscode.ConfigurationTarget.Workspace);
+    }
+    if (inspection?.globalValue === profile.name) {
+      await this.updateActiveProfileSetting(name, vscode.ConfigurationTarget.Global);
+    }
+
+    this.changeEmitter.fire();
+    vscode.window.showInformationMessage(`Profile "${profile.name}" renamed to "${name}".`);
+    return true;
+  }
+
+  /**
+   * Select the profile used by this workspace
+   * @returns True if a profile was selected
+   */
+  async switchProfile(): Promise<boolean> {
+    const profile = await this.pickProfile('Select the profile for this workspace');
+    if (!profile) {
+      return false;
+    }
+
+    await this.setActiveProfile(profile);
+    vscode.window.showInformationMessage(`Now using profile "${profile.name}".`);
+    return true;
+  }
+
+  /**
+   * Validate the key of a profile against its base URL
+   * @returns True if the key is valid
+   */
+  async validateProfile(): Promise<boolean> {
+    const profile = await this.pickProfile('Select the profile to validate');
+    if (!profile) {
+      return false;
+    }
+
+    const apiKey = await this.getSecretManager(profile).getApiKey();
+    if (!apiKey) {
+      vscode.window.showErrorMessage(`Profile "${profile.name}" has no API key.`);
+      return false;
+    }
+
+    vscode.window.showInformationMessage(`Validating profile "${profile.name}"...`);
+    const result = await this.validator.validateApiKey(apiKey, profile.baseUrl || loadEndpointConfig().baseUrl);
+
+    if (result.isValid) {
+      vscode.window.showInformationMessage(`✅ Profile "${profile.name}" is valid and working!`);
+    } else {
+      vscode.window.showErrorMessage(
+        `❌ Profile "${profile.name}" failed validation: ${ApiKeyValidator.getValidationErrorMessage(result)}`
+      );
+    }
+    return result.isValid;
+  }
+
+  /**
+   * Delete a profile and its key after confirmation
+   * @returns True if the profile was deleted
+   */
+  async deleteProfile(): Promise<boolean> {
+    const profile = await this.pickProfile('Select the profile to delete');
+    if (!profile) {
+      return false;
+    }
+
+    const confirmation = await vscode.window.showWarningMessage(
+      `Delete profile "${profile.name}" and remove its API key from secure storage?`,
+      { modal: true },
+      'Delete'
+    );
+    if (confirmation !== 'Delete') {
+      return false;
+    }
+
+    await this.context.secrets.delete(this.getSecretId(profile));
+    await this.saveProfiles(this.listProfiles().filter(existing => existing.id !== profile.id));
+
+    const inspection = vscode.workspace.getConfiguration('codeAssist').inspect<string>('activeProfile');
+    if (inspection?.workspaceValue === profile.name) {
+      await this.updateActiveProfileSetting(undefined, vscode.ConfigurationTarget.Workspace);
+    }
+    if (inspection?.globalValue === profile.name) {
+      await this.updateActiveProfileSetting(undefined, vscode.ConfigurationTarget.Global);
+    }
+
+    this.changeEmitter.fire();
+    vscode.window.showInformationMessage(`Profile "${profile.name}" deleted.`);
+    return true;
+  }
+
+  /**
+   * Move a key left by earlier versions into the active profile
+   */
+  private async migrateLegacyKey(): Promise<void> {
+    try {
+      const profile = this.getActiveProfile() || await this.createProfile(ProfileManager.DEFAULT_PROFILE_NAME);
+      const migrated = await new SecretManager(this.context).migrateFromConfiguration(this.getSecretId(profile));
+
+      if (migrated) {
+        vscode.window.showInformationMessage(`Your Claude API key now belongs to the "${profile.name}" profile.`);
+      }
+    } catch (error) {
+      throw new ProfileException('migrate', 'Failed to move the API key into a profile', error);
+    }
+  }
+
+  /**
+   * Store a new profile
+   */
+  private async createProfile(name: string, options: Omit<ICredentialProfile, 'id' | 'name'> = {}): Promise<ICredentialProfile> {
+    const profile: ICredentialProfile = {
+      id: `profile_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      name,
+      ...options
+    };
+
+    await this.saveProfiles([...this.listProfiles(), profile]);
+    this.changeEmitter.fire();
+    return profile;
+  }
+
+  private async saveProfiles(profiles: ICredentialProfile[]): Promise<void> {
+    await this.context.globalState.update(ProfileManager.PROFILES_STATE_KEY, profiles);
+  }
+
+  /**
+   * Select a profile in the workspace settings, or globally when no folder is open
+   */
+  private async setActiveProfile(profile: ICredentialProfile): Promise<void> {
+    const target = vscode.workspace.workspaceFolders
+      ? vscode.ConfigurationTarget.Workspace
+      : vscode.ConfigurationTarget.Global;
+
+    await this.updateActiveProfileSetting(profile.name, target);
+    this.changeEmitter.fire();
+  }
+
+  private async updateActiveProfileSetting(name: string | undefined, target: vscode.ConfigurationTarget): Promise<void> {
+    await vscode.workspace.getConfiguration('codeAssist').update('activeProfile', name, target);
+  }
+
+  private getSecretManager(profile: ICredentialProfile): SecretManager {
+    return new SecretManager(this.context, this.getSecretId(profile), `API key for profile "${profile.name}"`);
+  }
+
+  private getSecretId(profile: ICredentialProfile): string {
+    return `codeAssist.profiles.${profile.id}.apiKey`;
+  }
+
+  /**
+   * Let the user pick a profile, marking the active one
+   */
+  private async pickProfile(placeHolder: string): Promise<ICredentialProfile | undefined> {
+    await this.initialize();
+
+    const activeId = this.getActiveProfile()?.id;
+    const items = this.listProfiles().map(profile => ({
+      label: profile.name,
+      description: profile.id === activeId ? 'current' : undefined,
+      detail: [profile.baseUrl || loadEndpointConfig().baseUrl, profile.defaultModel].filter(Boolean).join(' • '),
+      profile
+    }));
+
+    if (items.length === 0) {
+      vscode.window.showInformationMessage('No profiles yet. Run "Add Credential Profile" to create one.');
+      return undefined;
+    }
+
+    const choice = await vscode.window.showQuickPick(items, { placeHolder });
+    return choice?.profile;
+  }
+
+  /**
+   * Ask for a profile name that is not taken
+   */
+  private async promptForName(prompt: string, value?: string): Promise<string | undefined> {
+    const takenNames = this.listProfiles().map(profile => profile.name).filter(name => name !== value);
+
+    const name = await vscode.window.showInputBox({
+      prompt,
+      value,
+      validateInput: input => {
+        if (!input || !input.trim()) {
+          return 'Profile name cannot be empty';
+        }
+        if (takenNames.includes(input.trim())) {
+          return `A profile named "${input.trim()}" already exists`;
+        }
+        return null;
+      }
+    });
+
+    return name?.trim();
+  }
+
+  /**
+   * Ask for the default model of a profile
+   * @returns Model id, an empty string to keep the global default, or undefined if cancelled
+   */
+  private async promptForModel(): Promise<string | undefined> {
+    const items = [
+      { label: 'Use the global default model', modelId: '' },
+      ...this.modelRegistry.listModels().map(model => ({
+        label: model.displayName,
+        description: model.id,
+        modelId: model.id
+      }))
+    ];
+
+    const choice = await vscode.window.showQuickPick(items, {
+      placeHolder: 'Default model for this profile'
+    });
+    return choice?.modelId;
+  }
+}
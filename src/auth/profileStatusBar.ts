@@ -0,0 +1,52 @@
+import * as vscode from 'vscode';
+import { ProfileManager } from './profileManager';
+
+/**
+ * Status bar entry showing the credential profile of the workspace
+ * Clicking it switches profiles; it is hidden while another provider is selected
+ */
+export class ProfileStatusBar implements vscode.Disposable {
+  private readonly item: vscode.StatusBarItem;
+  private readonly disposables: vscode.Disposable[] = [];
+
+  constructor(private readonly profileManager: ProfileManager) {
+    this.item = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100);
+    this.item.command = 'codeAssist.switchProfile';
+
+    this.disposables.push(
+      this.item,
+      profileManager.onDidChangeProfiles(() => this.update()),
+      vscode.workspace.onDidChangeConfiguration(event => {
+        if (event.affectsConfiguration('codeAssist.provider')) {
+          this.update();
+        }
+      })
+    );
+
+    this.update();
+  }
+
+  /**
+   * Refresh the shown profile
+   */
+  update(): void {
+    const provider = vscode.workspace.getConfiguration('codeAssist').get<string>('provider') || 'anthropic';
+    const profile = this.profileManager.getActiveProfile();
+
+    if (provider !== 'anthropic' || !profile) {
+      this.item.hide();
+      return;
+    }
+
+    this.item.text = `$(key) ${profile.name}`;
+    this.item.tooltip = `Claude credential profile: ${profile.name}` +
+      `${profile.defaultModel ? `\nDefault model: ${profile.defaultModel}` : ''}` +
+      `\nBase URL: ${this.profileManager.getActiveBaseUrl()}` +
+      '\nClick to switch profiles';
+    this.item.show();
+  }
+
+  dispose(): void {
+    this.disposables.forEach(disposable => disposable.dispose());
+  }
+}
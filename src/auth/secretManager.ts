@@ -8,9 +8,18 @@ import { ISecretManager } from './types';
 export class SecretManager implements ISecretManager {
   private static readonly API_KEY_SECRET_ID = 'codeAssist.claudeApiKey';
   private readonly secretStorage: vscode.SecretStorage;
+  private readonly secretId: string;
+  private readonly keyLabel: string;
 
-  constructor(context: vscode.ExtensionContext) {
+  /**
+   * @param context Extension context providing secret storage
+   * @param secretId Storage key, defaults to the Claude API key
+   * @param keyLabel Name of the key shown in notifications
+   */
+  constructor(context: vscode.ExtensionContext, secretId?: string, keyLabel: string = 'Claude API key') {
     this.secretStorage = context.secrets;
+    this.secretId = secretId || SecretManager.API_KEY_SECRET_ID;
+    this.keyLabel = keyLabel;
   }
 
   /**
@@ -23,8 +32,8 @@ export class SecretManager implements ISecretManager {
     }
 
     try {
-      await this.secretStorage.store(SecretManager.API_KEY_SECRET_ID, apiKey.trim());
-      vscode.window.showInformationMessage('Claude API key stored securely');
+      await this.secretStorage.store(this.secretId, apiKey.trim());
+      vscode.window.showInformationMessage(`${this.keyLabel} stored securely`);
     } catch (error) {
       const errorMessage = `Failed to store API key: ${error instanceof Error ? error.message : 'Unknown error'}`;
       vscode.window.showErrorMessage(errorMessage);
@@ -38,7 +47,7 @@ export class SecretManager implements ISecretManager {
    */
   async getApiKey(): Promise<string | undefined> {
     try {
-      const apiKey = await this.secretStorage.get(SecretManager.API_KEY_SECRET_ID);
+      const apiKey = await this.secretStorage.get(this.secretId);
       return apiKey?.trim();
     } catch (error) {
       const errorMessage = `Failed to retrieve API key: ${error instanceof Error ? error.message : 'Unknown error'}`;
@@ -52,8 +61,8 @@ export class SecretManager implements ISecretManager {
    */
   async deleteApiKey(): Promise<void> {
     try {
-      await this.secretStorage.delete(SecretManager.API_KEY_SECRET_ID);
-      vscode.window.showInformationMessage('Claude API key removed from secure storage');
+      await this.secretStorage.delete(this.secretId);
+      vscode.window.showInformationMessage(`${this.keyLabel} removed from secure storage`);
     } catch (error) {
       const errorMessage = `Failed to delete API key: ${error instanceof Error ? error.message : 'Unknown error'}`;
       vscode.window.showErrorMessage(errorMessage);
@@ -87,9 +96,12 @@ export class SecretManager implements ISecretManager {
   /**
    * Migrate API key from configuration to secure storage
    * This helps users transition from the old insecure storage method
+   * @param targetSecretId When given, the stored key is then moved under this id, e.g. a credential profile
+   * @returns True if a key was migrated
    */
-  async migrateFromConfiguration(): Promise<boolean> {
+  async migrateFromConfiguration(targetSecretId?: string): Promise<boolean> {
     try {
+      let migrated = false;
       const config = vscode.workspace.getConfiguration('codeAssist');
       const configApiKey = config.get<string>('claudeApiKey');
       
@@ -103,9 +115,20 @@ export class SecretManager implements ISecretManager {
         vscode.window.showInformationMessage(
           'API key migrated to secure storage. The key has been removed from your settings.'
         );
-        return true;
+        migrated = true;
       }
-      return false;
+
+      // Move the single stored key to its new location
+      if (targetSecretId && targetSecretId !== this.secretId) {
+        const storedKey = await this.secretStorage.get(this.secretId);
+        if (storedKey && storedKey.trim().length > 0) {
+          await this.secretStorage.store(targetSecretId, storedKey.trim());
+          await this.secretStorage.delete(this.secretId);
+          migrated = true;
+        }
+      }
+
+      return migrated;
     } catch (error) {
       vscode.window.showErrorMessage(
         `Failed to migrate API key: ${error instanceof Error ? error.message : 'Unknown error'}`
@@ -7,6 +7,7 @@ import * as vscode from 'vscode';
 import { AuthenticationManager } from './authenticationManager';
 import { ApiKeyValidator } from './apiKeyValidator';
 import { SecretManager } from './secretManager';
+import { ModelRegistry } from '../models/modelRegistry';
 
 /**
  * Test the authentication module functionality
@@ -138,7 +139,7 @@ export async function testAuthenticationFlow(context: vscode.ExtensionContext):
           'anthropic-version': '2023-06-01'
         },
         body: JSON.stringify({
-          model: 'claude-3-sonnet-20240229',
+          model: new ModelRegistry().getDefaultModel().id,
           max_tokens: 10,
           messages: [{ role: 'user', content: 'Hello' }]
         })
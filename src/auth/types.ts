@@ -17,6 +17,7 @@ export interface IAuthenticationConfig {
   environmentVariableName: string;
   autoValidateApiKey: boolean;
   apiKeyValidationTimeout: number;
+  provider: string;
 }
 
 export interface ISecretManager {
@@ -27,8 +28,17 @@ export interface ISecretManager {
 }
 
 export interface IApiKeyValidator {
-  validateApiKey(apiKey: string): Promise<IApiKeyValidationResult>;
-  testConnection(apiKey: string): Promise<boolean>;
+  validateApiKey(apiKey: string, baseUrl?: string): Promise<IApiKeyValidationResult>;
+  testConnection(apiKey: string, baseUrl?: string): Promise<boolean>;
+}
+
+export interface ICredentialProfile {
+  id: string;
+  name: string;
+  /** API base URL, defaults to https://api.anthropic.com */
+  baseUrl?: string;
+  /** Model used when a conversation has not chosen one, defaults to codeAssist.defaultModel */
+  defaultModel?: string;
 }
 
 export interface IAuthenticationManager {
@@ -60,6 +70,28 @@ export class AuthenticationException extends Error {
   }
 }
 
+export enum ApiError {
+  RATE_LIMITED = 'RATE_LIMITED',
+  OVERLOADED = 'OVERLOADED',
+  INVALID_REQUEST = 'INVALID_REQUEST',
+  NOT_FOUND = 'NOT_FOUND',
+  SERVER_ERROR = 'SERVER_ERROR',
+  NETWORK_ERROR = 'NETWORK_ERROR'
+}
+
+export class ApiException extends Error {
+  constructor(
+    public readonly errorType: ApiError,
+    message: string,
+    public readonly status?: number,
+    public readonly retryAfterMs?: number,
+    public readonly details?: any
+  ) {
+    super(message);
+    this.name = 'ApiException';
+  }
+}
+
 export interface IClaudeApiResponse {
   id?: string;
   type?: string;
@@ -71,6 +103,8 @@ export interface IClaudeApiResponse {
   usage?: {
     input_tokens: number;
     output_tokens: number;
+    cache_creation_input_tokens?: number;
+    cache_read_input_tokens?: number;
   };
 }
 
@@ -79,3 +113,14 @@ export interface IApiKeySource {
   value: string;
   isValid: boolean;
 }
+
+export class ProfileException extends Error {
+  constructor(
+    public readonly operation: string,
+    message: string,
+    public readonly details?: any
+  ) {
+    super(message);
+    this.name = 'ProfileException';
+  }
+}
@@ -1,12 +1,56 @@
 import * as vscode from 'vscode';
 import { AuthenticationManager } from './auth/authenticationManager';
-import { AuthenticationException, IClaudeApiResponse } from './auth/types';
+import { ProfileManager } from './auth/profileManager';
+import { ApiException, AuthenticationException, IApiKeyValidationResult, IClaudeApiResponse } from './auth/types';
+import {
+  IMessagesRequest,
+  IRetryNotice,
+  MessageStreamReader,
+  StreamDeltaCallback,
+  apiFetch,
+  buildApiHeaders,
+  fetchWithRetry,
+  isCancellationError,
+  loadRetryOptions,
+  toAbortSignal
+} from './api';
+import { IConversationTurn } from './conversation';
+import { IModelInfo, ModelRegistry } from './models';
+import { ILLMCompletion, ILLMProvider, ITokenUsage, ProviderId } from './providers/types';
+import { buildChatMessages, buildSummaryPrompt, buildSystemSections } from './providers/messageBuilder';
+import { IToolSession, IToolStep, ToolStepStatus } from './tools/types';
+import { getRedactor } from './redaction';
+
+export class ClaudeClient implements ILLMProvider {
+  readonly id = ProviderId.ANTHROPIC;
+  readonly displayName = 'Anthropic Claude';
+  readonly requiresApiKey = true;
 
-export class ClaudeClient {
   private authManager: AuthenticationManager;
+  private readonly profileManager: ProfileManager;
+  private readonly modelRegistry: ModelRegistry;
+  private readonly retryEmitter = new vscode.EventEmitter<IRetryNotice>();
+
+  /**
+   * Fires before each automatic retry of a rate-limited or overloaded request
+   */
+  readonly onDidRetry = this.retryEmitter.event;
+
+  private readonly usageEmitter = new vscode.EventEmitter<ITokenUsage>();
+
+  /**
+   * Fires for every request that consumed tokens, including summaries, tool rounds and interrupted streams
+   */
+  readonly onDidUseTokens = this.usageEmitter.event;
 
-  constructor(context: vscode.ExtensionContext) {
-    this.authManager = new AuthenticationManager(context);
+  /**
+   * @param context Extension context providing secret storage
+   * @param profileManager Credential profiles supplying the key, base URL and default model
+   */
+  constructor(context: vscode.ExtensionContext, profileManager: ProfileManager = new ProfileManager(context)) {
+    this.profileManager = profileManager;
+    this.authManager = new AuthenticationManager(context, profileManager);
+    this.modelRegistry = new ModelRegistry();
   }
 
   /**
@@ -20,38 +64,90 @@ export class ClaudeClient {
    * Get completion from Claude API with enhanced context
    * @param query User query
    * @param enhancedContext Enhanced context with code and editor info
-   * @returns Claude's response
+   * @param token Optional token used to abort the request
+   * @param modelId Model to use, defaults to the configured model
+   * @param tools Optional workspace tools Claude may call before answering
+   * @returns Claude's response and the model that produced it
    */
-  async getCompletion(query: string, enhancedContext: any): Promise<string> {
+  async getCompletion(
+    query: string,
+    enhancedContext: any,
+    token?: vscode.CancellationToken,
+    modelId?: string,
+    tools?: IToolSession
+  ): Promise<ILLMCompletion> {
     try {
       const apiKey = await this.authManager.getValidApiKey();
+      const model = this.resolveModel(modelId);
 
-      const messages = this.buildMessages(query, enhancedContext);
-      const response = await this.callClaudeApi(apiKey, messages);
+      const request = this.buildRequest(query, enhancedContext);
+      const response = tools
+        ? await this.runToolLoop(apiKey, request, model, tools, token)
+        : await this.callClaudeApi(apiKey, request, model, token);
 
-      return this.extractContentFromResponse(response);
+      return this.toCompletion(response, model);
 
     } catch (error) {
-      if (error instanceof AuthenticationException) {
-        // Handle authentication errors gracefully
-        vscode.window.showErrorMessage(
-          `Authentication error: ${error.message}`,
-          'Configure API Key'
-        ).then((selection: string | undefined) => {
-          if (selection === 'Configure API Key') {
-            vscode.commands.executeCommand('codeAssist.configureApiKey');
-          }
-        });
-        throw error;
-      }
+      throw this.handleApiError(error);
+    }
+  }
+
+  /**
+   * Get completion from Claude API, streaming partial text as it arrives
+   * @param query User query
+   * @param enhancedContext Enhanced context with code and editor info
+   * @param onDelta Callback receiving each text delta
+   * @param token Optional token used to abort the stream
+   * @param modelId Model to use, defaults to the configured model
+   * @param tools Optional workspace tools Claude may call before answering
+   * @returns Claude's full response once the stream has finished
+   */
+  async getStreamingCompletion(
+    query: string,
+    enhancedContext: any,
+    onDelta: StreamDeltaCallback,
+    token?: vscode.CancellationToken,
+    modelId?: string,
+    tools?: IToolSession
+  ): Promise<ILLMCompletion> {
+    try {
+      const apiKey = await this.authManager.getValidApiKey();
+      const model = this.resolveModel(modelId);
 
-      // Handle other errors
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-      vscode.window.showErrorMessage(`Claude API error: ${errorMessage}`);
-      throw new Error(errorMessage);
+      const request = this.buildRequest(query, enhancedContext);
+      const response = tools
+        ? await this.runToolLoop(apiKey, request, model, tools, token, onDelta)
+        : await this.callClaudeApiStream(apiKey, request, model, onDelta, token);
+
+      return this.toCompletion(response, model);
+
+    } catch (error) {
+      throw this.handleApiError(error);
     }
   }
 
+  /**
+   * Summarise conversation turns that no longer fit the history budget
+   * @param turns Oldest turns to fold into the summary
+   * @param previousSummary Summary of even earlier turns, if any
+   * @param token Optional token used to abort the request
+   * @param modelId Model to use, defaults to the configured model
+   * @returns Updated summary of the conversation so far
+   */
+  async summarizeConversation(
+    turns: IConversationTurn[],
+    previousSummary: string,
+    token?: vscode.CancellationToken,
+    modelId?: string
+  ): Promise<string> {
+    const apiKey = await this.authManager.getValidApiKey();
+    const model = this.resolveModel(modelId);
+
+    const prompt = buildSummaryPrompt(turns, previousSummary);
+    const response = await this.callClaudeApi(apiKey, { messages: [{ role: 'user', content: prompt }] }, model, token);
+    return this.extractContentFromResponse(response);
+  }
+
   /**
    * Test the connection to Claude API
    * @returns True if connection is successful
@@ -60,15 +156,11 @@ export class ClaudeClient {
     try {
       const apiKey = await this.authManager.getValidApiKey();
 
-      const response = await fetch('https://api.anthropic.com/v1/messages', {
+      const response = await apiFetch(this.getMessagesUrl(), {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'x-api-key': apiKey,
-          'anthropic-version': '2023-06-01'
-        },
+        headers: buildApiHeaders(apiKey),
         body: JSON.stringify({
-          model: 'claude-3-sonnet-20240229',
+          model: this.getDefaultModel().id,
           max_tokens: 10,
           messages: [{ role: 'user', content: 'Hello' }]
         })
@@ -81,62 +173,251 @@ export class ClaudeClient {
   }
 
   /**
-   * Build messages array for Claude API
+   * Build a Messages request whose stable prefix can be served from Anthropic's prompt cache
+   * Cache breakpoints close the system sections and the history before the current turn,
+   * so only the retrieved code, editor state and query are processed in full on each turn
    * @param query User query
    * @param enhancedContext Context information
-   * @returns Messages array
+   * @returns Request with system blocks and messages
    */
-  private buildMessages(query: string, enhancedContext: any): Array<{role: string, content: string}> {
-    const messages: Array<{role: string, content: string}> = [];
+  private buildRequest(query: string, enhancedContext: any): IMessagesRequest {
+    const messages: any[] = buildChatMessages(query, enhancedContext);
+    const system: any[] = buildSystemSections(enhancedContext).map(text => ({ type: 'text', text }));
 
-    // Add system context if available
-    if (enhancedContext.codeContext && enhancedContext.codeContext.length > 0) {
-      const contextMessage = `Here is relevant code context:\n\n${enhancedContext.codeContext.join('\n\n')}`;
-      messages.push({ role: 'user', content: contextMessage });
+    if (vscode.workspace.getConfiguration('codeAssist').get<boolean>('promptCaching', true)) {
+      system[system.length - 1].cache_control = { type: 'ephemeral' };
+
+      // The last history message is unchanged when the next turn is sent
+      if (messages.length > 1) {
+        const lastHistoryMessage = messages[messages.length - 2];
+        messages[messages.length - 2] = {
+          role: lastHistoryMessage.role,
+          content: [{ type: 'text', text: lastHistoryMessage.content, cache_control: { type: 'ephemeral' } }]
+        };
+      }
     }
 
-    // Add current editor context if available
-    if (enhancedContext.currentEditor) {
-      const editorMessage = `Current file: ${enhancedContext.currentEditor.fileName}\nSelected text: ${enhancedContext.currentEditor.selectedText || 'None'}`;
-      messages.push({ role: 'user', content: editorMessage });
+    return { messages, system };
+  }
+
+  /**
+   * Let Claude call workspace tools until it answers without requesting more
+   * @param apiKey API key
+   * @param request Request for the current turn
+   * @param model Model to send the requests to
+   * @param tools Tools offered to Claude and the step callback
+   * @param token Optional token used to abort the loop
+   * @param onDelta Streams text when provided, otherwise each request is buffered
+   * @returns Final response whose text joins every round and whose usage covers all requests
+   */
+  private async runToolLoop(
+    apiKey: string,
+    request: IMessagesRequest,
+    model: IModelInfo,
+    tools: IToolSession,
+    token?: vscode.CancellationToken,
+    onDelta?: StreamDeltaCallback
+  ): Promise<IClaudeApiResponse> {
+    const definitions = tools.executor.getDefinitions();
+    const maxIterations = vscode.workspace.getConfiguration('codeAssist').get<number>('tools.maxIterations', 8);
+    const conversation = [...request.messages];
+    const texts: string[] = [];
+    const usage = { input_tokens: 0, output_tokens: 0, cache_creation_input_tokens: 0, cache_read_input_tokens: 0 };
+    let response: IClaudeApiResponse = {};
+
+    for (let iteration = 0; ; iteration++) {
+      // Once the limit is reached Claude has to answer with what it has gathered
+      const toolChoice = iteration < maxIterations ? 'auto' : 'none';
+      const roundRequest: IMessagesRequest = { ...request, messages: conversation, tools: definitions, toolChoice };
+
+      if (onDelta) {
+        // Separate text of successive rounds the same way the final content is joined
+        let separator = texts.length > 0 ? '\n\n' : '';
+        const roundDelta = (delta: string) => {
+          onDelta(separator + delta);
+          separator = '';
+        };
+        response = await this.callClaudeApiStream(apiKey, roundRequest, model, roundDelta, token);
+      } else {
+        response = await this.callClaudeApi(apiKey, roundRequest, model, token);
+      }
+
+      usage.input_tokens += response.usage?.input_tokens || 0;
+      usage.output_tokens += response.usage?.output_tokens || 0;
+      usage.cache_creation_input_tokens += response.usage?.cache_creation_input_tokens || 0;
+      usage.cache_read_input_tokens += response.usage?.cache_read_input_tokens || 0;
+
+      const blocks: any[] = Array.isArray(response.content) ? response.content : [];
+      const text = blocks.filter(block => block.type === 'text').map(block => block.text).join('\n');
+      if (text) {
+        texts.push(text);
+      }
+
+      const toolCalls = blocks.filter(block => block.type === 'tool_use');
+      if (response.stop_reason !== 'tool_use' || toolCalls.length === 0) {
+        break;
+      }
+
+      const results = [];
+      for (const toolCall of toolCalls) {
+        results.push(await this.executeToolCall(toolCall, tools, token));
+      }
+
+      conversation.push({ role: 'assistant', content: blocks });
+      conversation.push({ role: 'user', content: results });
     }
 
-    // Add the main query
-    messages.push({ role: 'user', content: query });
+    return {
+      ...response,
+      content: [{ type: 'text', text: texts.join('\n\n') }],
+      usage
+    };
+  }
+
+  /**
+   * Run one tool call and report its progress as a chat step
+   * @param toolCall tool_use block from Claude
+   * @param tools Tool executor and step callback
+   * @param token Optional token used to abort the call
+   * @returns tool_result block to send back to Claude
+   */
+  private async executeToolCall(toolCall: any, tools: IToolSession, token?: vscode.CancellationToken): Promise<any> {
+    const step: IToolStep = {
+      id: toolCall.id,
+      name: toolCall.name,
+      input: toolCall.input,
+      status: ToolStepStatus.RUNNING
+    };
+    tools.onToolStep?.(step);
+
+    const startTime = Date.now();
+    const result = await tools.executor.execute({ id: toolCall.id, name: toolCall.name, input: toolCall.input }, token);
+
+    tools.onToolStep?.({
+      ...step,
+      status: result.isError ? ToolStepStatus.FAILED : ToolStepStatus.DONE,
+      output: result.content,
+      durationMs: Date.now() - startTime
+    });
 
-    return messages;
+    return {
+      type: 'tool_result',
+      tool_use_id: toolCall.id,
+      content: result.content,
+      ...(result.isError ? { is_error: true } : {})
+    };
   }
 
   /**
    * Make API call to Claude
    * @param apiKey API key
-   * @param messages Messages array
+   * @param request Messages, system blocks and tools
+   * @param model Model to send the request to
+   * @param token Optional token used to abort the request
    * @returns API response
    */
-  private async callClaudeApi(apiKey: string, messages: any[]): Promise<IClaudeApiResponse> {
-    const config = vscode.workspace.getConfiguration('codeAssist');
-    const maxTokens = config.get<number>('maxContextLength') || 10000;
+  private async callClaudeApi(
+    apiKey: string,
+    request: IMessagesRequest,
+    model: IModelInfo,
+    token?: vscode.CancellationToken
+  ): Promise<IClaudeApiResponse> {
+    const response = await this.sendMessagesRequest(apiKey, request, model, false, token);
+    const data: IClaudeApiResponse = await response.json();
+    this.reportUsage(data.model || model.id, data.usage);
+    return data;
+  }
 
-    const response = await fetch('https://api.anthropic.com/v1/messages', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': apiKey,
-        'anthropic-version': '2023-06-01'
-      },
-      body: JSON.stringify({
-        model: 'claude-3-sonnet-20240229',
-        max_tokens: Math.min(maxTokens, 4096),
-        messages: messages
-      })
-    });
+  /**
+   * Make a streaming API call to Claude
+   * @param apiKey API key
+   * @param request Messages, system blocks and tools
+   * @param model Model to send the request to
+   * @param onDelta Callback receiving each text delta
+   * @param token Optional token used to abort the stream
+   * @returns API response rebuilt from the event stream
+   */
+  private async callClaudeApiStream(
+    apiKey: string,
+    request: IMessagesRequest,
+    model: IModelInfo,
+    onDelta: StreamDeltaCallback,
+    token?: vscode.CancellationToken
+  ): Promise<IClaudeApiResponse> {
+    const response = await this.sendMessagesRequest(apiKey, request, model, true, token);
+    const reader = new MessageStreamReader({ onTextDelta: onDelta });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Claude API error (${response.status}): ${errorText}`);
+    let result;
+    try {
+      result = await reader.read(response);
+    } catch (error) {
+      // Tokens generated before a cancellation or a dropped connection are billed all the same
+      this.reportUsage(model.id, reader.getPartialUsage());
+      throw error;
     }
 
-    return await response.json();
+    this.reportUsage(result.response.model || model.id, result.response.usage);
+    return result.response;
+  }
+
+  /**
+   * Announce the tokens a request consumed
+   * @param model Model that served the request
+   * @param usage Usage reported by the API, if any
+   */
+  private reportUsage(model: string, usage: IClaudeApiResponse['usage']): void {
+    if (usage) {
+      this.usageEmitter.fire({ model, usage });
+    }
+  }
+
+  /**
+   * Send a request to the Messages endpoint, retrying rate-limited and overloaded responses
+   * Secrets and personal data in the messages and system blocks are redacted first
+   * @param apiKey API key
+   * @param request Messages, system blocks and tools
+   * @param model Model to send the request to
+   * @param stream Whether to request a server-sent event stream
+   * @param token Optional token used to abort the request
+   * @returns Successful HTTP response
+   */
+  private async sendMessagesRequest(
+    apiKey: string,
+    request: IMessagesRequest,
+    model: IModelInfo,
+    stream: boolean,
+    token?: vscode.CancellationToken
+  ): Promise<Response> {
+    const { messages, system, tools, toolChoice = 'auto' } = request;
+    const redactor = getRedactor();
+
+    return await fetchWithRetry(this.getMessagesUrl(), {
+      method: 'POST',
+      headers: buildApiHeaders(apiKey),
+      body: JSON.stringify({
+        model: model.id,
+        max_tokens: this.modelRegistry.getMaxOutputTokens(model),
+        messages: redactor.redactContent(messages),
+        ...(system && system.length > 0 ? { system: redactor.redactContent(system) } : {}),
+        ...(tools && tools.length > 0 ? { tools, tool_choice: { type: toolChoice } } : {}),
+        ...(stream ? { stream: true } : {})
+      }),
+      signal: toAbortSignal(token)
+    }, loadRetryOptions(), notice => this.retryEmitter.fire(notice), token);
+  }
+
+  /**
+   * Convert an API response into a completion result
+   * @param response API response
+   * @param model Model the request was sent to
+   * @returns Completion with the model that actually answered
+   */
+  private toCompletion(response: IClaudeApiResponse, model: IModelInfo): ILLMCompletion {
+    return {
+      content: this.extractContentFromResponse(response),
+      model: response.model || model.id,
+      usage: response.usage
+    };
   }
 
   /**
@@ -159,6 +440,106 @@ export class ClaudeClient {
     return 'No response content received from Claude API';
   }
 
+  /**
+   * Report an API error to the user and normalise it for callers
+   * @param error Error raised while calling Claude
+   * @returns Error to rethrow
+   */
+  private handleApiError(error: unknown): Error {
+    if (isCancellationError(error)) {
+      // Cancellation is user-initiated, not a failure worth reporting
+      return new vscode.CancellationError();
+    }
+
+    if (error instanceof AuthenticationException) {
+      // Handle authentication errors gracefully
+      vscode.window.showErrorMessage(
+        `Authentication error: ${error.message}`,
+        'Configure API Key'
+      ).then((selection: string | undefined) => {
+        if (selection === 'Configure API Key') {
+          vscode.commands.executeCommand('codeAssist.configureApiKey');
+        }
+      });
+      return error;
+    }
+
+    if (error instanceof ApiException) {
+      // Typed API errors already carry a readable message
+      vscode.window.showErrorMessage(`Claude API error: ${error.message}`);
+      return error;
+    }
+
+    // Handle other errors
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    vscode.window.showErrorMessage(`Claude API error: ${errorMessage}`);
+    return new Error(errorMessage);
+  }
+
+  /**
+   * List the Claude models available for selection
+   */
+  listModels(): IModelInfo[] {
+    return this.modelRegistry.listModels();
+  }
+
+  /**
+   * Find a Claude model by id
+   */
+  getModel(modelId: string): IModelInfo | undefined {
+    return this.modelRegistry.getModel(modelId);
+  }
+
+  /**
+   * Get the default model of the active profile, or the one selected in settings
+   */
+  getDefaultModel(): IModelInfo {
+    return this.modelRegistry.resolveModel(this.profileManager.getActiveProfile()?.defaultModel);
+  }
+
+  /**
+   * Resolve a requested model, falling back to the active profile's default
+   */
+  private resolveModel(modelId?: string): IModelInfo {
+    return (modelId && this.modelRegistry.getModel(modelId)) || this.getDefaultModel();
+  }
+
+  /**
+   * Messages endpoint under the active profile's base URL
+   */
+  private getMessagesUrl(): string {
+    return `${this.profileManager.getActiveBaseUrl()}/v1/messages`;
+  }
+
+  /**
+   * Configure the Claude API key through the user interface
+   */
+  async configureCredentials(): Promise<boolean> {
+    return await this.authManager.configureApiKey();
+  }
+
+  /**
+   * Validate the configured Claude API key
+   */
+  async validateCredentials(): Promise<IApiKeyValidationResult> {
+    return await this.authManager.validateCurrentApiKey();
+  }
+
+  /**
+   * Revoke the stored Claude API key
+   */
+  async revokeCredentials(): Promise<void> {
+    await this.authManager.revokeApiKey();
+  }
+
+  /**
+   * Get model registry instance
+   * @returns Model registry
+   */
+  getModelRegistry(): ModelRegistry {
+    return this.modelRegistry;
+  }
+
   /**
    * Get authentication manager instance
    * @returns Authentication manager
@@ -19,17 +19,16 @@ import {
   SymbolType,
   ContextException
 } from './types';
+import { getWorkspaceIgnore } from '../ignore';
 
 /**
  * Detects and analyzes the current workspace context
  * Provides intelligent understanding of the development environment
  */
 export class ContextDetector implements IContextDetector {
-  private workspaceRoot: string;
   private gitExtension?: vscode.Extension<any>;
 
   constructor() {
-    this.workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || '';
     this.gitExtension = vscode.extensions.getExtension('vscode.git');
   }
 
@@ -114,7 +113,8 @@ export class ContextDetector implements IContextDetector {
       const siblingFiles = await this.getFilesInDirectory(directory);
       siblingFiles.slice(0, 5).forEach(file => relatedFiles.add(file)); // Limit to 5 siblings
 
-      return Array.from(relatedFiles).filter(file => file !== filePath);
+      // Imports may resolve into ignored paths, such as generated code
+      return getWorkspaceIgnore().filter(Array.from(relatedFiles)).filter(file => file !== filePath);
 
     } catch (error) {
       throw new ContextException('getRelatedFiles', `Failed to get related files for ${filePath}`, error);
@@ -234,15 +234,17 @@ export class ContextDetector implements IContextDetector {
   }
 
   /**
-   * Analyze project structure
+   * Analyze the structure of the workspace folder the user is working in
    */
   private async analyzeProjectStructure(): Promise<IProjectStructure> {
     const filesByExtension = new Map<string, string[]>();
     const mainDirectories: string[] = [];
     let totalFiles = 0;
+    const workspaceRoot = this.getProjectRoot();
 
-    // Get all files in workspace
-    const files = await this.getAllWorkspaceFiles();
+    // Get all files of that workspace folder
+    const files = (await this.getAllWorkspaceFiles())
+      .filter(file => !path.relative(workspaceRoot, file).startsWith('..'));
     totalFiles = files.length;
 
     // Group by extension
@@ -257,7 +259,7 @@ export class ContextDetector implements IContextDetector {
     // Find main directories
     const directories = new Set<string>();
     for (const file of files) {
-      const relativePath = path.relative(this.workspaceRoot, file);
+      const relativePath = path.relative(workspaceRoot, file);
       const firstDir = relativePath.split(path.sep)[0];
       if (firstDir && !firstDir.startsWith('.')) {
         directories.add(firstDir);
@@ -268,7 +270,7 @@ export class ContextDetector implements IContextDetector {
     // Read package.json if exists
     let packageJson;
     try {
-      const packagePath = path.join(this.workspaceRoot, 'package.json');
+      const packagePath = path.join(workspaceRoot, 'package.json');
       const packageContent = await fs.promises.readFile(packagePath, 'utf8');
       packageJson = JSON.parse(packageContent);
     } catch {
@@ -278,7 +280,7 @@ export class ContextDetector implements IContextDetector {
     // Read tsconfig.json if exists
     let tsConfig;
     try {
-      const tsConfigPath = path.join(this.workspaceRoot, 'tsconfig.json');
+      const tsConfigPath = path.join(workspaceRoot, 'tsconfig.json');
       const tsConfigContent = await fs.promises.readFile(tsConfigPath, 'utf8');
       tsConfig = JSON.parse(tsConfigContent);
     } catch {
@@ -286,7 +288,7 @@ export class ContextDetector implements IContextDetector {
     }
 
     return {
-      rootPath: this.workspaceRoot,
+      rootPath: workspaceRoot,
       packageJson,
       tsConfig,
       mainDirectories,
@@ -542,15 +544,26 @@ export class ContextDetector implements IContextDetector {
     return relevanceMap[ext] || 0.5;
   }
 
+  /**
+   * Workspace folder of the active file, or the first folder when no file of the workspace is active
+   */
+  private getProjectRoot(): string {
+    const activeUri = vscode.window.activeTextEditor?.document.uri;
+    const activeFolder = activeUri && vscode.workspace.getWorkspaceFolder(activeUri);
+    return (activeFolder || vscode.workspace.workspaceFolders?.[0])?.uri.fsPath || '';
+  }
+
   private async getAllWorkspaceFiles(): Promise<string[]> {
     const files = await vscode.workspace.findFiles('**/*', '**/node_modules/**');
-    return files.map(file => file.fsPath);
+    await getWorkspaceIgnore().load();
+    return getWorkspaceIgnore().filter(files.map(file => file.fsPath));
   }
 
   private async getFilesInDirectory(directory: string): Promise<string[]> {
     try {
       const files = await fs.promises.readdir(directory);
-      return files.map(file => path.join(directory, file));
+      await getWorkspaceIgnore().load();
+      return getWorkspaceIgnore().filter(files.map(file => path.join(directory, file)));
     } catch {
       return [];
     }
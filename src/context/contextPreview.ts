@@ -1,4 +1,5 @@
 import * as path from 'path';
+import { ModelRegistry, estimateCost } from '../models';
 import {
   IContextPreview,
   IPreviewData,
@@ -390,9 +391,8 @@ export class ContextPreview implements IContextPreview {
    * Estimate cost based on token count
    */
   private estimateCost(tokens: number): number {
-    // Rough estimate based on Claude pricing (adjust as needed)
-    const costPerToken = 0.000008; // $8 per million tokens
-    return tokens * costPerToken;
+    // Context is sent as input tokens to the configured default model
+    return estimateCost(new ModelRegistry().getDefaultModel(), tokens, 0);
   }
 
   /**
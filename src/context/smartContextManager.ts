@@ -4,6 +4,7 @@ import { ContextFilter } from './contextFilter';
 import { ContextOptimizer } from './contextOptimizer';
 import { ContextPreview } from './contextPreview';
 import { ContextualRetriever } from '../contextual/contextualRetriever';
+import { isCancellationError, throwIfCancelled } from '../api/cancellation';
 import {
   ISmartContextManager,
   ISmartContext,
@@ -37,9 +38,14 @@ export class SmartContextManager implements ISmartContextManager {
    * Build intelligent context for a query
    * @param query User query
    * @param options Context building options
+   * @param token Optional token used to abort context building
    * @returns Smart context with all relevant information
    */
-  async buildContext(query: string, options: IContextOptions = {}): Promise<ISmartContext> {
+  async buildContext(
+    query: string,
+    options: IContextOptions = {},
+    token?: vscode.CancellationToken
+  ): Promise<ISmartContext> {
     try {
       const startTime = Date.now();
 
@@ -48,6 +54,7 @@ export class SmartContextManager implements ISmartContextManager {
 
       // Step 1: Detect current workspace context
       const workspaceContext = await this.contextDetector.detectCurrentContext();
+      throwIfCancelled(token);
 
       // Step 2: Apply filters based on options
       let filteredContext = workspaceContext;
@@ -66,7 +73,8 @@ export class SmartContextManager implements ISmartContextManager {
 
       // Step 3: Get contextually relevant code using the retriever
       const activeFilePath = workspaceContext.activeFile?.filePath;
-      const contextualResults = await this.contextualRetriever.search(query, activeFilePath);
+      const contextualResults = await this.contextualRetriever.search(query, activeFilePath, token);
+      throwIfCancelled(token);
       
       // Convert contextual results to context strings
       const relevantCode = contextualResults.map(result => {
@@ -119,6 +127,8 @@ export class SmartContextManager implements ISmartContextManager {
         }
       }
 
+      throwIfCancelled(token);
+
       // Step 5: Analyze dependencies
       const dependencies = workspaceContext.activeFile 
         ? await this.contextDetector.analyzeCodeDependencies(
@@ -155,6 +165,9 @@ export class SmartContextManager implements ISmartContextManager {
       };
 
     } catch (error) {
+      if (isCancellationError(error)) {
+        throw error;
+      }
       throw new ContextException('buildContext', 'Failed to build smart context', error);
     }
   }
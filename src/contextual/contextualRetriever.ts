@@ -4,6 +4,7 @@ import { TemporalAnalyzer } from './temporalAnalyzer';
 import { SpatialAnalyzer } from './spatialAnalyzer';
 import { StructuralAnalyzer } from './structuralAnalyzer';
 import { ScoreCombiner } from './scoreCombiner';
+import { isCancellationError, throwIfCancelled } from '../api/cancellation';
 import {
   IContextualRetriever,
   IContextualSearchResult,
@@ -47,12 +48,13 @@ export class ContextualRetriever implements IContextualRetriever {
    * Search for contextually relevant code chunks
    * @param query Search query
    * @param activeFilePath Currently active file path
+   * @param token Optional token used to abort the search
    * @returns Array of contextually ranked results
    */
-  async search(query: string, activeFilePath?: string): Promise<IContextualSearchResult[]> {
+  async search(query: string, activeFilePath?: string, token?: vscode.CancellationToken): Promise<IContextualSearchResult[]> {
     try {
       // Step 1: Get semantic search results from vector database
-      const semanticResults = await this.vectorDb.search(query, this.config.maxResults * 2);
+      const semanticResults = await this.vectorDb.search(query, this.config.maxResults * 2, token);
       
       if (semanticResults.length === 0) {
         return [];
@@ -62,6 +64,8 @@ export class ContextualRetriever implements IContextualRetriever {
       const contextualResults: IContextualSearchResult[] = [];
       
       for (const semanticResult of semanticResults) {
+        throwIfCancelled(token);
+
         const relevanceScores = await this.analyzeCodeRelevance(
           semanticResult.chunk, 
           query, 
@@ -94,6 +98,9 @@ export class ContextualRetriever implements IContextualRetriever {
       return processedResults.slice(0, this.config.maxResults);
 
     } catch (error) {
+      if (isCancellationError(error)) {
+        throw error;
+      }
       throw new ContextualRetrievalException('search', 'Failed to perform contextual search', error);
     }
   }
@@ -7,11 +7,9 @@ import { ISpatialAnalyzer, IContextualSearchConfig, IFileProximityInfo, Contextu
  * Prioritizes code based on proximity to the active file
  */
 export class SpatialAnalyzer implements ISpatialAnalyzer {
-  private workspaceRoot: string;
   private fileCache: Map<string, string[]> = new Map(); // Directory -> files mapping
 
   constructor() {
-    this.workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || '';
     this.initializeFileCache();
   }
 
@@ -88,8 +86,8 @@ export class SpatialAnalyzer implements ISpatialAnalyzer {
     // Calculate distance (number of directory levels between files)
     const distance = this.calculatePathDistance(normalizedPath1, normalizedPath2);
 
-    // Check if in same project (both under workspace root)
-    const isInSameProject = this.isInWorkspace(normalizedPath1) && this.isInWorkspace(normalizedPath2);
+    // Check if in same project (both in the same workspace folder)
+    const isInSameProject = this.isInSameWorkspaceFolder(filePath1, filePath2);
 
     return {
       filePath: normalizedPath1,
@@ -206,18 +204,14 @@ export class SpatialAnalyzer implements ISpatialAnalyzer {
    */
   private async initializeFileCache(): Promise<void> {
     try {
-      if (!this.workspaceRoot) {
-        return;
-      }
-
-      // Pre-cache common directory listings
-      const commonDirs = [
-        this.workspaceRoot,
-        path.join(this.workspaceRoot, 'src'),
-        path.join(this.workspaceRoot, 'lib'),
-        path.join(this.workspaceRoot, 'components'),
-        path.join(this.workspaceRoot, 'utils')
-      ];
+      // Pre-cache common directory listings of every workspace folder
+      const commonDirs = (vscode.workspace.workspaceFolders || []).flatMap(folder => [
+        folder.uri.fsPath,
+        path.join(folder.uri.fsPath, 'src'),
+        path.join(folder.uri.fsPath, 'lib'),
+        path.join(folder.uri.fsPath, 'components'),
+        path.join(folder.uri.fsPath, 'utils')
+      ]);
 
       for (const dir of commonDirs) {
         try {
@@ -287,17 +281,13 @@ export class SpatialAnalyzer implements ISpatialAnalyzer {
   }
 
   /**
-   * Check if a file is within the workspace
+   * Check if two files belong to the same workspace folder
    */
-  private isInWorkspace(filePath: string): boolean {
-    if (!this.workspaceRoot) {
-      return false;
-    }
-    
-    const normalizedWorkspaceRoot = this.normalizePath(this.workspaceRoot);
-    const normalizedFilePath = this.normalizePath(filePath);
-    
-    return normalizedFilePath.startsWith(normalizedWorkspaceRoot);
+  private isInSameWorkspaceFolder(filePath1: string, filePath2: string): boolean {
+    const folder1 = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath1));
+    const folder2 = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath2));
+
+    return !!folder1 && folder1.uri.toString() === folder2?.uri.toString();
   }
 
   /**
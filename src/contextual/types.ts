@@ -35,6 +35,7 @@ export interface ICodeMetadata {
   exports?: string[];
   dependencies?: string[];
   complexity?: number;
+  section?: string;
   lastModified: number;
   fileSize?: number;
   linesOfCode?: number;
@@ -48,7 +49,12 @@ export enum CodeChunkType {
   VARIABLE = 'variable',
   IMPORT = 'import',
   COMMENT = 'comment',
-  BLOCK = 'block'
+  BLOCK = 'block',
+  MARKDOWN_SECTION = 'markdown_section',
+  JSON_ENTRY = 'json_entry',
+  YAML_ENTRY = 'yaml_entry',
+  NOTEBOOK_CODE_CELL = 'notebook_code_cell',
+  NOTEBOOK_MARKDOWN_CELL = 'notebook_markdown_cell'
 }
 
 export interface IContextualSearchConfig {
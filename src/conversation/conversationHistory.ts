@@ -0,0 +1,171 @@
+import { IChatMessage } from '../webview/types';
+import { ContextOptimizer } from '../context/contextOptimizer';
+import { isCancellationError } from '../api/cancellation';
+import {
+  IConversationTurn,
+  IConversationHistory,
+  IConversationHistoryConfig,
+  ConversationSummarizer
+} from './types';
+
+/**
+ * Turns chat messages into alternating user/assistant turns for Claude
+ * Keeps the most recent turns within a token budget and folds older ones into a rolling summary
+ */
+export class ConversationHistory {
+  private readonly config: IConversationHistoryConfig;
+  private readonly contextOptimizer: ContextOptimizer;
+  private summary = '';
+  private lastSummarizedId: string | null = null;
+
+  constructor(config?: Partial<IConversationHistoryConfig>) {
+    this.config = {
+      maxHistoryTokens: 4000,
+      minRecentTurns: 2,
+      ...config
+    };
+    this.contextOptimizer = new ContextOptimizer();
+  }
+
+  /**
+   * Build the history to send with the next request
+   * @param messages Chat messages preceding the new query
+   * @param summarize Summarizer used when older turns overflow the budget
+   * @returns Rolling summary and the recent turns that fit the budget
+   */
+  async build(messages: IChatMessage[], summarize: ConversationSummarizer): Promise<IConversationHistory> {
+    const pending = this.getUnsummarizedTurns(this.toTurns(messages));
+    const { kept, overflow } = this.splitByBudget(pending);
+
+    if (overflow.length > 0) {
+      this.summary = await this.summarizeOverflow(overflow, summarize);
+      const lastTurn = overflow[overflow.length - 1];
+      this.lastSummarizedId = lastTurn.messageIds[lastTurn.messageIds.length - 1];
+    }
+
+    return {
+      summary: this.summary,
+      turns: kept
+    };
+  }
+
+  /**
+   * Forget the summary, e.g. when the chat is cleared
+   */
+  reset(): void {
+    this.summary = '';
+    this.lastSummarizedId = null;
+  }
+
+  /**
+   * Convert chat messages into alternating turns starting with the user
+   * @param messages Chat messages in chronological order
+   * @returns Normalised turns
+   */
+  private toTurns(messages: IChatMessage[]): IConversationTurn[] {
+    const turns: IConversationTurn[] = [];
+
+    for (const message of messages) {
+      if (message.role === 'system' || message.isLoading || !message.content.trim()) {
+        continue;
+      }
+
+      const previous = turns[turns.length - 1];
+      if (previous && previous.role === message.role) {
+        // Merge consecutive messages from the same role into one turn
+        previous.content += `\n\n${message.content}`;
+        previous.messageIds.push(message.id);
+        continue;
+      }
+
+      if (!previous && message.role === 'assistant') {
+        continue;
+      }
+
+      turns.push({
+        role: message.role,
+        content: message.content,
+        messageIds: [message.id]
+      });
+    }
+
+    // A trailing question without an answer would break the alternation with the new query
+    if (turns.length > 0 && turns[turns.length - 1].role === 'user') {
+      turns.pop();
+    }
+
+    return turns;
+  }
+
+  /**
+   * Drop turns already folded into the summary
+   */
+  private getUnsummarizedTurns(turns: IConversationTurn[]): IConversationTurn[] {
+    if (!this.lastSummarizedId) {
+      return turns;
+    }
+
+    const index = turns.findIndex(turn => turn.messageIds.includes(this.lastSummarizedId!));
+    return index === -1 ? turns : turns.slice(index + 1);
+  }
+
+  /**
+   * Keep the newest turns that fit the token budget
+   * @param turns Turns not yet summarised
+   * @returns Turns to send as-is and older turns to summarise
+   */
+  private splitByBudget(turns: IConversationTurn[]): { kept: IConversationTurn[]; overflow: IConversationTurn[] } {
+    let usedTokens = this.contextOptimizer.estimateTokenCount(this.summary);
+    let firstKept = turns.length;
+
+    for (let i = turns.length - 1; i >= 0; i--) {
+      const turnTokens = this.contextOptimizer.estimateTokenCount(turns[i].content);
+      const isRecent = turns.length - i <= this.config.minRecentTurns;
+
+      if (!isRecent && usedTokens + turnTokens > this.config.maxHistoryTokens) {
+        break;
+      }
+
+      usedTokens += turnTokens;
+      firstKept = i;
+    }
+
+    // The kept history must open with a user turn
+    if (firstKept < turns.length && turns[firstKept].role === 'assistant') {
+      firstKept++;
+    }
+
+    return {
+      kept: turns.slice(firstKept),
+      overflow: turns.slice(0, firstKept)
+    };
+  }
+
+  /**
+   * Summarise overflowing turns, falling back to an extractive summary on failure
+   */
+  private async summarizeOverflow(overflow: IConversationTurn[], summarize: ConversationSummarizer): Promise<string> {
+    try {
+      return await summarize(overflow, this.summary);
+    } catch (error) {
+      if (isCancellationError(error)) {
+        throw error;
+      }
+
+      console.error('Failed to summarize conversation, using extractive summary:', error);
+      return this.buildExtractiveSummary(overflow);
+    }
+  }
+
+  /**
+   * Build a summary from the first line of each turn
+   */
+  private buildExtractiveSummary(turns: IConversationTurn[]): string {
+    const lines = turns.map(turn => {
+      const firstLine = turn.content.trim().split('\n')[0].substring(0, 200);
+      return `- ${turn.role === 'user' ? 'User' : 'Assistant'}: ${firstLine}`;
+    });
+
+    return this.summary ? `${this.summary}\n${lines.join('\n')}` : lines.join('\n');
+  }
+}
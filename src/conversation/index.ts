@@ -0,0 +1,7 @@
+/**
+ * Conversation module exports
+ * Provides multi-turn history with token budgeting and summarisation
+ */
+
+export { ConversationHistory } from './conversationHistory';
+export * from './types';
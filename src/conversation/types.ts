@@ -0,0 +1,24 @@
+/**
+ * Types and interfaces for multi-turn conversation history
+ */
+
+export interface IConversationTurn {
+  role: 'user' | 'assistant';
+  content: string;
+  messageIds: string[];
+}
+
+export interface IConversationHistory {
+  summary: string;
+  turns: IConversationTurn[];
+}
+
+export interface IConversationHistoryConfig {
+  maxHistoryTokens: number;
+  minRecentTurns: number;
+}
+
+export type ConversationSummarizer = (
+  turns: IConversationTurn[],
+  previousSummary: string
+) => Promise<string>;
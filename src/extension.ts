@@ -1,26 +1,39 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import { VectorDatabase } from './vectorDb';
-import { ClaudeClient } from './claudeClient';
+import { BackgroundIndexer } from './vectoring/backgroundIndexer';
+import { LLMProviderManager } from './providers';
+import { ProfileManager, ProfileStatusBar } from './auth';
 import { ChatWebview } from './webview/chatWebview';
 import { SmartContextManager } from './context/smartContextManager';
 import { IntelligentMemoryManager } from './memory/memoryManager';
 import { MemoryCommands } from './memory/commands';
 import { registerDemoCommand } from './memory/demo';
+import { registerTestCommands as registerApiTestCommands } from './api/test';
+import { registerTestCommands as registerRedactionTestCommands } from './redaction/test';
+import { registerTestCommands as registerIgnoreTestCommands } from './ignore/test';
+import { registerTestCommands as registerVectoringTestCommands } from './vectoring/test';
+import { WorkspaceToolbox } from './tools';
+import { UsageLedger, formatUsageReport } from './usage';
+import { getWorkspaceIgnore } from './ignore';
 
 export function activate(context: vscode.ExtensionContext) {
   // Initialize vector database
   const vectorDb = new VectorDatabase(context.globalStorageUri);
-  // Initialize Claude client
-  const claudeClient = new ClaudeClient(context);
+  // Initialize credential profiles and show the active one in the status bar
+  const profileManager = new ProfileManager(context);
+  context.subscriptions.push(new ProfileStatusBar(profileManager));
+
+  // Initialize LLM providers
+  const providerManager = new LLMProviderManager(context, profileManager);
 
   // Initialize intelligent memory system
   const memoryManager = new IntelligentMemoryManager(context.globalStorageUri);
   const memoryCommands = new MemoryCommands(memoryManager);
 
-  // Initialize Claude client authentication
-  claudeClient.initialize().catch(error => {
-    console.error('Failed to initialize Claude client:', error);
+  // Initialize the selected provider's authentication
+  providerManager.initialize().catch(error => {
+    console.error('Failed to initialize LLM provider:', error);
   });
 
   // Initialize vector database
@@ -28,11 +41,25 @@ export function activate(context: vscode.ExtensionContext) {
     console.error('Failed to initialize vector database:', error);
   });
 
+  // Re-index changed files in the background
+  const backgroundIndexer = new BackgroundIndexer(vectorDb);
+  backgroundIndexer.update();
+  context.subscriptions.push(vectorDb, backgroundIndexer, getWorkspaceIgnore());
+
   // Initialize memory system
   memoryManager.initialize().catch(error => {
     console.error('Failed to initialize memory system:', error);
   });
 
+  // Initialize token usage ledger
+  const usageLedger = new UsageLedger(context.globalStorageUri);
+  usageLedger.initialize().catch(error => {
+    console.error('Failed to initialize usage ledger:', error);
+  });
+
+  // Workspace tools the model can call while answering
+  const toolbox = new WorkspaceToolbox(vectorDb.getContextualRetriever(), memoryManager);
+
   // Initialize smart context manager
   const smartContextManager = new SmartContextManager(vectorDb.getContextualRetriever());
 
@@ -42,25 +69,40 @@ export function activate(context: vscode.ExtensionContext) {
   // Register demo command
   registerDemoCommand(context);
 
+  // Register offline test commands
+  registerApiTestCommands(context);
+  registerRedactionTestCommands(context);
+  registerIgnoreTestCommands(context);
+  registerVectoringTestCommands(context);
+
   // Register other commands
   context.subscriptions.push(
-    vscode.commands.registerCommand('codeAssist.start', () => startAgent(claudeClient, vectorDb)),
+    vscode.commands.registerCommand('codeAssist.start', () => startAgent(providerManager, vectorDb)),
     vscode.commands.registerCommand('codeAssist.indexCode', () => indexWorkspace(vectorDb)),
-    vscode.commands.registerCommand('codeAssist.configureApiKey', () => configureApiKey(claudeClient)),
-    vscode.commands.registerCommand('codeAssist.validateApiKey', () => validateApiKey(claudeClient)),
-    vscode.commands.registerCommand('codeAssist.revokeApiKey', () => revokeApiKey(claudeClient)),
+    vscode.commands.registerCommand('codeAssist.configureApiKey', () => configureApiKey(providerManager)),
+    vscode.commands.registerCommand('codeAssist.validateApiKey', () => validateApiKey(providerManager)),
+    vscode.commands.registerCommand('codeAssist.revokeApiKey', () => revokeApiKey(providerManager)),
+    vscode.commands.registerCommand('codeAssist.selectProvider', () => providerManager.selectProvider()),
+    vscode.commands.registerCommand('codeAssist.addProfile', () => profileManager.addProfile()),
+    vscode.commands.registerCommand('codeAssist.renameProfile', () => profileManager.renameProfile()),
+    vscode.commands.registerCommand('codeAssist.switchProfile', () => profileManager.switchProfile()),
+    vscode.commands.registerCommand('codeAssist.validateProfile', () => profileManager.validateProfile()),
+    vscode.commands.registerCommand('codeAssist.deleteProfile', () => profileManager.deleteProfile()),
+    vscode.commands.registerCommand('codeAssist.usageReport', () => showUsageReport(usageLedger)),
     vscode.commands.registerCommand('codeAssist.clearIndex', () => clearIndex(vectorDb)),
     vscode.commands.registerCommand('codeAssist.indexStats', () => showIndexStats(vectorDb)),
     vscode.commands.registerCommand('codeAssist.indexCurrentFile', () => indexCurrentFile(vectorDb)),
+    vscode.commands.registerCommand('codeAssist.benchmarkVectorSearch', () => benchmarkVectorSearch(vectorDb)),
+    vscode.commands.registerCommand('codeAssist.explainExclusion', (uri?: vscode.Uri) => explainExclusion(vectorDb, uri)),
     vscode.commands.registerCommand('codeAssist.previewContext', () => previewContext(smartContextManager)),
     vscode.commands.registerCommand('codeAssist.explainContext', () => explainContext(smartContextManager)),
     vscode.commands.registerCommand('codeAssist.contextStats', () => showContextStats(smartContextManager))
   );
 
   // Create and show chat webview
-  function startAgent(claudeClient: ClaudeClient, vectorDb: VectorDatabase) {
+  function startAgent(providerManager: LLMProviderManager, vectorDb: VectorDatabase) {
     try {
-      const chatWebview = new ChatWebview(context, claudeClient, vectorDb);
+      const chatWebview = new ChatWebview(context, providerManager, vectorDb, toolbox, usageLedger, memoryManager);
       chatWebview.show();
     } catch (error) {
       vscode.window.showErrorMessage(
@@ -73,10 +115,9 @@ export function activate(context: vscode.ExtensionContext) {
 
 
 // Authentication command handlers
-async function configureApiKey(claudeClient: ClaudeClient): Promise<void> {
+async function configureApiKey(providerManager: LLMProviderManager): Promise<void> {
   try {
-    const authManager = claudeClient.getAuthManager();
-    const success = await authManager.configureApiKey();
+    const success = await providerManager.getActiveProvider().configureCredentials();
     if (success) {
       vscode.window.showInformationMessage('API key configured successfully!');
     }
@@ -87,12 +128,11 @@ async function configureApiKey(claudeClient: ClaudeClient): Promise<void> {
   }
 }
 
-async function validateApiKey(claudeClient: ClaudeClient): Promise<void> {
+async function validateApiKey(providerManager: LLMProviderManager): Promise<void> {
   try {
-    const authManager = claudeClient.getAuthManager();
     vscode.window.showInformationMessage('Validating API key...');
 
-    const result = await authManager.validateCurrentApiKey();
+    const result = await providerManager.getActiveProvider().validateCredentials();
 
     if (result.isValid) {
       vscode.window.showInformationMessage('✅ API key is valid and working!');
@@ -106,10 +146,9 @@ async function validateApiKey(claudeClient: ClaudeClient): Promise<void> {
   }
 }
 
-async function revokeApiKey(claudeClient: ClaudeClient): Promise<void> {
+async function revokeApiKey(providerManager: LLMProviderManager): Promise<void> {
   try {
-    const authManager = claudeClient.getAuthManager();
-    await authManager.revokeApiKey();
+    await providerManager.getActiveProvider().revokeCredentials();
   } catch (error) {
     vscode.window.showErrorMessage(
       `Failed to revoke API key: ${error instanceof Error ? error.message : 'Unknown error'}`
@@ -117,6 +156,25 @@ async function revokeApiKey(claudeClient: ClaudeClient): Promise<void> {
   }
 }
 
+async function showUsageReport(usageLedger: UsageLedger): Promise<void> {
+  try {
+    const report = await usageLedger.getReport();
+    const budget = await usageLedger.checkBudget();
+
+    // Show report in a new document
+    const doc = await vscode.workspace.openTextDocument({
+      content: formatUsageReport(report, budget),
+      language: 'markdown'
+    });
+
+    await vscode.window.showTextDocument(doc);
+  } catch (error) {
+    vscode.window.showErrorMessage(
+      `Failed to show usage report: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+}
+
 async function indexWorkspace(vectorDb: VectorDatabase): Promise<void> {
   try {
     await vectorDb.indexWorkspaceWithProgress();
@@ -157,9 +215,16 @@ async function showIndexStats(vectorDb: VectorDatabase): Promise<void> {
 • Total files: ${stats.totalFiles}
 • Index size: ${sizeInMB} MB
 • Last updated: ${lastUpdated}
-• Languages: ${Object.keys(stats.languages).join(', ') || 'None'}`;
+• Languages: ${Object.entries(stats.languages).map(([language, files]) => `${language} (${files})`).join(', ') || 'None'}`;
 
-    vscode.window.showInformationMessage(message);
+    // Per-folder lines only add information in a multi-root workspace
+    const folderLines = stats.folders.length > 1
+      ? '\n\nWorkspace folders:\n' + stats.folders
+        .map(folder => `• ${folder.name}: ${folder.totalChunks} chunks from ${folder.totalFiles} files, ${(folder.indexSize / (1024 * 1024)).toFixed(2)} MB`)
+        .join('\n')
+      : '';
+
+    vscode.window.showInformationMessage(message + folderLines);
   } catch (error) {
     vscode.window.showErrorMessage(
       `Failed to get index stats: ${error instanceof Error ? error.message : 'Unknown error'}`
@@ -167,6 +232,48 @@ async function showIndexStats(vectorDb: VectorDatabase): Promise<void> {
   }
 }
 
+async function benchmarkVectorSearch(vectorDb: VectorDatabase): Promise<void> {
+  try {
+    const result = await vectorDb.benchmarkVectorSearch();
+
+    const message = `⏱️ Vector Search Benchmark:
+
+• Vectors: ${result.vectors}${result.synthetic ? ' (synthetic, the index is below codeAssist.ann.minVectors)' : ''}
+• Queries: ${result.queries}, top ${result.k}
+• Graph build: ${result.buildMs} ms
+• Exact search: ${result.exactMs.toFixed(2)} ms per query
+• Approximate search: ${result.approximateMs.toFixed(2)} ms per query
+• Recall@${result.k}: ${(result.recall * 100).toFixed(1)}%`;
+
+    vscode.window.showInformationMessage(message);
+  } catch (error) {
+    vscode.window.showErrorMessage(
+      `Failed to benchmark vector search: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+}
+
+async function explainExclusion(vectorDb: VectorDatabase, uri?: vscode.Uri): Promise<void> {
+  try {
+    const filePath = uri?.fsPath || vscode.window.activeTextEditor?.document.fileName;
+    if (!filePath) {
+      vscode.window.showWarningMessage('No file to explain; open a file or run the command on one');
+      return;
+    }
+
+    const explanation = await vectorDb.explainExclusion(filePath);
+    const fileName = vscode.workspace.asRelativePath(filePath);
+
+    vscode.window.showInformationMessage(explanation.excluded
+      ? `🚫 ${fileName} is excluded from indexing and context: ${explanation.reason}`
+      : `✅ ${fileName} is indexed: ${explanation.reason}`);
+  } catch (error) {
+    vscode.window.showErrorMessage(
+      `Failed to explain exclusion: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+}
+
 async function indexCurrentFile(vectorDb: VectorDatabase): Promise<void> {
   try {
     const activeEditor = vscode.window.activeTextEditor;
@@ -178,9 +285,11 @@ async function indexCurrentFile(vectorDb: VectorDatabase): Promise<void> {
     const filePath = activeEditor.document.fileName;
     vscode.window.showInformationMessage(`Indexing ${path.basename(filePath)}...`);
 
-    await vectorDb.indexFile(filePath);
+    const indexed = await vectorDb.indexFile(filePath);
 
-    vscode.window.showInformationMessage(`✅ Successfully indexed ${path.basename(filePath)}`);
+    vscode.window.showInformationMessage(indexed
+      ? `✅ Successfully indexed ${path.basename(filePath)}`
+      : `✅ ${path.basename(filePath)} is already up to date`);
   } catch (error) {
     vscode.window.showErrorMessage(
       `Failed to index current file: ${error instanceof Error ? error.message : 'Unknown error'}`
@@ -0,0 +1,142 @@
+import { globToRegExp } from '../rules/globMatcher';
+import { IgnoreFileKind, IIgnoreDecision, IIgnoreFile, IIgnoreRule } from './types';
+
+/**
+ * Parse an ignore file written in .gitignore syntax
+ * Supports comments, `!` negation, trailing `/` for directories, leading `/` and inner slashes
+ * for anchoring, `**`, and `\#`, `\!` and `\ ` escapes
+ * @param text File content
+ * @param sourceFile Absolute path of the ignore file
+ * @param baseDirectory Directory of the ignore file relative to the workspace folder, '' for the root
+ * @returns Rules in file order
+ */
+export function parseIgnoreFile(text: string, sourceFile: string, baseDirectory: string): IIgnoreRule[] {
+  const rules: IIgnoreRule[] = [];
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    let pattern = rawLine.replace(/(?<!\\)\s+$/, '');
+    if (!pattern || pattern.startsWith('#')) {
+      return;
+    }
+
+    const negated = pattern.startsWith('!');
+    if (negated) {
+      pattern = pattern.substring(1);
+    } else if (pattern.startsWith('\\#') || pattern.startsWith('\\!')) {
+      pattern = pattern.substring(1);
+    }
+    pattern = pattern.replace(/\\ /g, ' ');
+
+    const directoryOnly = pattern.endsWith('/');
+    pattern = pattern.replace(/\/+$/, '');
+    if (!pattern) {
+      return;
+    }
+
+    // A slash anywhere but at the end ties the pattern to the ignore file's directory;
+    // otherwise it matches a name at any depth
+    const anchored = pattern.includes('/');
+    pattern = pattern.replace(/^\//, '');
+
+    rules.push({
+      pattern: rawLine.trim(),
+      negated,
+      directoryOnly,
+      baseDirectory,
+      regex: globToRegExp(anchored ? pattern : `**/${pattern}`),
+      sourceFile,
+      line: index + 1
+    });
+  });
+
+  return rules;
+}
+
+/**
+ * Rules of a folder's ignore files, ordered for an IgnoreMatcher
+ * .gitignore rules come first and .codeassistignore rules last, each from the root down,
+ * so nested files override their parents and .codeassistignore can re-include what git ignores
+ * @param files Ignore files in any order
+ */
+export function layerIgnoreFiles(files: IIgnoreFile[]): IIgnoreRule[] {
+  const kinds = [IgnoreFileKind.GITIGNORE, IgnoreFileKind.CODEASSISTIGNORE];
+
+  return [...files]
+    .sort((a, b) =>
+      kinds.indexOf(a.kind) - kinds.indexOf(b.kind) ||
+      depth(a.baseDirectory) - depth(b.baseDirectory) ||
+      a.baseDirectory.localeCompare(b.baseDirectory)
+    )
+    .flatMap(file => parseIgnoreFile(file.text, file.sourceFile, file.baseDirectory));
+}
+
+/**
+ * Decides whether workspace-relative paths are ignored by a list of rules
+ * Later rules take precedence over earlier ones, so rules must be given from the most general file
+ * to the most specific
+ */
+export class IgnoreMatcher {
+  constructor(private readonly rules: IIgnoreRule[]) {}
+
+  /**
+   * Number of rules
+   */
+  get size(): number {
+    return this.rules.length;
+  }
+
+  /**
+   * Test a path against the rules
+   * As in git, a path inside an ignored directory stays ignored even if a later rule negates it
+   * @param relativePath Path relative to the workspace folder
+   * @param isDirectory Whether the path is a directory
+   * @returns Whether the path is ignored and the rule that decided it
+   */
+  test(relativePath: string, isDirectory: boolean = false): IIgnoreDecision {
+    const segments = relativePath.replace(/\\/g, '/').split('/').filter(segment => segment && segment !== '.');
+
+    for (let depth = 1; depth < segments.length; depth++) {
+      const directory = segments.slice(0, depth).join('/');
+      const decision = this.match(directory, true);
+      if (decision.ignored) {
+        return { ...decision, excludedDirectory: directory };
+      }
+    }
+
+    return this.match(segments.join('/'), isDirectory);
+  }
+
+  /**
+   * Apply every rule in order; the last matching rule wins
+   */
+  private match(relativePath: string, isDirectory: boolean): IIgnoreDecision {
+    let decision: IIgnoreDecision = { ignored: false };
+
+    for (const rule of this.rules) {
+      if (rule.directoryOnly && !isDirectory) {
+        continue;
+      }
+
+      const pathFromBase = relativeToBase(relativePath, rule.baseDirectory);
+      if (pathFromBase !== undefined && rule.regex.test(pathFromBase)) {
+        decision = { ignored: !rule.negated, rule };
+      }
+    }
+
+    return decision;
+  }
+}
+
+function depth(directory: string): number {
+  return directory ? directory.split('/').length : 0;
+}
+
+/**
+ * Path relative to an ignore file's directory, undefined when the path is outside of it
+ */
+function relativeToBase(relativePath: string, baseDirectory: string): string | undefined {
+  if (!baseDirectory) {
+    return relativePath;
+  }
+  return relativePath.startsWith(`${baseDirectory}/`) ? relativePath.substring(baseDirectory.length + 1) : undefined;
+}
@@ -0,0 +1,8 @@
+/**
+ * Ignore module exports
+ * Applies .gitignore and .codeassistignore rules to indexing, context detection and the file pickers
+ */
+
+export { WorkspaceIgnore, getWorkspaceIgnore, loadIgnoreConfig } from './workspaceIgnore';
+export { IgnoreMatcher, layerIgnoreFiles, parseIgnoreFile } from './ignoreMatcher';
+export * from './types';
@@ -0,0 +1,165 @@
+/**
+ * Test file for the ignore module
+ * Runs the matcher on in-memory ignore files, no workspace or network required
+ */
+
+import * as vscode from 'vscode';
+import { IgnoreMatcher, layerIgnoreFiles, parseIgnoreFile } from './ignoreMatcher';
+import { IgnoreFileKind, IIgnoreFile } from './types';
+import { assert } from '../test/assert';
+
+/**
+ * Test .gitignore syntax, nested ignore files and .codeassistignore layering
+ * This function can be called from the extension for testing purposes
+ */
+export async function testIgnore(): Promise<void> {
+  console.log('🧪 Starting ignore tests...');
+
+  try {
+    // Test 1: Comments, escapes and anchoring
+    console.log('📝 Test 1: Parsing patterns...');
+    const rules = parseIgnoreFile([
+      '# comment',
+      '',
+      '\\#notes.txt',
+      '\\!bang.txt',
+      'trailing\\ ',
+      '/root-only.txt',
+      'docs/*.md',
+      'temp',
+      'a/**/b.txt'
+    ].join('\n'), '/workspace/.gitignore', '');
+    assert(rules.length === 7, `expected 7 rules, got ${rules.length}`);
+    assert(rules[0].line === 3 && !rules[0].negated, 'escaped # read as a comment or misnumbered');
+
+    const syntax = new IgnoreMatcher(rules);
+    expectIgnored(syntax, [
+      ['#notes.txt', true],
+      ['!bang.txt', true],
+      ['trailing ', true],
+      ['root-only.txt', true],
+      ['lib/root-only.txt', false],
+      ['docs/guide.md', true],
+      ['docs/api/guide.md', false],
+      ['lib/docs/guide.md', false],
+      ['temp', true],
+      ['deep/down/temp', true],
+      ['a/b.txt', true],
+      ['a/x/y/b.txt', true],
+      ['z/a/b.txt', false]
+    ]);
+    console.log(`✅ ${rules.length} rules parsed and anchored`);
+
+    // Test 2: Negation re-includes files, but not inside an ignored directory
+    console.log('📝 Test 2: Applying negation...');
+    const negation = new IgnoreMatcher(parseIgnoreFile([
+      '*.log',
+      '!keep.log',
+      'build/',
+      '!build/keep.txt',
+      'cache/*',
+      '!cache/keep.txt'
+    ].join('\n'), '/workspace/.gitignore', ''));
+    expectIgnored(negation, [
+      ['debug.log', true],
+      ['keep.log', false],
+      ['logs/keep.log', false],
+      ['build/keep.txt', true],
+      ['cache/other.txt', true],
+      ['cache/keep.txt', false]
+    ]);
+
+    const decision = negation.test('build/keep.txt');
+    assert(decision.excludedDirectory === 'build' && decision.rule?.pattern === 'build/', 'ignored directory not reported');
+    assert(negation.test('keep.log').rule?.line === 2, 'negating rule not reported');
+    assert(negation.test('readme.md').rule === undefined, 'rule reported for an unmatched path');
+    console.log('✅ Negation applied as in git');
+
+    // Test 3: Directory-only patterns match directories and what is inside them, never files
+    console.log('📝 Test 3: Matching directory-only patterns...');
+    const directories = new IgnoreMatcher(parseIgnoreFile('out/\n/dist/\n', '/workspace/.gitignore', ''));
+    expectIgnored(directories, [
+      ['out', false],
+      ['src/out', false],
+      ['src/out/main.js', true],
+      ['dist/index.js', true],
+      ['packages/app/dist/index.js', false]
+    ]);
+    assert(directories.test('out', true).ignored, 'directory not matched by a directory-only pattern');
+    console.log('✅ Directory-only patterns matched');
+
+    // Test 4: Nested files apply below their directory and override their parents
+    console.log('📝 Test 4: Layering nested ignore files...');
+    const files: IIgnoreFile[] = [
+      ignoreFile(IgnoreFileKind.CODEASSISTIGNORE, '', '!generated/\nfixtures/\n'),
+      ignoreFile(IgnoreFileKind.GITIGNORE, 'src/legacy', '!*.log\n'),
+      ignoreFile(IgnoreFileKind.GITIGNORE, 'src', '*.gen.ts\n!trace.log\n'),
+      ignoreFile(IgnoreFileKind.GITIGNORE, '', '*.log\ngenerated/\n*.gen.ts\n'),
+      ignoreFile(IgnoreFileKind.CODEASSISTIGNORE, 'src', '!api.gen.ts\n')
+    ];
+    const layered = layerIgnoreFiles(files);
+    assert(
+      [...new Set(layered.map(rule => rule.sourceFile))].join() === [
+        '/workspace/.gitignore',
+        '/workspace/src/.gitignore',
+        '/workspace/src/legacy/.gitignore',
+        '/workspace/.codeassistignore',
+        '/workspace/src/.codeassistignore'
+      ].join(),
+      `files layered as ${[...new Set(layered.map(rule => rule.sourceFile))].join()}`
+    );
+
+    const workspace = new IgnoreMatcher(layered);
+    expectIgnored(workspace, [
+      ['app.log', true],
+      ['src/app.log', true],
+      ['src/trace.log', false],
+      ['lib/trace.log', true],
+      ['src/legacy/app.log', false],
+      ['src/model.gen.ts', true],
+      ['lib/model.gen.ts', true],
+      ['src/api.gen.ts', false],
+      ['lib/api.gen.ts', true],
+      ['generated/types.ts', false],
+      ['test/fixtures/sample.ts', true]
+    ]);
+    assert(workspace.test('src/trace.log').rule?.sourceFile === '/workspace/src/.gitignore', 'nested rule not reported');
+    assert(layerIgnoreFiles([]).length === 0, 'rules without ignore files');
+    console.log('✅ Nested files and .codeassistignore layered over .gitignore');
+
+    console.log('🎉 Ignore tests completed successfully!');
+
+  } catch (error) {
+    console.error('❌ Ignore test failed:', error);
+    vscode.window.showErrorMessage(
+      `Ignore test failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+}
+
+function ignoreFile(kind: IgnoreFileKind, baseDirectory: string, text: string): IIgnoreFile {
+  return {
+    kind,
+    baseDirectory,
+    sourceFile: ['/workspace', baseDirectory, kind].filter(Boolean).join('/'),
+    text
+  };
+}
+
+/**
+ * Check the decision for files at workspace-relative paths
+ */
+function expectIgnored(matcher: IgnoreMatcher, cases: Array<[string, boolean]>): void {
+  for (const [relativePath, ignored] of cases) {
+    assert(matcher.test(relativePath).ignored === ignored, `${relativePath} should ${ignored ? '' : 'not '}be ignored`);
+  }
+}
+
+/**
+ * Register the offline ignore file test command
+ */
+export function registerTestCommands(context: vscode.ExtensionContext): void {
+  context.subscriptions.push(
+    vscode.commands.registerCommand('codeAssist.testIgnore', () => testIgnore())
+  );
+}
@@ -0,0 +1,58 @@
+/**
+ * Types and interfaces for ignore files
+ */
+
+export enum IgnoreFileKind {
+  GITIGNORE = '.gitignore',
+  CODEASSISTIGNORE = '.codeassistignore'
+}
+
+export interface IIgnoreRule {
+  /** Pattern as written in the ignore file */
+  pattern: string;
+  /** `!pattern`: re-includes paths an earlier rule ignored */
+  negated: boolean;
+  /** `pattern/`: matches directories only */
+  directoryOnly: boolean;
+  /** Directory of the ignore file relative to the workspace folder, '' for the root */
+  baseDirectory: string;
+  /** Expression over paths relative to the base directory */
+  regex: RegExp;
+  sourceFile: string;
+  /** 1-based line of the rule in its file */
+  line: number;
+}
+
+/** An ignore file of a workspace folder, as read from disk */
+export interface IIgnoreFile {
+  kind: IgnoreFileKind;
+  /** Directory of the file relative to the workspace folder, '' for the root */
+  baseDirectory: string;
+  /** Absolute path of the file */
+  sourceFile: string;
+  text: string;
+}
+
+export interface IIgnoreDecision {
+  ignored: boolean;
+  /** Last rule matching the path or the excluded directory; absent when no rule matched */
+  rule?: IIgnoreRule;
+  /** Workspace-relative directory the path is excluded through, when it is not the path itself */
+  excludedDirectory?: string;
+}
+
+export interface IIgnoreConfig {
+  /** Apply .gitignore files in addition to .codeassistignore */
+  useGitignore: boolean;
+}
+
+export class IgnoreException extends Error {
+  constructor(
+    public readonly operation: string,
+    message: string,
+    public readonly details?: any
+  ) {
+    super(message);
+    this.name = 'IgnoreException';
+  }
+}
@@ -0,0 +1,152 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { IgnoreMatcher, layerIgnoreFiles } from './ignoreMatcher';
+import { IgnoreException, IgnoreFileKind, IIgnoreConfig, IIgnoreDecision, IIgnoreFile } from './types';
+
+/**
+ * Ignore rules of every workspace folder, from its root and nested .gitignore and .codeassistignore files
+ * Rules are reloaded when an ignore file, the workspace folders or the ignore settings change
+ */
+export class WorkspaceIgnore implements vscode.Disposable {
+  private matchers: Map<string, IgnoreMatcher> = new Map();
+  private loading: Promise<void> | undefined;
+  private generation = 0;
+  private readonly disposables: vscode.Disposable[] = [];
+
+  constructor() {
+    const watcher = vscode.workspace.createFileSystemWatcher(
+      `**/{${IgnoreFileKind.GITIGNORE},${IgnoreFileKind.CODEASSISTIGNORE}}`
+    );
+    const reload = () => this.reload();
+
+    this.disposables.push(
+      watcher,
+      watcher.onDidCreate(reload),
+      watcher.onDidChange(reload),
+      watcher.onDidDelete(reload),
+      vscode.workspace.onDidChangeWorkspaceFolders(reload),
+      vscode.workspace.onDidChangeConfiguration(event => {
+        if (event.affectsConfiguration('codeAssist.ignore')) {
+          reload();
+        }
+      })
+    );
+  }
+
+  /**
+   * Read the ignore files, once until one of them changes
+   * Paths are not ignored until the first load completes
+   */
+  load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.readRules(++this.generation).catch(error => {
+        this.loading = undefined;
+        throw new IgnoreException('load', 'Failed to load ignore files', error);
+      });
+    }
+    return this.loading;
+  }
+
+  /**
+   * Whether a file is excluded by the ignore files of its workspace folder
+   * @param filePath Absolute file path
+   */
+  isIgnored(filePath: string): boolean {
+    return this.explain(filePath).ignored;
+  }
+
+  /**
+   * Whether a file is excluded, and by which rule
+   * @param filePath Absolute file path
+   * @returns Decision; files outside the workspace folders are never ignored
+   */
+  explain(filePath: string): IIgnoreDecision {
+    const workspaceFolder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath));
+    const matcher = workspaceFolder && this.matchers.get(workspaceFolder.uri.fsPath);
+    if (!workspaceFolder || !matcher) {
+      return { ignored: false };
+    }
+
+    return matcher.test(path.relative(workspaceFolder.uri.fsPath, filePath));
+  }
+
+  /**
+   * Keep the files that are not ignored
+   * @param filePaths Absolute file paths
+   */
+  filter(filePaths: string[]): string[] {
+    return filePaths.filter(filePath => !this.isIgnored(filePath));
+  }
+
+  dispose(): void {
+    this.disposables.forEach(disposable => disposable.dispose());
+    this.disposables.length = 0;
+    this.matchers.clear();
+  }
+
+  private reload(): void {
+    this.loading = undefined;
+    this.load().catch(error => console.error('Failed to reload ignore files:', error));
+  }
+
+  /**
+   * Build one matcher per workspace folder from its ignore files, layered by layerIgnoreFiles
+   */
+  private async readRules(generation: number): Promise<void> {
+    const config = loadIgnoreConfig();
+    const kinds = config.useGitignore
+      ? [IgnoreFileKind.GITIGNORE, IgnoreFileKind.CODEASSISTIGNORE]
+      : [IgnoreFileKind.CODEASSISTIGNORE];
+    const matchers = new Map<string, IgnoreMatcher>();
+
+    for (const workspaceFolder of vscode.workspace.workspaceFolders || []) {
+      const files = await vscode.workspace.findFiles(
+        new vscode.RelativePattern(workspaceFolder, `**/{${kinds.join(',')}}`),
+        new vscode.RelativePattern(workspaceFolder, '**/node_modules/**')
+      );
+
+      const ignoreFiles: IIgnoreFile[] = [];
+      for (const uri of files) {
+        const relativePath = path.posix.relative(workspaceFolder.uri.path, uri.path);
+        const baseDirectory = path.posix.dirname(relativePath);
+        const bytes = await vscode.workspace.fs.readFile(uri);
+        ignoreFiles.push({
+          kind: path.posix.basename(relativePath) as IgnoreFileKind,
+          baseDirectory: baseDirectory === '.' ? '' : baseDirectory,
+          sourceFile: uri.fsPath,
+          text: Buffer.from(bytes).toString('utf8')
+        });
+      }
+
+      matchers.set(workspaceFolder.uri.fsPath, new IgnoreMatcher(layerIgnoreFiles(ignoreFiles)));
+    }
+
+    // A reload started meanwhile has read newer files
+    if (generation === this.generation) {
+      this.matchers = matchers;
+    }
+  }
+}
+
+let sharedIgnore: WorkspaceIgnore | null = null;
+
+/**
+ * Get the ignore rules shared by indexing, context detection and the file pickers
+ */
+export function getWorkspaceIgnore(): WorkspaceIgnore {
+  if (!sharedIgnore) {
+    sharedIgnore = new WorkspaceIgnore();
+  }
+  return sharedIgnore;
+}
+
+/**
+ * Load ignore settings
+ */
+export function loadIgnoreConfig(): IIgnoreConfig {
+  const config = vscode.workspace.getConfiguration('codeAssist');
+
+  return {
+    useGitignore: config.get<boolean>('ignore.useGitignore', true)
+  };
+}
@@ -215,7 +215,8 @@ export class IntelligentMemoryManager implements IMemoryManager {
   async searchMemories(query: string, filters?: IMemoryFilters): Promise<IMemorySearchResult[]> {
     await this.ensureInitialized();
     
-    if (query.length < 2) {
+    // Short queries only make sense when filters narrow the results
+    if (query.length < 2 && !filters) {
       return [];
     }
     
@@ -11,26 +11,36 @@ import {
   MemoryType
 } from '../core/types';
 import { IEnhancedVectorStore } from '../core/interfaces';
+import { HnswIndex, loadAnnConfig } from '../../vectoring/hnswIndex';
+import { IAnnConfig, IHnswSnapshot } from '../../vectoring/types';
 
 /**
  * Enhanced file-based vector store with filtering capabilities
  * Supports both Memory storage (Task 002) and Code indexing
+ * Similarity searches over large stores go through an HNSW graph, saved next to the vectors
  */
 export class EnhancedVectorStore implements IEnhancedVectorStore {
+  private static readonly MAX_DELETED_RATIO = 0.3;
+  private static readonly FILTER_OVERSAMPLING = 10;
+
   private readonly storageUri: vscode.Uri;
   private readonly indexFile: vscode.Uri;
   private readonly dataFile: vscode.Uri;
   private readonly metadataFile: vscode.Uri;
+  private readonly graphFile: vscode.Uri;
   private vectorIndex: Map<string, IVectorEntry> = new Map();
   private metadataIndex: Map<string, any> = new Map();
   private isInitialized = false;
   private searchTimes: number[] = [];
+  private annIndex: HnswIndex | undefined;
+  private annBuild: Promise<HnswIndex> | undefined;
 
   constructor(storageUri: vscode.Uri) {
     this.storageUri = vscode.Uri.joinPath(storageUri, 'vectors');
     this.indexFile = vscode.Uri.joinPath(this.storageUri, 'index.json');
     this.dataFile = vscode.Uri.joinPath(this.storageUri, 'vectors.json');
     this.metadataFile = vscode.Uri.joinPath(this.storageUri, 'metadata.json');
+    this.graphFile = vscode.Uri.joinPath(this.storageUri, 'hnsw.json');
   }
 
   /**
@@ -52,6 +62,7 @@ export class EnhancedVectorStore implements IEnhancedVectorStore {
       // Load existing data
       await this.loadIndex();
       await this.loadMetadata();
+      await this.loadGraph();
 
       this.isInitialized = true;
 
@@ -72,6 +83,7 @@ export class EnhancedVectorStore implements IEnhancedVectorStore {
       // Add entries to in-memory index
       for (const entry of entries) {
         this.vectorIndex.set(entry.id, entry);
+        this.annIndex?.insert(entry.id, entry.vector);
       }
 
       // Persist to disk
@@ -100,6 +112,7 @@ export class EnhancedVectorStore implements IEnhancedVectorStore {
 
       // Store vector
       this.vectorIndex.set(memory.id, vectorEntry);
+      this.annIndex?.insert(memory.id, memory.embedding);
 
       // Store metadata separately for efficient filtering
       this.metadataIndex.set(memory.id, {
@@ -129,6 +142,8 @@ export class EnhancedVectorStore implements IEnhancedVectorStore {
 
   /**
    * Enhanced search with filtering capabilities
+   * Searches sorted by similarity use the HNSW graph once the store holds `codeAssist.ann.minVectors` vectors,
+   * falling back to a full scan when filters leave too few of the approximate matches
    */
   async searchWithFilters(queryVector: number[], options: SearchOptions): Promise<IVectorEntry[]> {
     if (!this.isInitialized) {
@@ -145,6 +160,15 @@ export class EnhancedVectorStore implements IEnhancedVectorStore {
         sortBy = 'similarity'
       } = options;
 
+      const annConfig = loadAnnConfig();
+      if (sortBy === 'similarity' && annConfig.enabled && this.vectorIndex.size >= annConfig.minVectors) {
+        const approximate = await this.searchApproximate(queryVector, limit, threshold, filters, annConfig);
+        if (approximate) {
+          this.recordSearchTime(startTime);
+          return approximate;
+        }
+      }
+
       let results: IVectorEntry[] = [];
 
       // Calculate similarity for each vector
@@ -172,11 +196,7 @@ export class EnhancedVectorStore implements IEnhancedVectorStore {
       results = results.slice(0, limit);
 
       // Track search performance
-      const searchTime = Date.now() - startTime;
-      this.searchTimes.push(searchTime);
-      if (this.searchTimes.length > 100) {
-        this.searchTimes.shift(); // Keep only last 100 searches
-      }
+      this.recordSearchTime(startTime);
 
       return results;
 
@@ -204,6 +224,7 @@ export class EnhancedVectorStore implements IEnhancedVectorStore {
         for (const id of entriesToDelete) {
           this.vectorIndex.delete(id);
           this.metadataIndex.delete(id);
+          this.annIndex?.remove(id);
         }
       }
 
@@ -223,6 +244,7 @@ export class EnhancedVectorStore implements IEnhancedVectorStore {
     try {
       this.vectorIndex.clear();
       this.metadataIndex.clear();
+      this.annIndex = undefined;
       await this.saveIndex();
       await this.saveMetadata();
 
@@ -293,9 +315,10 @@ export class EnhancedVectorStore implements IEnhancedVectorStore {
         }
       }
 
-      // Update indexes with unique vectors only
+      // Update indexes with unique vectors only, the graph is rebuilt on the next approximate search
       this.vectorIndex.clear();
       this.metadataIndex.clear();
+      this.annIndex = undefined;
 
       for (const [_, entry] of uniqueVectors) {
         this.vectorIndex.set(entry.id, entry);
@@ -410,6 +433,8 @@ export class EnhancedVectorStore implements IEnhancedVectorStore {
 
       await vscode.workspace.fs.writeFile(this.indexFile, indexDataEncoded);
 
+      await this.saveGraph();
+
     } catch (error) {
       throw new MemoryException('saveIndex', 'Failed to save vector index', error);
     }
@@ -431,6 +456,133 @@ export class EnhancedVectorStore implements IEnhancedVectorStore {
     }
   }
 
+  /**
+   * Load the saved HNSW graph, if it was built with the current settings
+   * Vectors changed after the graph was saved are applied to it
+   */
+  private async loadGraph(): Promise<void> {
+    this.annIndex = undefined;
+
+    try {
+      const data = await vscode.workspace.fs.readFile(this.graphFile);
+      const snapshot: IHnswSnapshot = JSON.parse(new TextDecoder().decode(data));
+      const annConfig = loadAnnConfig();
+      if (!annConfig.enabled || snapshot.params.m !== annConfig.m || snapshot.params.efConstruction !== annConfig.efConstruction) {
+        return;
+      }
+
+      const index = HnswIndex.restore(snapshot, id => this.vectorIndex.get(id)?.vector);
+      if (index) {
+        index.sync(this.vectorIndex);
+        this.annIndex = index;
+      }
+
+    } catch (error) {
+      // No graph saved or unreadable, it is rebuilt on the first approximate search
+      this.annIndex = undefined;
+    }
+  }
+
+  /**
+   * Save the HNSW graph, or delete the saved one when there is no graph
+   */
+  private async saveGraph(): Promise<void> {
+    if (!this.annIndex) {
+      try {
+        await vscode.workspace.fs.delete(this.graphFile);
+      } catch {
+        // No graph saved
+      }
+      return;
+    }
+
+    const data = new TextEncoder().encode(JSON.stringify(this.annIndex.toSnapshot()));
+    await vscode.workspace.fs.writeFile(this.graphFile, data);
+  }
+
+  /**
+   * Return the HNSW graph, building it when missing, built with other parameters, or full of removed vectors
+   */
+  private async getAnnIndex(annConfig: IAnnConfig): Promise<HnswIndex> {
+    const current = this.annIndex;
+    if (current &&
+        current.params.m === annConfig.m &&
+        current.params.efConstruction === annConfig.efConstruction &&
+        current.deletedRatio <= EnhancedVectorStore.MAX_DELETED_RATIO) {
+      return current;
+    }
+
+    if (!this.annBuild) {
+      this.annBuild = (async () => {
+        try {
+          const index = await HnswIndex.build(Array.from(this.vectorIndex.values()), {
+            m: annConfig.m,
+            efConstruction: annConfig.efConstruction
+          });
+
+          // Apply changes made while the graph was being built
+          index.sync(this.vectorIndex);
+          this.annIndex = index;
+          this.saveGraph().catch(error => console.warn('Failed to save HNSW graph:', error));
+          return index;
+
+        } finally {
+          this.annBuild = undefined;
+        }
+      })();
+    }
+
+    return this.annBuild;
+  }
+
+  /**
+   * Search the HNSW graph for more candidates than requested, then filter them
+   * @returns Results, or undefined when filtering left fewer than the limit and a full scan is needed
+   */
+  private async searchApproximate(
+    queryVector: number[],
+    limit: number,
+    threshold: number,
+    filters: MetadataFilters | undefined,
+    annConfig: IAnnConfig
+  ): Promise<IVectorEntry[] | undefined> {
+    const index = await this.getAnnIndex(annConfig);
+    const candidates = filters ? limit * EnhancedVectorStore.FILTER_OVERSAMPLING : limit;
+    const matches = index.search(queryVector, candidates, Math.max(annConfig.efSearch, candidates));
+
+    const results: IVectorEntry[] = [];
+    for (const match of matches) {
+      const entry = this.vectorIndex.get(match.id);
+      if (!entry || (filters && !this.matchesFilters(match.id, filters))) {
+        continue;
+      }
+
+      // Matches come most similar first, so the rest are below the threshold too
+      if (match.similarity < threshold) {
+        break;
+      }
+
+      results.push({ ...entry, similarity: match.similarity });
+      if (results.length === limit) {
+        return results;
+      }
+    }
+
+    // Nothing is missing when the candidates covered the whole store or the threshold cut them short
+    const exhausted = candidates >= this.vectorIndex.size || matches[matches.length - 1]?.similarity < threshold;
+    return exhausted ? results : undefined;
+  }
+
+  /**
+   * Keep the duration of the last 100 searches
+   */
+  private recordSearchTime(startTime: number): void {
+    this.searchTimes.push(Date.now() - startTime);
+    if (this.searchTimes.length > 100) {
+      this.searchTimes.shift();
+    }
+  }
+
   /**
    * Check if metadata matches the given filters
    */
@@ -0,0 +1,8 @@
+/**
+ * Model registry module exports
+ * Provides model limits, pricing and default model selection
+ */
+
+export { ModelRegistry } from './modelRegistry';
+export { estimateCost } from './pricing';
+export * from './types';
@@ -0,0 +1,141 @@
+import * as vscode from 'vscode';
+import { IModelInfo, IModelRegistry } from './types';
+
+/**
+ * Registry of Claude models with their limits and pricing
+ * Built-in models can be extended with the codeAssist.customModels setting
+ */
+export class ModelRegistry implements IModelRegistry {
+  private static readonly FALLBACK_MODEL_ID = 'claude-3-7-sonnet-20250219';
+
+  private static readonly BUILT_IN_MODELS: IModelInfo[] = [
+    {
+      id: 'claude-opus-4-20250514',
+      displayName: 'Claude Opus 4',
+      contextWindow: 200000,
+      maxOutputTokens: 32000,
+      pricing: { inputPerMillion: 15, outputPerMillion: 75 }
+    },
+    {
+      id: 'claude-sonnet-4-20250514',
+      displayName: 'Claude Sonnet 4',
+      contextWindow: 200000,
+      maxOutputTokens: 64000,
+      pricing: { inputPerMillion: 3, outputPerMillion: 15 }
+    },
+    {
+      id: 'claude-3-7-sonnet-20250219',
+      displayName: 'Claude 3.7 Sonnet',
+      contextWindow: 200000,
+      maxOutputTokens: 64000,
+      pricing: { inputPerMillion: 3, outputPerMillion: 15 }
+    },
+    {
+      id: 'claude-3-5-sonnet-20241022',
+      displayName: 'Claude 3.5 Sonnet',
+      contextWindow: 200000,
+      maxOutputTokens: 8192,
+      pricing: { inputPerMillion: 3, outputPerMillion: 15 }
+    },
+    {
+      id: 'claude-3-5-haiku-20241022',
+      displayName: 'Claude 3.5 Haiku',
+      contextWindow: 200000,
+      maxOutputTokens: 8192,
+      pricing: { inputPerMillion: 0.8, outputPerMillion: 4 }
+    },
+    {
+      id: 'claude-3-sonnet-20240229',
+      displayName: 'Claude 3 Sonnet',
+      contextWindow: 200000,
+      maxOutputTokens: 4096,
+      pricing: { inputPerMillion: 3, outputPerMillion: 15 }
+    },
+    {
+      id: 'claude-3-haiku-20240307',
+      displayName: 'Claude 3 Haiku',
+      contextWindow: 200000,
+      maxOutputTokens: 4096,
+      pricing: { inputPerMillion: 0.25, outputPerMillion: 1.25 }
+    }
+  ];
+
+  /**
+   * List built-in and custom models, custom entries overriding built-ins with the same id
+   */
+  listModels(): IModelInfo[] {
+    const models = new Map<string, IModelInfo>();
+
+    for (const model of ModelRegistry.BUILT_IN_MODELS) {
+      models.set(model.id, model);
+    }
+
+    for (const model of this.loadCustomModels()) {
+      models.set(model.id, model);
+    }
+
+    return Array.from(models.values());
+  }
+
+  /**
+   * Find a model by id
+   * @param modelId Model identifier sent to the API
+   * @returns Model info or undefined when unknown
+   */
+  getModel(modelId: string): IModelInfo | undefined {
+    return this.listModels().find(model => model.id === modelId);
+  }
+
+  /**
+   * Get the model selected in settings
+   */
+  getDefaultModel(): IModelInfo {
+    const config = vscode.workspace.getConfiguration('codeAssist');
+    const defaultModelId = config.get<string>('defaultModel') || ModelRegistry.FALLBACK_MODEL_ID;
+
+    return this.getModel(defaultModelId)
+      || this.getModel(ModelRegistry.FALLBACK_MODEL_ID)!;
+  }
+
+  /**
+   * Resolve a requested model, falling back to the default
+   * @param modelId Requested model id, e.g. the one chosen for a conversation
+   * @returns Model info to use for the request
+   */
+  resolveModel(modelId?: string): IModelInfo {
+    return (modelId && this.getModel(modelId)) || this.getDefaultModel();
+  }
+
+  /**
+   * Number of output tokens to request from a model
+   * @param model Model the request is sent to
+   * @returns Configured output limit, clamped to what the model supports
+   */
+  getMaxOutputTokens(model: IModelInfo): number {
+    const config = vscode.workspace.getConfiguration('codeAssist');
+    const configured = config.get<number>('maxOutputTokens') || 4096;
+
+    return Math.max(1, Math.min(configured, model.maxOutputTokens));
+  }
+
+  /**
+   * Read additional models declared in settings
+   */
+  private loadCustomModels(): IModelInfo[] {
+    const config = vscode.workspace.getConfiguration('codeAssist');
+    const customModels = config.get<Partial<IModelInfo>[]>('customModels') || [];
+
+    return customModels
+      .filter(model => typeof model.id === 'string' && model.id.length > 0)
+      .map(model => ({
+        id: model.id!,
+        displayName: model.displayName || model.id!,
+        contextWindow: model.contextWindow || 200000,
+        maxOutputTokens: model.maxOutputTokens || 4096,
+        pricing: {
+          inputPerMillion: model.pricing?.inputPerMillion || 0,
+          outputPerMillion: model.pricing?.outputPerMillion || 0
+        }
+      }));
+  }
+}
@@ -0,0 +1,31 @@
+import { IModelInfo } from './types';
+
+/**
+ * Prompt cache writes cost 25% more than regular input, reads 90% less
+ */
+const CACHE_WRITE_MULTIPLIER = 1.25;
+const CACHE_READ_MULTIPLIER = 0.1;
+
+/**
+ * Cost of a request in US dollars
+ * @param model Model that served the request
+ * @param inputTokens Uncached prompt tokens
+ * @param outputTokens Generated tokens
+ * @param cacheWriteTokens Prompt tokens written to the prompt cache
+ * @param cacheReadTokens Prompt tokens read from the prompt cache
+ * @returns Cost based on the model's per-million-token pricing
+ */
+export function estimateCost(
+  model: IModelInfo,
+  inputTokens: number,
+  outputTokens: number,
+  cacheWriteTokens: number = 0,
+  cacheReadTokens: number = 0
+): number {
+  const inputPrice = model.pricing.inputPerMillion;
+  const billedInput = inputTokens +
+    cacheWriteTokens * CACHE_WRITE_MULTIPLIER +
+    cacheReadTokens * CACHE_READ_MULTIPLIER;
+
+  return (billedInput * inputPrice + outputTokens * model.pricing.outputPerMillion) / 1000000;
+}
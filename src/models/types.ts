@@ -0,0 +1,24 @@
+/**
+ * Types and interfaces for the model registry
+ */
+
+export interface IModelInfo {
+  id: string;
+  displayName: string;
+  contextWindow: number;
+  maxOutputTokens: number;
+  pricing: IModelPricing;
+}
+
+export interface IModelPricing {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+export interface IModelRegistry {
+  listModels(): IModelInfo[];
+  getModel(modelId: string): IModelInfo | undefined;
+  getDefaultModel(): IModelInfo;
+  resolveModel(modelId?: string): IModelInfo;
+  getMaxOutputTokens(model: IModelInfo): number;
+}
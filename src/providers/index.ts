@@ -0,0 +1,9 @@
+/**
+ * LLM provider module exports
+ * Provides the provider abstraction, the OpenAI-compatible backend and provider selection
+ */
+
+export { OpenAICompatibleProvider } from './openAICompatibleProvider';
+export { LLMProviderManager } from './providerManager';
+export { buildChatMessages, buildSummaryPrompt, buildSystemSections, SYSTEM_PROMPT } from './messageBuilder';
+export * from './types';
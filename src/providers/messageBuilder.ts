@@ -0,0 +1,104 @@
+import { IConversationHistory, IConversationTurn } from '../conversation/types';
+import { IProviderMessage } from './types';
+
+/**
+ * Base instructions sent with every chat request
+ */
+export const SYSTEM_PROMPT = [
+  'You are Code Assistant, an AI pair programmer working inside VS Code.',
+  'Answer questions about the user\'s workspace using the code context provided and, when available, the workspace tools.',
+  'Cite file paths when referring to code and put code in fenced blocks with a language tag.'
+].join(' ');
+
+/**
+ * Build the stable system sections, ordered from least to most likely to change
+ * Keeping this order lets providers cache the prefix across turns
+ * @param enhancedContext Context information with project rules, guidelines and pinned files
+ * @returns System prompt, then project rules, guidelines and pinned files
+ */
+export function buildSystemSections(enhancedContext: any): string[] {
+  const sections = [SYSTEM_PROMPT];
+
+  const rules: Array<{ name: string; content: string }> = enhancedContext.rules || [];
+  if (rules.length > 0) {
+    const ruleTexts = rules.map(rule => `## ${rule.name}\n\n${rule.content}`);
+    sections.push(`Project rules to follow:\n\n${ruleTexts.join('\n\n')}`);
+  }
+
+  const guidelines: string[] = enhancedContext.guidelines || [];
+  if (guidelines.length > 0) {
+    sections.push(`Project guidelines to follow:\n\n${guidelines.map(guideline => `- ${guideline}`).join('\n')}`);
+  }
+
+  const pinnedFiles: Array<{ path: string; content: string }> = enhancedContext.pinnedFiles || [];
+  if (pinnedFiles.length > 0) {
+    const files = pinnedFiles.map(file => `File: ${file.path}\n\`\`\`\n${file.content}\n\`\`\``);
+    sections.push(`Files pinned to this conversation:\n\n${files.join('\n\n')}`);
+  }
+
+  return sections;
+}
+
+/**
+ * Build the chat messages shared by all providers
+ * @param query User query
+ * @param enhancedContext Context information
+ * @returns Messages alternating between user and assistant turns
+ */
+export function buildChatMessages(query: string, enhancedContext: any): IProviderMessage[] {
+  const messages: IProviderMessage[] = [];
+  const history: IConversationHistory | undefined = enhancedContext.history;
+
+  // Add earlier conversation turns
+  if (history) {
+    if (history.summary) {
+      messages.push({ role: 'user', content: `Summary of our earlier conversation:\n${history.summary}` });
+      messages.push({ role: 'assistant', content: 'Understood, I will take that into account.' });
+    }
+
+    for (const turn of history.turns) {
+      messages.push({ role: turn.role, content: turn.content });
+    }
+  }
+
+  // The current turn carries its context so that roles keep alternating
+  const currentTurn: string[] = [];
+
+  // Add code context if available
+  if (enhancedContext.codeContext && enhancedContext.codeContext.length > 0) {
+    currentTurn.push(`Here is relevant code context:\n\n${enhancedContext.codeContext.join('\n\n')}`);
+  }
+
+  // Add current editor context if available
+  if (enhancedContext.currentEditor) {
+    currentTurn.push(`Current file: ${enhancedContext.currentEditor.fileName}\nSelected text: ${enhancedContext.currentEditor.selectedText || 'None'}`);
+  }
+
+  // Add the main query
+  currentTurn.push(query);
+
+  messages.push({ role: 'user', content: currentTurn.join('\n\n') });
+
+  return messages;
+}
+
+/**
+ * Build the prompt asking a model to summarise older conversation turns
+ * @param turns Oldest turns to fold into the summary
+ * @param previousSummary Summary of even earlier turns, if any
+ * @returns Single user prompt
+ */
+export function buildSummaryPrompt(turns: IConversationTurn[], previousSummary: string): string {
+  const transcript = turns
+    .map(turn => `${turn.role === 'user' ? 'User' : 'Assistant'}: ${turn.content}`)
+    .join('\n\n');
+
+  let prompt = 'Summarize the following conversation between a developer and a coding assistant. ';
+  prompt += 'Keep file names, identifiers, decisions and open tasks. Answer with the summary only.\n\n';
+  if (previousSummary) {
+    prompt += `Summary of the conversation before this excerpt:\n${previousSummary}\n\n`;
+  }
+  prompt += `Conversation:\n${transcript}`;
+
+  return prompt;
+}
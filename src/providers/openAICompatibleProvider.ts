@@ -0,0 +1,624 @@
+import * as vscode from 'vscode';
+import { SecretManager } from '../auth/secretManager';
+import { ApiException, IApiKeyValidationResult } from '../auth/types';
+import { SseParser } from '../api/sseParser';
+import { IRetryNotice, StreamDeltaCallback, StreamException } from '../api/types';
+import { isCancellationError, toAbortSignal } from '../api/cancellation';
+import { fetchWithRetry, loadRetryOptions } from '../api/retry';
+import { apiFetch } from '../api/transport';
+import { getRedactor } from '../redaction';
+import { IConversationTurn } from '../conversation/types';
+import { IModelInfo, ModelRegistry } from '../models';
+import { IToolDefinition, IToolSession, IToolStep, ToolStepStatus } from '../tools/types';
+import { buildChatMessages, buildSummaryPrompt, buildSystemSections } from './messageBuilder';
+import { ILLMCompletion, ILLMProvider, IOpenAICompatibleConfig, IProviderMessage, ITokenUsage, ProviderId } from './types';
+
+/**
+ * One chat-completions response, with the function calls the model requested
+ */
+interface IChatRound extends ILLMCompletion {
+  toolCalls: any[];
+}
+
+/**
+ * Provider for OpenAI-compatible chat-completions servers
+ * Covers local Ollama and llama.cpp servers as well as hosted gateways; the API key is optional.
+ * Workspace tools are offered through function calling, unless the server rejects them for a model
+ */
+export class OpenAICompatibleProvider implements ILLMProvider {
+  private static readonly API_KEY_SECRET_ID = 'codeAssist.openaiCompatibleApiKey';
+
+  readonly id = ProviderId.OPENAI_COMPATIBLE;
+  readonly displayName = 'OpenAI-compatible (Ollama, llama.cpp)';
+  readonly requiresApiKey = false;
+
+  private readonly secretManager: SecretManager;
+  private readonly modelRegistry: ModelRegistry;
+  private readonly retryEmitter = new vscode.EventEmitter<IRetryNotice>();
+  /** Models the server rejected a request with tools for, asked without tools for the rest of the session */
+  private readonly modelsWithoutTools = new Set<string>();
+
+  /**
+   * Fires before each automatic retry of a rate-limited or overloaded request
+   */
+  readonly onDidRetry = this.retryEmitter.event;
+
+  private readonly usageEmitter = new vscode.EventEmitter<ITokenUsage>();
+
+  /**
+   * Fires for every request whose response reported token usage, including summaries
+   */
+  readonly onDidUseTokens = this.usageEmitter.event;
+
+  constructor(context: vscode.ExtensionContext) {
+    this.secretManager = new SecretManager(
+      context,
+      OpenAICompatibleProvider.API_KEY_SECRET_ID,
+      'OpenAI-compatible API key'
+    );
+    this.modelRegistry = new ModelRegistry();
+  }
+
+  /**
+   * Nothing to prepare: local servers need no authentication handshake
+   */
+  async initialize(): Promise<void> {
+    return;
+  }
+
+  /**
+   * Get a completion from the chat-completions endpoint
+   * @param query User query
+   * @param enhancedContext Enhanced context with code and editor info
+   * @param token Optional token used to abort the request
+   * @param modelId Model to use, defaults to the first configured model
+   * @param tools Optional workspace tools the model may call before answering
+   * @returns Response and the model that produced it
+   */
+  async getCompletion(
+    query: string,
+    enhancedContext: any,
+    token?: vscode.CancellationToken,
+    modelId?: string,
+    tools?: IToolSession
+  ): Promise<ILLMCompletion> {
+    try {
+      const model = this.resolveModel(modelId);
+      const messages = this.buildMessages(query, enhancedContext);
+      if (tools && this.canUseTools(model)) {
+        return await this.runToolLoop(messages, model, tools, token);
+      }
+
+      const { content, model: answeringModel, usage } = await this.callChat(messages, model, token);
+      return { content, model: answeringModel, usage };
+
+    } catch (error) {
+      throw this.handleApiError(error);
+    }
+  }
+
+  /**
+   * Get a completion, streaming partial text as it arrives
+   * @param query User query
+   * @param enhancedContext Enhanced context with code and editor info
+   * @param onDelta Callback receiving each text delta
+   * @param token Optional token used to abort the stream
+   * @param modelId Model to use, defaults to the first configured model
+   * @param tools Optional workspace tools the model may call before answering
+   * @returns Full response once the stream has finished
+   */
+  async getStreamingCompletion(
+    query: string,
+    enhancedContext: any,
+    onDelta: StreamDeltaCallback,
+    token?: vscode.CancellationToken,
+    modelId?: string,
+    tools?: IToolSession
+  ): Promise<ILLMCompletion> {
+    try {
+      const model = this.resolveModel(modelId);
+      const messages = this.buildMessages(query, enhancedContext);
+      if (tools && this.canUseTools(model)) {
+        return await this.runToolLoop(messages, model, tools, token, onDelta);
+      }
+
+      const { content, model: answeringModel, usage } = await this.callChatStream(messages, model, onDelta, token);
+      return { content, model: answeringModel, usage };
+
+    } catch (error) {
+      throw this.handleApiError(error);
+    }
+  }
+
+  /**
+   * Summarise conversation turns that no longer fit the history budget
+   */
+  async summarizeConversation(
+    turns: IConversationTurn[],
+    previousSummary: string,
+    token?: vscode.CancellationToken,
+    modelId?: string
+  ): Promise<string> {
+    const model = this.resolveModel(modelId);
+    const prompt = buildSummaryPrompt(turns, previousSummary);
+
+    const response = await this.sendChatRequest([{ role: 'user', content: prompt }], model, false, token);
+    const data = await response.json();
+    this.reportUsage(data.model || model.id, this.toUsage(data.usage));
+
+    return data.choices?.[0]?.message?.content || '';
+  }
+
+  /**
+   * Test that the server answers on its models endpoint
+   * @returns True if the server is reachable
+   */
+  async testConnection(): Promise<boolean> {
+    const config = vscode.workspace.getConfiguration('codeAssist');
+    const timeout = config.get<number>('apiKeyValidationTimeout') || 10000;
+
+    try {
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), timeout);
+
+      const response = await apiFetch(`${this.loadConfiguration().baseUrl}/models`, {
+        headers: await this.buildHeaders(),
+        signal: controller.signal
+      });
+
+      clearTimeout(timeoutId);
+      return response.ok;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * List configured models
+   */
+  listModels(): IModelInfo[] {
+    return this.loadConfiguration().models.map(modelId => ({
+      id: modelId,
+      displayName: modelId,
+      contextWindow: 8192,
+      maxOutputTokens: 4096,
+      pricing: { inputPerMillion: 0, outputPerMillion: 0 }
+    }));
+  }
+
+  /**
+   * Find a configured model by id
+   */
+  getModel(modelId: string): IModelInfo | undefined {
+    return this.listModels().find(model => model.id === modelId);
+  }
+
+  /**
+   * The first configured model is the default
+   */
+  getDefaultModel(): IModelInfo {
+    return this.listModels()[0];
+  }
+
+  /**
+   * Configure the server URL and an optional API key
+   * @returns True if configuration was successful
+   */
+  async configureCredentials(): Promise<boolean> {
+    const config = vscode.workspace.getConfiguration('codeAssist');
+
+    const baseUrl = await vscode.window.showInputBox({
+      prompt: 'Base URL of the OpenAI-compatible server',
+      value: this.loadConfiguration().baseUrl,
+      validateInput: (value) => /^https?:\/\//.test(value.trim()) ? null : 'Enter an http(s) URL'
+    });
+
+    if (!baseUrl) {
+      return false;
+    }
+
+    await config.update('openaiCompatible.baseUrl', baseUrl.trim(), vscode.ConfigurationTarget.Global);
+
+    const apiKey = await vscode.window.showInputBox({
+      prompt: 'API key (leave empty for local servers that need none)',
+      password: true
+    });
+
+    if (apiKey && apiKey.trim()) {
+      await this.secretManager.storeApiKey(apiKey);
+    }
+
+    const validation = await this.validateCredentials();
+    if (!validation.isValid) {
+      vscode.window.showErrorMessage(`Cannot reach ${baseUrl}: ${validation.error}`);
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Validate by reaching the server, with the stored key if any
+   */
+  async validateCredentials(): Promise<IApiKeyValidationResult> {
+    const isReachable = await this.testConnection();
+
+    return {
+      isValid: isReachable,
+      error: isReachable ? undefined : 'Server did not respond on its /models endpoint'
+    };
+  }
+
+  /**
+   * Remove the optional API key
+   */
+  async revokeCredentials(): Promise<void> {
+    if (await this.secretManager.hasApiKey()) {
+      await this.secretManager.deleteApiKey();
+    }
+  }
+
+  /**
+   * Build chat messages with the stable system sections first
+   * Servers with prefix caching, such as llama.cpp, reuse the unchanged prefix across turns
+   */
+  private buildMessages(query: string, enhancedContext: any): IProviderMessage[] {
+    return [
+      { role: 'system', content: buildSystemSections(enhancedContext).join('\n\n') },
+      ...buildChatMessages(query, enhancedContext)
+    ];
+  }
+
+  /**
+   * Resolve a requested model, falling back to the default
+   */
+  private resolveModel(modelId?: string): IModelInfo {
+    return (modelId && this.getModel(modelId)) || this.getDefaultModel();
+  }
+
+  /**
+   * Whether to offer tools to a model: tools are enabled for the server and it has not rejected them for the model
+   */
+  private canUseTools(model: IModelInfo): boolean {
+    return this.loadConfiguration().tools && !this.modelsWithoutTools.has(model.id);
+  }
+
+  /**
+   * Let the model call workspace tools until it answers without requesting more
+   * @param messages Messages of the current turn
+   * @param model Model to send the requests to
+   * @param tools Tools offered to the model and the step callback
+   * @param token Optional token used to abort the loop
+   * @param onDelta Streams text when provided, otherwise each request is buffered
+   * @returns Final response whose text joins every round and whose usage covers all requests
+   */
+  private async runToolLoop(
+    messages: IProviderMessage[],
+    model: IModelInfo,
+    tools: IToolSession,
+    token?: vscode.CancellationToken,
+    onDelta?: StreamDeltaCallback
+  ): Promise<ILLMCompletion> {
+    const functions = tools.executor.getDefinitions().map(toFunctionTool);
+    const maxIterations = vscode.workspace.getConfiguration('codeAssist').get<number>('tools.maxIterations', 8);
+    const conversation: any[] = [...messages];
+    const texts: string[] = [];
+    const usage = { input_tokens: 0, output_tokens: 0 };
+    let round: IChatRound;
+
+    for (let iteration = 0; ; iteration++) {
+      // Once the limit is reached the model has to answer with what it has gathered
+      const toolChoice = iteration < maxIterations ? 'auto' : 'none';
+
+      try {
+        if (onDelta) {
+          // Separate text of successive rounds the same way the final content is joined
+          let separator = texts.length > 0 ? '\n\n' : '';
+          const roundDelta = (delta: string) => {
+            onDelta(separator + delta);
+            separator = '';
+          };
+          round = await this.callChatStream(conversation, model, roundDelta, token, functions, toolChoice);
+        } else {
+          round = await this.callChat(conversation, model, token, functions, toolChoice);
+        }
+
+      } catch (error) {
+        // Many local models cannot run with tools and the server answers 400 to the first request
+        if (iteration > 0 || !(error instanceof ApiException) || error.status !== 400) {
+          throw error;
+        }
+
+        console.warn(`${this.displayName} rejected tools for ${model.id}, answering without them:`, error.message);
+        this.modelsWithoutTools.add(model.id);
+        return onDelta
+          ? await this.callChatStream(messages, model, onDelta, token)
+          : await this.callChat(messages, model, token);
+      }
+
+      usage.input_tokens += round.usage?.input_tokens || 0;
+      usage.output_tokens += round.usage?.output_tokens || 0;
+
+      if (round.content) {
+        texts.push(round.content);
+      }
+
+      // Some servers ignore tool_choice, so the limit is enforced here as well
+      if (round.toolCalls.length === 0 || iteration >= maxIterations) {
+        break;
+      }
+
+      conversation.push({ role: 'assistant', content: round.content || null, tool_calls: round.toolCalls });
+      for (const toolCall of round.toolCalls) {
+        conversation.push(await this.executeToolCall(toolCall, tools, token));
+      }
+    }
+
+    return { content: texts.join('\n\n'), model: round.model, usage };
+  }
+
+  /**
+   * Run one function call and report its progress as a chat step
+   * @param toolCall Function call requested by the model
+   * @param tools Tool executor and step callback
+   * @param token Optional token used to abort the call
+   * @returns Tool message to send back to the model
+   */
+  private async executeToolCall(toolCall: any, tools: IToolSession, token?: vscode.CancellationToken): Promise<any> {
+    const name: string = toolCall.function?.name || '';
+    let input: any;
+    try {
+      input = toolCall.function?.arguments ? JSON.parse(toolCall.function.arguments) : {};
+    } catch {
+      input = undefined;
+    }
+
+    const step: IToolStep = { id: toolCall.id, name, input, status: ToolStepStatus.RUNNING };
+    tools.onToolStep?.(step);
+
+    const startTime = Date.now();
+    const result = input === undefined
+      ? { toolUseId: toolCall.id, content: `Arguments are not valid JSON: ${toolCall.function.arguments}`, isError: true }
+      : await tools.executor.execute({ id: toolCall.id, name, input }, token);
+
+    tools.onToolStep?.({
+      ...step,
+      status: result.isError ? ToolStepStatus.FAILED : ToolStepStatus.DONE,
+      output: result.content,
+      durationMs: Date.now() - startTime
+    });
+
+    return { role: 'tool', tool_call_id: toolCall.id, content: result.content };
+  }
+
+  /**
+   * Request a buffered completion
+   * @param messages Conversation so far
+   * @param model Model to send the request to
+   * @param token Optional token used to abort the request
+   * @param functions Function tools offered to the model, if any
+   * @param toolChoice Whether the model may call them
+   */
+  private async callChat(
+    messages: any[],
+    model: IModelInfo,
+    token?: vscode.CancellationToken,
+    functions?: any[],
+    toolChoice?: 'auto' | 'none'
+  ): Promise<IChatRound> {
+    const response = await this.sendChatRequest(messages, model, false, token, functions, toolChoice);
+    const data = await response.json();
+    const message = data.choices?.[0]?.message;
+    const usage = this.toUsage(data.usage);
+    this.reportUsage(data.model || model.id, usage);
+
+    return {
+      content: message?.content || '',
+      model: data.model || model.id,
+      usage,
+      toolCalls: Array.isArray(message?.tool_calls) ? message.tool_calls : []
+    };
+  }
+
+  /**
+   * Request a streamed completion
+   * @param messages Conversation so far
+   * @param model Model to send the request to
+   * @param onDelta Callback receiving each text delta
+   * @param token Optional token used to abort the stream
+   * @param functions Function tools offered to the model, if any
+   * @param toolChoice Whether the model may call them
+   */
+  private async callChatStream(
+    messages: any[],
+    model: IModelInfo,
+    onDelta: StreamDeltaCallback,
+    token?: vscode.CancellationToken,
+    functions?: any[],
+    toolChoice?: 'auto' | 'none'
+  ): Promise<IChatRound> {
+    const response = await this.sendChatRequest(messages, model, true, token, functions, toolChoice);
+    return await this.readStream(response, model, onDelta);
+  }
+
+  /**
+   * Send a request to the chat-completions endpoint, retrying rate-limited and overloaded responses
+   * Secrets and personal data in the messages are redacted first
+   */
+  private async sendChatRequest(
+    messages: any[],
+    model: IModelInfo,
+    stream: boolean,
+    token?: vscode.CancellationToken,
+    functions?: any[],
+    toolChoice: 'auto' | 'none' = 'auto'
+  ): Promise<Response> {
+    return await fetchWithRetry(`${this.loadConfiguration().baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: await this.buildHeaders(),
+      body: JSON.stringify({
+        model: model.id,
+        max_tokens: this.modelRegistry.getMaxOutputTokens(model),
+        messages: getRedactor().redactContent(messages),
+        ...(functions && functions.length > 0 ? { tools: functions, tool_choice: toolChoice } : {}),
+        stream,
+        // Streams only report token usage in a final chunk when asked to
+        ...(stream ? { stream_options: { include_usage: true } } : {})
+      }),
+      signal: toAbortSignal(token)
+    }, loadRetryOptions(), notice => this.retryEmitter.fire(notice), token);
+  }
+
+  /**
+   * Read a chat-completions event stream
+   */
+  private async readStream(response: Response, model: IModelInfo, onDelta: StreamDeltaCallback): Promise<IChatRound> {
+    if (!response.body) {
+      throw new StreamException('NO_BODY', 'Streaming response has no body');
+    }
+
+    const parser = new SseParser();
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    const completion: IChatRound = { content: '', model: model.id, toolCalls: [] };
+
+    const handleData = (data: string) => {
+      if (data === '[DONE]') {
+        return;
+      }
+
+      // The usage chunk that ends the stream has no choices
+      const chunk = JSON.parse(data);
+      const delta = chunk.choices?.[0]?.delta?.content;
+      if (delta) {
+        completion.content += delta;
+        onDelta(delta);
+      }
+      for (const fragment of chunk.choices?.[0]?.delta?.tool_calls || []) {
+        // Arguments arrive as JSON fragments; the id and name come with the first fragment of a call
+        const index = fragment.index ?? completion.toolCalls.length;
+        const toolCall = completion.toolCalls[index] = completion.toolCalls[index]
+          || { id: `call_${index}`, type: 'function', function: { name: '', arguments: '' } };
+        if (fragment.id) {
+          toolCall.id = fragment.id;
+        }
+        toolCall.function.name += fragment.function?.name || '';
+        toolCall.function.arguments += fragment.function?.arguments || '';
+      }
+      if (chunk.model) {
+        completion.model = chunk.model;
+      }
+      if (chunk.usage) {
+        completion.usage = this.toUsage(chunk.usage);
+        this.reportUsage(completion.model, completion.usage);
+      }
+    };
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) {
+          break;
+        }
+
+        for (const event of parser.feed(decoder.decode(value, { stream: true }))) {
+          handleData(event.data);
+        }
+      }
+
+      for (const event of parser.flush()) {
+        handleData(event.data);
+      }
+    } finally {
+      reader.releaseLock();
+    }
+
+    completion.toolCalls = completion.toolCalls.filter(Boolean);
+    return completion;
+  }
+
+  /**
+   * Map OpenAI usage fields onto the shared usage shape
+   */
+  private toUsage(usage: any): ILLMCompletion['usage'] {
+    if (!usage) {
+      return undefined;
+    }
+
+    return {
+      input_tokens: usage.prompt_tokens || 0,
+      output_tokens: usage.completion_tokens || 0
+    };
+  }
+
+  /**
+   * Announce the tokens a request consumed
+   * @param model Model that served the request
+   * @param usage Usage reported by the server, if any
+   */
+  private reportUsage(model: string, usage: ILLMCompletion['usage']): void {
+    if (usage) {
+      this.usageEmitter.fire({ model, usage });
+    }
+  }
+
+  /**
+   * Build request headers, adding the bearer token when a key is stored
+   */
+  private async buildHeaders(): Promise<Record<string, string>> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+
+    const apiKey = await this.secretManager.getApiKey();
+    if (apiKey) {
+      headers['Authorization'] = `Bearer ${apiKey}`;
+    }
+
+    return headers;
+  }
+
+  /**
+   * Report an API error to the user and normalise it for callers
+   */
+  private handleApiError(error: unknown): Error {
+    if (isCancellationError(error)) {
+      return new vscode.CancellationError();
+    }
+
+    if (error instanceof ApiException) {
+      vscode.window.showErrorMessage(`${this.displayName} error: ${error.message}`);
+      return error;
+    }
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    vscode.window.showErrorMessage(`${this.displayName} error: ${errorMessage}`);
+    return new Error(errorMessage);
+  }
+
+  /**
+   * Load provider configuration
+   */
+  private loadConfiguration(): IOpenAICompatibleConfig {
+    const config = vscode.workspace.getConfiguration('codeAssist');
+    const models = config.get<string[]>('openaiCompatible.models') || [];
+
+    return {
+      baseUrl: (config.get<string>('openaiCompatible.baseUrl') || 'http://localhost:11434/v1').replace(/\/+$/, ''),
+      models: models.length > 0 ? models : ['llama3.1'],
+      tools: config.get<boolean>('openaiCompatible.tools', true)
+    };
+  }
+}
+
+/**
+ * Describe a workspace tool in the function-calling format
+ */
+function toFunctionTool(definition: IToolDefinition): any {
+  return {
+    type: 'function',
+    function: {
+      name: definition.name,
+      description: definition.description,
+      parameters: definition.input_schema
+    }
+  };
+}
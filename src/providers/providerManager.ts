@@ -0,0 +1,79 @@
+import * as vscode from 'vscode';
+import { ClaudeClient } from '../claudeClient';
+import { ProfileManager } from '../auth/profileManager';
+import { OpenAICompatibleProvider } from './openAICompatibleProvider';
+import { ILLMProvider, ProviderId } from './types';
+
+/**
+ * Owns the available LLM providers and resolves the one selected in settings
+ */
+export class LLMProviderManager {
+  private readonly providers: Map<string, ILLMProvider> = new Map();
+
+  /**
+   * @param context Extension context providing secret storage
+   * @param profileManager Credential profiles used by the Anthropic provider
+   */
+  constructor(context: vscode.ExtensionContext, profileManager?: ProfileManager) {
+    this.register(new ClaudeClient(context, profileManager));
+    this.register(new OpenAICompatibleProvider(context));
+  }
+
+  /**
+   * Initialize the currently selected provider
+   */
+  async initialize(): Promise<void> {
+    await this.getActiveProvider().initialize();
+  }
+
+  /**
+   * Get the provider selected by `codeAssist.provider`
+   * @returns Selected provider, or Anthropic when the setting is unknown
+   */
+  getActiveProvider(): ILLMProvider {
+    const config = vscode.workspace.getConfiguration('codeAssist');
+    const providerId = config.get<string>('provider') || ProviderId.ANTHROPIC;
+
+    return this.providers.get(providerId) || this.providers.get(ProviderId.ANTHROPIC)!;
+  }
+
+  /**
+   * List all registered providers
+   */
+  listProviders(): ILLMProvider[] {
+    return Array.from(this.providers.values());
+  }
+
+  /**
+   * Let the user pick the provider through a quick pick
+   * @returns True if a provider was selected
+   */
+  async selectProvider(): Promise<boolean> {
+    const activeId = this.getActiveProvider().id;
+    const items = this.listProviders().map(provider => ({
+      label: provider.displayName,
+      description: provider.id === activeId ? 'current' : undefined,
+      detail: provider.requiresApiKey ? 'Requires an API key' : 'API key optional',
+      providerId: provider.id
+    }));
+
+    const choice = await vscode.window.showQuickPick(items, {
+      placeHolder: 'Select the LLM provider used by Code Assistant'
+    });
+
+    if (!choice) {
+      return false;
+    }
+
+    const config = vscode.workspace.getConfiguration('codeAssist');
+    await config.update('provider', choice.providerId, vscode.ConfigurationTarget.Global);
+    await this.getActiveProvider().initialize();
+
+    vscode.window.showInformationMessage(`Code Assistant now uses ${choice.label}.`);
+    return true;
+  }
+
+  private register(provider: ILLMProvider): void {
+    this.providers.set(provider.id, provider);
+  }
+}
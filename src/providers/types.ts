@@ -0,0 +1,87 @@
+/**
+ * Types and interfaces for pluggable LLM providers
+ */
+
+import * as vscode from 'vscode';
+import { IApiKeyValidationResult } from '../auth/types';
+import { IRetryNotice, StreamDeltaCallback } from '../api/types';
+import { IConversationTurn } from '../conversation/types';
+import { IModelInfo } from '../models/types';
+import { IToolSession } from '../tools/types';
+
+export interface ILLMCompletion {
+  content: string;
+  model: string;
+  usage?: {
+    input_tokens: number;
+    output_tokens: number;
+    cache_creation_input_tokens?: number;
+    cache_read_input_tokens?: number;
+  };
+}
+
+/**
+ * Tokens consumed by one API request
+ */
+export interface ITokenUsage {
+  model: string;
+  usage: NonNullable<ILLMCompletion['usage']>;
+}
+
+export interface IProviderMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ILLMProvider {
+  readonly id: string;
+  readonly displayName: string;
+  readonly requiresApiKey: boolean;
+  readonly onDidRetry: vscode.Event<IRetryNotice>;
+  /** Fires for every request that consumed tokens, whether it succeeded, failed or was cancelled */
+  readonly onDidUseTokens: vscode.Event<ITokenUsage>;
+
+  initialize(): Promise<void>;
+  getCompletion(
+    query: string,
+    enhancedContext: any,
+    token?: vscode.CancellationToken,
+    modelId?: string,
+    tools?: IToolSession
+  ): Promise<ILLMCompletion>;
+  getStreamingCompletion(
+    query: string,
+    enhancedContext: any,
+    onDelta: StreamDeltaCallback,
+    token?: vscode.CancellationToken,
+    modelId?: string,
+    tools?: IToolSession
+  ): Promise<ILLMCompletion>;
+  summarizeConversation(
+    turns: IConversationTurn[],
+    previousSummary: string,
+    token?: vscode.CancellationToken,
+    modelId?: string
+  ): Promise<string>;
+  testConnection(): Promise<boolean>;
+
+  listModels(): IModelInfo[];
+  getModel(modelId: string): IModelInfo | undefined;
+  getDefaultModel(): IModelInfo;
+
+  configureCredentials(): Promise<boolean>;
+  validateCredentials(): Promise<IApiKeyValidationResult>;
+  revokeCredentials(): Promise<void>;
+}
+
+export interface IOpenAICompatibleConfig {
+  baseUrl: string;
+  models: string[];
+  /** Offer workspace tools through function calling */
+  tools: boolean;
+}
+
+export enum ProviderId {
+  ANTHROPIC = 'anthropic',
+  OPENAI_COMPATIBLE = 'openai-compatible'
+}
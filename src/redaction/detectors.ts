@@ -0,0 +1,157 @@
+import { DetectorId, IRedactionMatch, ISecretDetector, RedactionCategory } from './types';
+
+/**
+ * Finds every match of a set of regular expressions
+ * When a pattern has a capture group, only the captured part is redacted
+ */
+export class PatternDetector implements ISecretDetector {
+  constructor(
+    readonly id: DetectorId,
+    private readonly category: RedactionCategory,
+    private readonly patterns: RegExp[]
+  ) {}
+
+  detect(text: string): IRedactionMatch[] {
+    const matches: IRedactionMatch[] = [];
+
+    for (const pattern of this.patterns) {
+      const regex = new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`);
+
+      for (const match of text.matchAll(regex)) {
+        const value = match[1] ?? match[0];
+        if (!value) {
+          continue;
+        }
+
+        const start = match.index! + (match[1] !== undefined ? match[0].lastIndexOf(match[1]) : 0);
+        matches.push({ detector: this.id, category: this.category, value, start, end: start + value.length });
+      }
+    }
+
+    return matches;
+  }
+}
+
+/**
+ * Well-known credential formats: cloud and SaaS API keys, tokens, private keys,
+ * secret-looking assignments in .env files and passwords in connection strings
+ */
+export class KeyFormatDetector extends PatternDetector {
+  private static readonly PATTERNS: RegExp[] = [
+    /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g,
+    /\bsk-ant-[A-Za-z0-9_-]{20,}/g,
+    /\bsk-(?:proj-)?[A-Za-z0-9_-]{20,}/g,
+    /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g,
+    /\bgh[pousr]_[A-Za-z0-9]{36,}\b/g,
+    /\bgithub_pat_[A-Za-z0-9_]{22,}\b/g,
+    /\bglpat-[A-Za-z0-9_-]{20,}\b/g,
+    /\bxox[abposr]-[A-Za-z0-9-]{10,}\b/g,
+    /\bAIza[0-9A-Za-z_-]{35}\b/g,
+    /\b[rs]k_(?:live|test)_[0-9A-Za-z]{16,}\b/g,
+    /\beyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g,
+    /^[ \t]*(?:export[ \t]+)?[A-Z0-9_]*(?:SECRET|TOKEN|PASSWORD|PASSWD|API_?KEY|PRIVATE_?KEY|ACCESS_?KEY|CREDENTIALS?)[A-Z0-9_]*[ \t]*[=:][ \t]*["']?(?!process\.env|\$\{)([^\s"'#]{6,})/gm,
+    /\b[a-z][a-z0-9+.-]*:\/\/[^\s:@/]+:([^\s@/]+)@/gi
+  ];
+
+  constructor() {
+    super(DetectorId.KEY_FORMATS, RedactionCategory.SECRET, KeyFormatDetector.PATTERNS);
+  }
+}
+
+/**
+ * Email addresses
+ */
+export class EmailDetector extends PatternDetector {
+  constructor() {
+    super(DetectorId.EMAIL, RedactionCategory.EMAIL, [/\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g]);
+  }
+}
+
+/**
+ * IPv4 addresses, except loopback and unspecified addresses
+ */
+export class IpAddressDetector implements ISecretDetector {
+  readonly id = DetectorId.IP_ADDRESS;
+  private static readonly IPV4 = /(?<![\d.])(?:(?:25[0-5]|2[0-4]\d|1?\d?\d)\.){3}(?:25[0-5]|2[0-4]\d|1?\d?\d)(?![\d.]*\d)/g;
+
+  detect(text: string): IRedactionMatch[] {
+    const matches: IRedactionMatch[] = [];
+
+    for (const match of text.matchAll(IpAddressDetector.IPV4)) {
+      const value = match[0];
+      if (value.startsWith('127.') || value === '0.0.0.0') {
+        continue;
+      }
+      matches.push({
+        detector: this.id,
+        category: RedactionCategory.IP,
+        value,
+        start: match.index!,
+        end: match.index! + value.length
+      });
+    }
+
+    return matches;
+  }
+}
+
+/**
+ * Random-looking tokens: long runs of key characters mixing letters and digits
+ * whose Shannon entropy reaches the threshold
+ */
+export class EntropyDetector implements ISecretDetector {
+  readonly id = DetectorId.ENTROPY;
+  private static readonly TOKEN = /[A-Za-z0-9+_-]{20,}={0,2}/g;
+
+  /**
+   * @param threshold Minimum entropy in bits per character
+   */
+  constructor(private readonly threshold: number = 4.0) {}
+
+  detect(text: string): IRedactionMatch[] {
+    const matches: IRedactionMatch[] = [];
+
+    for (const match of text.matchAll(EntropyDetector.TOKEN)) {
+      const value = match[0];
+
+      // Identifiers and paths rarely mix letters and digits this densely
+      if (!/[0-9]/.test(value) || !/[A-Za-z]/.test(value) || shannonEntropy(value) < this.threshold) {
+        continue;
+      }
+
+      matches.push({
+        detector: this.id,
+        category: RedactionCategory.SECRET,
+        value,
+        start: match.index!,
+        end: match.index! + value.length
+      });
+    }
+
+    return matches;
+  }
+}
+
+/**
+ * Shannon entropy of a string
+ * @param value Text to measure
+ * @returns Bits per character
+ */
+export function shannonEntropy(value: string): number {
+  if (value.length === 0) {
+    return 0;
+  }
+
+  const counts = new Map<string, number>();
+  for (const char of value) {
+    counts.set(char, (counts.get(char) || 0) + 1);
+  }
+
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const probability = count / value.length;
+    entropy -= probability * Math.log2(probability);
+  }
+
+  return entropy;
+}
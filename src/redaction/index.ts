@@ -0,0 +1,15 @@
+/**
+ * Redaction module exports
+ * Replaces secrets and personal data with stable placeholders before context leaves the machine
+ */
+
+export { Redactor, getRedactor } from './redactor';
+export {
+  EntropyDetector,
+  KeyFormatDetector,
+  EmailDetector,
+  IpAddressDetector,
+  PatternDetector,
+  shannonEntropy
+} from './detectors';
+export * from './types';
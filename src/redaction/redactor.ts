@@ -0,0 +1,219 @@
+import * as vscode from 'vscode';
+import {
+  EmailDetector,
+  EntropyDetector,
+  IpAddressDetector,
+  KeyFormatDetector,
+  PatternDetector
+} from './detectors';
+import {
+  DetectorId,
+  IRedactionConfig,
+  IRedactionMatch,
+  IRedactionResult,
+  ISecretDetector,
+  RedactionCategory
+} from './types';
+
+/**
+ * Replaces secrets, emails and IP addresses with placeholders before text is sent to a model
+ * The same value always gets the same placeholder, so prompts stay cacheable across turns
+ * and placeholders echoed back by the model can be restored locally
+ */
+export class Redactor {
+  private static readonly PLACEHOLDER = /\[REDACTED_(?:SECRET|EMAIL|IP)_\d+\]/g;
+
+  private readonly placeholders: Map<string, string> = new Map();
+  private readonly values: Map<string, string> = new Map();
+  private readonly counters: Map<RedactionCategory, number> = new Map();
+
+  /**
+   * @param loadConfig Source of the redaction settings, read on every call
+   */
+  constructor(private readonly loadConfig: () => IRedactionConfig = loadRedactionConfig) {}
+
+  /**
+   * Redact a piece of text
+   * @param text Text about to leave the machine
+   * @returns Redacted text and what was replaced
+   */
+  redact(text: string): IRedactionResult {
+    const config = this.loadConfig();
+    if (!config.enabled || !text) {
+      return { text, redactions: [] };
+    }
+
+    const matches = this.findMatches(text, config);
+    if (matches.length === 0) {
+      return { text, redactions: [] };
+    }
+
+    let result = '';
+    let position = 0;
+    for (const match of matches) {
+      result += text.substring(position, match.start) + this.getPlaceholder(match);
+      position = match.end;
+    }
+    result += text.substring(position);
+
+    return { text: result, redactions: matches };
+  }
+
+  /**
+   * Redact the text of a request payload: every `text` and `content` string, at any depth
+   * Handles Anthropic content blocks, tool results and chat-completions messages alike
+   * @param payload Messages or system blocks
+   * @returns Copy of the payload with text redacted
+   */
+  redactContent<T>(payload: T): T {
+    return this.redactValue(payload, undefined) as T;
+  }
+
+  /**
+   * Put the original values back in place of known placeholders
+   * @param text Text produced by the model, e.g. a code block about to be applied
+   * @returns Text with placeholders restored
+   */
+  restore(text: string): string {
+    if (!text || this.values.size === 0) {
+      return text;
+    }
+
+    return text.replace(Redactor.PLACEHOLDER, placeholder => this.values.get(placeholder) ?? placeholder);
+  }
+
+  /**
+   * Forget every placeholder
+   */
+  reset(): void {
+    this.placeholders.clear();
+    this.values.clear();
+    this.counters.clear();
+  }
+
+  private redactValue(value: any, key: string | undefined): any {
+    if (typeof value === 'string') {
+      return key === 'text' || key === 'content' ? this.redact(value).text : value;
+    }
+
+    if (Array.isArray(value)) {
+      // Arrays inherit the key so that `content: [...]` block lists are walked
+      return value.map(item => this.redactValue(item, key));
+    }
+
+    if (value && typeof value === 'object') {
+      const copy: any = {};
+      for (const [childKey, child] of Object.entries(value)) {
+        copy[childKey] = this.redactValue(child, childKey);
+      }
+      return copy;
+    }
+
+    return value;
+  }
+
+  /**
+   * Run the enabled detectors and keep the earliest, longest non-overlapping matches
+   */
+  private findMatches(text: string, config: IRedactionConfig): IRedactionMatch[] {
+    const allowlist = new Set(config.allowlist);
+    const existingPlaceholders = [...text.matchAll(Redactor.PLACEHOLDER)]
+      .map(match => ({ start: match.index!, end: match.index! + match[0].length }));
+
+    const candidates = this.createDetectors(config)
+      .flatMap(detector => detector.detect(text))
+      .filter(match => !allowlist.has(match.value))
+      .filter(match => !existingPlaceholders.some(range => match.start < range.end && match.end > range.start))
+      .sort((a, b) => a.start - b.start || (b.end - b.start) - (a.end - a.start));
+
+    const selected: IRedactionMatch[] = [];
+    let lastEnd = -1;
+    for (const match of candidates) {
+      if (match.start >= lastEnd) {
+        selected.push(match);
+        lastEnd = match.end;
+      }
+    }
+
+    return selected;
+  }
+
+  private createDetectors(config: IRedactionConfig): ISecretDetector[] {
+    const detectors: ISecretDetector[] = [];
+    const enabled = new Set(config.detectors);
+
+    if (enabled.has(DetectorId.KEY_FORMATS)) {
+      detectors.push(new KeyFormatDetector());
+    }
+    if (enabled.has(DetectorId.ENTROPY)) {
+      detectors.push(new EntropyDetector(config.entropyThreshold));
+    }
+    if (enabled.has(DetectorId.EMAIL)) {
+      detectors.push(new EmailDetector());
+    }
+    if (enabled.has(DetectorId.IP_ADDRESS)) {
+      detectors.push(new IpAddressDetector());
+    }
+
+    const customPatterns = config.customPatterns.flatMap(source => {
+      try {
+        return [new RegExp(source, 'g')];
+      } catch (error) {
+        console.warn(`Ignoring invalid redaction pattern ${source}:`, error);
+        return [];
+      }
+    });
+    if (customPatterns.length > 0) {
+      detectors.push(new PatternDetector(DetectorId.CUSTOM, RedactionCategory.SECRET, customPatterns));
+    }
+
+    return detectors;
+  }
+
+  private getPlaceholder(match: IRedactionMatch): string {
+    const existing = this.placeholders.get(match.value);
+    if (existing) {
+      return existing;
+    }
+
+    const next = (this.counters.get(match.category) || 0) + 1;
+    this.counters.set(match.category, next);
+
+    const placeholder = `[REDACTED_${match.category}_${next}]`;
+    this.placeholders.set(match.value, placeholder);
+    this.values.set(placeholder, match.value);
+    return placeholder;
+  }
+}
+
+let sharedRedactor: Redactor | null = null;
+
+/**
+ * Get the redactor shared by the providers and the code applier
+ */
+export function getRedactor(): Redactor {
+  if (!sharedRedactor) {
+    sharedRedactor = new Redactor();
+  }
+  return sharedRedactor;
+}
+
+/**
+ * Load redaction settings
+ */
+export function loadRedactionConfig(): IRedactionConfig {
+  const config = vscode.workspace.getConfiguration('codeAssist');
+
+  return {
+    enabled: config.get<boolean>('redaction.enabled', true),
+    detectors: config.get<DetectorId[]>('redaction.detectors', [
+      DetectorId.KEY_FORMATS,
+      DetectorId.ENTROPY,
+      DetectorId.EMAIL,
+      DetectorId.IP_ADDRESS
+    ]),
+    entropyThreshold: config.get<number>('redaction.entropyThreshold', 4.0),
+    customPatterns: config.get<string[]>('redaction.customPatterns', []),
+    allowlist: config.get<string[]>('redaction.allowlist', [])
+  };
+}
@@ -0,0 +1,54 @@
+/**
+ * Types and interfaces for the redaction pipeline
+ */
+
+export enum DetectorId {
+  ENTROPY = 'entropy',
+  KEY_FORMATS = 'keyFormats',
+  EMAIL = 'email',
+  IP_ADDRESS = 'ipAddress',
+  CUSTOM = 'custom'
+}
+
+export enum RedactionCategory {
+  SECRET = 'SECRET',
+  EMAIL = 'EMAIL',
+  IP = 'IP'
+}
+
+export interface IRedactionMatch {
+  detector: DetectorId;
+  category: RedactionCategory;
+  value: string;
+  start: number;
+  end: number;
+}
+
+export interface ISecretDetector {
+  readonly id: DetectorId;
+  detect(text: string): IRedactionMatch[];
+}
+
+export interface IRedactionConfig {
+  enabled: boolean;
+  detectors: DetectorId[];
+  entropyThreshold: number;
+  customPatterns: string[];
+  allowlist: string[];
+}
+
+export interface IRedactionResult {
+  text: string;
+  redactions: IRedactionMatch[];
+}
+
+export class RedactionException extends Error {
+  constructor(
+    public readonly operation: string,
+    message: string,
+    public readonly details?: any
+  ) {
+    super(message);
+    this.name = 'RedactionException';
+  }
+}
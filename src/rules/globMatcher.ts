@@ -0,0 +1,77 @@
+/**
+ * Convert a glob to a regular expression over forward-slash paths
+ * Supports **, *, ?, character classes and {a,b} alternatives
+ * @param glob Glob pattern, e.g. src/**\/*.{ts,tsx}
+ * @returns Anchored regular expression
+ */
+export function globToRegExp(glob: string): RegExp {
+  let pattern = '';
+  let braceDepth = 0;
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+
+    switch (char) {
+      case '*':
+        if (glob[i + 1] === '*') {
+          // **/ matches zero or more directories, a trailing ** matches everything below
+          const followedBySlash = glob[i + 2] === '/';
+          pattern += followedBySlash ? '(?:.*/)?' : '.*';
+          i += followedBySlash ? 2 : 1;
+        } else {
+          pattern += '[^/]*';
+        }
+        break;
+      case '?':
+        pattern += '[^/]';
+        break;
+      case '[': {
+        const end = glob.indexOf(']', i + 1);
+        if (end === -1) {
+          pattern += '\\[';
+        } else {
+          pattern += `[${glob.substring(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\')}]`;
+          i = end;
+        }
+        break;
+      }
+      case '{':
+        braceDepth++;
+        pattern += '(?:';
+        break;
+      case '}':
+        if (braceDepth > 0) {
+          braceDepth--;
+          pattern += ')';
+        } else {
+          pattern += '\\}';
+        }
+        break;
+      case ',':
+        pattern += braceDepth > 0 ? '|' : ',';
+        break;
+      default:
+        pattern += char.replace(/[.+^$()|\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${pattern}$`);
+}
+
+/**
+ * Test a workspace-relative path against a glob
+ * Globs without a slash match the file name in any directory, as in .gitignore
+ * @param relativePath Path relative to the workspace root
+ * @param glob Glob pattern
+ * @returns True if the path matches
+ */
+export function matchesGlob(relativePath: string, glob: string): boolean {
+  const normalizedPath = relativePath.replace(/\\/g, '/').replace(/^\.\//, '');
+  const normalizedGlob = glob.trim().replace(/^\.?\//, '');
+
+  if (!normalizedGlob.includes('/')) {
+    return globToRegExp(normalizedGlob).test(normalizedPath.split('/').pop() || normalizedPath);
+  }
+
+  return globToRegExp(normalizedGlob).test(normalizedPath);
+}
@@ -0,0 +1,8 @@
+/**
+ * Project rules module exports
+ * Loads the .codeassist/rules markdown files and selects those scoped to the files in context
+ */
+
+export { ProjectRulesLoader, parseRule } from './projectRules';
+export { globToRegExp, matchesGlob } from './globMatcher';
+export * from './types';
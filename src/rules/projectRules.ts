@@ -0,0 +1,171 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { matchesGlob } from './globMatcher';
+import { IProjectRule, IRuleFrontMatter, IRuleTarget, RulesException } from './types';
+
+/**
+ * Loads project rules from .codeassist/rules and picks the ones that apply to a request
+ * Each rule is a markdown file; optional front-matter globs scope it to matching paths.
+ * Every workspace folder has its own rules, which apply to the files of that folder only
+ */
+export class ProjectRulesLoader {
+  static readonly RULES_DIRECTORY = '.codeassist/rules';
+
+  /**
+   * Read every rule file of every workspace folder
+   * Rules are grouped by folder in workspace order
+   * @returns Parsed rules, empty when no workspace or rules directory exists
+   */
+  async loadRules(): Promise<IProjectRule[]> {
+    const rules: IProjectRule[] = [];
+    for (const workspaceFolder of vscode.workspace.workspaceFolders || []) {
+      rules.push(...await this.loadFolderRules(workspaceFolder));
+    }
+    return rules;
+  }
+
+  /**
+   * Keep the rules that apply to the given files
+   * A rule applies to the files of its own folder: unscoped rules to any of them, scoped rules to those
+   * matching a glob. When no file in context belongs to a workspace folder, every unscoped rule applies
+   * @param rules Rules to filter
+   * @param filePaths Absolute or workspace-relative paths of the active file and the files in context
+   * @returns Unscoped rules plus the rules with a glob matching at least one file
+   */
+  selectRules(rules: IProjectRule[], filePaths: string[]): IProjectRule[] {
+    const targets = filePaths
+      .map(filePath => this.toTarget(filePath))
+      .filter((target): target is IRuleTarget => target !== undefined);
+
+    return rules.filter(rule => {
+      const ruleTargets = targets.filter(target => !target.folderUri || target.folderUri === rule.folderUri);
+
+      return rule.globs.length === 0
+        ? targets.length === 0 || ruleTargets.length > 0
+        : rule.globs.some(glob => ruleTargets.some(target => matchesGlob(target.relativePath, glob)));
+    });
+  }
+
+  /**
+   * Read the rule files of one workspace folder
+   * Rules are ordered from the top of the hierarchy down, so nested rules come after general ones
+   */
+  private async loadFolderRules(workspaceFolder: vscode.WorkspaceFolder): Promise<IProjectRule[]> {
+    try {
+      const rulesRoot = vscode.Uri.joinPath(workspaceFolder.uri, ProjectRulesLoader.RULES_DIRECTORY);
+      const files = await vscode.workspace.findFiles(
+        new vscode.RelativePattern(rulesRoot, '**/*.md')
+      );
+
+      const rules: IProjectRule[] = [];
+      for (const file of files) {
+        const bytes = await vscode.workspace.fs.readFile(file);
+        const name = file.path.substring(rulesRoot.path.length + 1);
+        rules.push(parseRule(name, file.fsPath, workspaceFolder.uri.toString(), Buffer.from(bytes).toString('utf8')));
+      }
+
+      return rules
+        .filter(rule => rule.content.length > 0)
+        .sort((a, b) => a.name.split('/').length - b.name.split('/').length || a.name.localeCompare(b.name));
+
+    } catch (error) {
+      throw new RulesException('load', `Failed to load project rules of ${workspaceFolder.name}`, error);
+    }
+  }
+
+  /**
+   * Locate a file for rule matching
+   * @returns Folder and folder-relative path, or undefined for an absolute path outside every folder
+   */
+  private toTarget(filePath: string): IRuleTarget | undefined {
+    if (!path.isAbsolute(filePath)) {
+      return { relativePath: filePath.split(path.sep).join('/') };
+    }
+
+    const workspaceFolder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath));
+    if (!workspaceFolder) {
+      return undefined;
+    }
+
+    return {
+      folderUri: workspaceFolder.uri.toString(),
+      relativePath: path.relative(workspaceFolder.uri.fsPath, filePath).split(path.sep).join('/')
+    };
+  }
+}
+
+/**
+ * Parse a rule file with optional front-matter
+ * @param name Path of the rule relative to the rules directory
+ * @param filePath Absolute path of the rule file
+ * @param folderUri URI of the workspace folder the rule belongs to
+ * @param text Raw file content
+ * @returns Rule with its globs and body
+ */
+export function parseRule(name: string, filePath: string, folderUri: string, text: string): IProjectRule {
+  const match = text.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+  const frontMatter = match ? parseFrontMatter(match[1]) : { globs: [] };
+  const content = (match ? text.substring(match[0].length) : text).trim();
+
+  return { name, filePath, folderUri, description: frontMatter.description, globs: frontMatter.globs, content };
+}
+
+/**
+ * Read the description and globs keys of a small YAML front-matter block
+ * Globs may be a comma-separated string, an inline [a, b] list or a block list
+ */
+function parseFrontMatter(block: string): IRuleFrontMatter {
+  const result: IRuleFrontMatter = { globs: [] };
+  let currentKey = '';
+
+  for (const line of block.split(/\r?\n/)) {
+    const listItem = line.match(/^\s*-\s+(.*)$/);
+    if (listItem && currentKey === 'globs') {
+      result.globs.push(unquote(listItem[1]));
+      continue;
+    }
+
+    const entry = line.match(/^(\w+)\s*:\s*(.*)$/);
+    if (!entry) {
+      continue;
+    }
+
+    currentKey = entry[1];
+    const value = entry[2].trim();
+
+    if (currentKey === 'description') {
+      result.description = unquote(value);
+    } else if (currentKey === 'globs' && value) {
+      result.globs.push(...splitList(value.replace(/^\[|\]$/g, '')).map(unquote));
+    }
+  }
+
+  result.globs = result.globs.filter(glob => glob.length > 0);
+  return result;
+}
+
+/**
+ * Split on commas that are not inside {a,b} alternatives
+ */
+function splitList(value: string): string[] {
+  const items: string[] = [];
+  let depth = 0;
+  let current = '';
+
+  for (const char of value) {
+    if (char === ',' && depth === 0) {
+      items.push(current);
+      current = '';
+      continue;
+    }
+    depth += char === '{' ? 1 : char === '}' ? -1 : 0;
+    current += char;
+  }
+  items.push(current);
+
+  return items;
+}
+
+function unquote(value: string): string {
+  return value.trim().replace(/^(['"])(.*)\1$/, '$2');
+}
@@ -0,0 +1,42 @@
+/**
+ * Types and interfaces for project rules
+ */
+
+export interface IProjectRule {
+  /** Path of the rule relative to the rules directory, e.g. api/errors.md */
+  name: string;
+  filePath: string;
+  /** URI of the workspace folder whose rules directory holds the rule */
+  folderUri: string;
+  description?: string;
+  /** Globs relative to the rule's workspace folder; empty means it applies to the whole folder */
+  globs: string[];
+  content: string;
+}
+
+export interface IRuleFrontMatter {
+  description?: string;
+  globs: string[];
+}
+
+export interface IRuleTarget {
+  /** Workspace folder of the file, or undefined for a path given relative to the workspace */
+  folderUri?: string;
+  relativePath: string;
+}
+
+export interface IAppliedRule {
+  name: string;
+  content: string;
+}
+
+export class RulesException extends Error {
+  constructor(
+    public readonly operation: string,
+    message: string,
+    public readonly details?: any
+  ) {
+    super(message);
+    this.name = 'RulesException';
+  }
+}
@@ -0,0 +1,14 @@
+/**
+ * Assertion shared by the offline test commands
+ */
+
+/**
+ * Throw when a test condition does not hold
+ * @param condition Condition the test expects
+ * @param message What went wrong, reported with the failure
+ */
+export function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
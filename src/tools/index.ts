@@ -0,0 +1,7 @@
+/**
+ * Workspace tools module exports
+ * Provides the tools the model can call to explore the workspace during a chat turn
+ */
+
+export { WorkspaceToolbox } from './workspaceToolbox';
+export * from './types';
@@ -0,0 +1,65 @@
+/**
+ * Types and interfaces for the workspace tools offered to the model
+ */
+
+import * as vscode from 'vscode';
+
+export interface IToolDefinition {
+  name: string;
+  description: string;
+  input_schema: {
+    type: 'object';
+    properties: Record<string, any>;
+    required?: string[];
+  };
+}
+
+export interface IToolCall {
+  id: string;
+  name: string;
+  input: any;
+}
+
+export interface IToolResult {
+  toolUseId: string;
+  content: string;
+  isError: boolean;
+}
+
+export enum ToolStepStatus {
+  RUNNING = 'running',
+  DONE = 'done',
+  FAILED = 'failed'
+}
+
+export interface IToolStep {
+  id: string;
+  name: string;
+  input: any;
+  status: ToolStepStatus;
+  output?: string;
+  durationMs?: number;
+}
+
+export type ToolStepCallback = (step: IToolStep) => void;
+
+export interface IToolExecutor {
+  getDefinitions(): IToolDefinition[];
+  execute(call: IToolCall, token?: vscode.CancellationToken): Promise<IToolResult>;
+}
+
+export interface IToolSession {
+  executor: IToolExecutor;
+  onToolStep?: ToolStepCallback;
+}
+
+export class ToolExecutionException extends Error {
+  constructor(
+    public readonly toolName: string,
+    message: string,
+    public readonly details?: any
+  ) {
+    super(message);
+    this.name = 'ToolExecutionException';
+  }
+}
@@ -0,0 +1,352 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ContextualRetriever } from '../contextual/contextualRetriever';
+import { SpatialAnalyzer } from '../contextual/spatialAnalyzer';
+import { IntelligentMemoryManager } from '../memory/memoryManager';
+import { isCancellationError, throwIfCancelled } from '../api/cancellation';
+import {
+  IToolCall,
+  IToolDefinition,
+  IToolExecutor,
+  IToolResult,
+  ToolExecutionException
+} from './types';
+
+/**
+ * Built-in tools that let the model explore the workspace on its own
+ * Each tool is backed by an existing retrieval, analysis or memory component
+ */
+export class WorkspaceToolbox implements IToolExecutor {
+  private static readonly MAX_OUTPUT_CHARS = 16000;
+  private static readonly MAX_READ_LINES = 400;
+  private static readonly MAX_LISTED_FILES = 200;
+  private static readonly MAX_DIAGNOSTICS = 100;
+  private static readonly PATH_DESCRIPTION =
+    'Path relative to the workspace root, starting with the folder name in a multi-root workspace, as search_code shows it';
+
+  private readonly retriever: ContextualRetriever;
+  private readonly memoryManager: IntelligentMemoryManager;
+  private readonly spatialAnalyzer: SpatialAnalyzer;
+
+  constructor(retriever: ContextualRetriever, memoryManager: IntelligentMemoryManager) {
+    this.retriever = retriever;
+    this.memoryManager = memoryManager;
+    this.spatialAnalyzer = new SpatialAnalyzer();
+  }
+
+  /**
+   * Describe the tools in the Messages API format
+   * @returns Tool definitions sent with each request
+   */
+  getDefinitions(): IToolDefinition[] {
+    return [
+      {
+        name: 'search_code',
+        description: 'Search the indexed workspace for code relevant to a natural-language query. Returns ranked snippets with file paths and line ranges.',
+        input_schema: {
+          type: 'object',
+          properties: {
+            query: { type: 'string', description: 'What to look for, e.g. "where API keys are validated"' },
+            limit: { type: 'integer', description: 'Maximum number of snippets (default 5)' }
+          },
+          required: ['query']
+        }
+      },
+      {
+        name: 'read_file',
+        description: 'Read a workspace file, optionally limited to a 1-based inclusive line range. Lines are prefixed with their numbers.',
+        input_schema: {
+          type: 'object',
+          properties: {
+            path: { type: 'string', description: WorkspaceToolbox.PATH_DESCRIPTION },
+            start_line: { type: 'integer', description: 'First line to read (default 1)' },
+            end_line: { type: 'integer', description: 'Last line to read (default end of file)' }
+          },
+          required: ['path']
+        }
+      },
+      {
+        name: 'list_directory',
+        description: 'List the files in a workspace directory.',
+        input_schema: {
+          type: 'object',
+          properties: {
+            path: { type: 'string', description: `Directory: ${WorkspaceToolbox.PATH_DESCRIPTION} (default every workspace folder)` },
+            recursive: { type: 'boolean', description: 'Include files in subdirectories (default false)' }
+          }
+        }
+      },
+      {
+        name: 'search_memories',
+        description: 'Search memories saved by the developer, such as past decisions, conventions and notes.',
+        input_schema: {
+          type: 'object',
+          properties: {
+            query: { type: 'string', description: 'Words to search for' },
+            limit: { type: 'integer', description: 'Maximum number of memories (default 5)' }
+          },
+          required: ['query']
+        }
+      },
+      {
+        name: 'get_diagnostics',
+        description: 'Get compiler and linter problems reported by the editor, for one file or the whole workspace.',
+        input_schema: {
+          type: 'object',
+          properties: {
+            path: { type: 'string', description: `${WorkspaceToolbox.PATH_DESCRIPTION} (default all files)` }
+          }
+        }
+      }
+    ];
+  }
+
+  /**
+   * Run a tool call requested by the model
+   * Failures are returned as error results so the model can recover
+   * @param call Tool call from the model
+   * @param token Optional token used to abort the call
+   * @returns Tool output
+   */
+  async execute(call: IToolCall, token?: vscode.CancellationToken): Promise<IToolResult> {
+    try {
+      throwIfCancelled(token);
+
+      const input = call.input || {};
+      let content: string;
+
+      switch (call.name) {
+        case 'search_code':
+          content = await this.searchCode(input.query, input.limit, token);
+          break;
+        case 'read_file':
+          content = await this.readFile(input.path, input.start_line, input.end_line);
+          break;
+        case 'list_directory':
+          content = await this.listDirectory(input.path, input.recursive);
+          break;
+        case 'search_memories':
+          content = await this.searchMemories(input.query, input.limit);
+          break;
+        case 'get_diagnostics':
+          content = await this.getDiagnostics(input.path);
+          break;
+        default:
+          throw new ToolExecutionException(call.name, `Unknown tool: ${call.name}`);
+      }
+
+      return { toolUseId: call.id, content: this.truncate(content), isError: false };
+
+    } catch (error) {
+      if (isCancellationError(error)) {
+        throw error;
+      }
+
+      return {
+        toolUseId: call.id,
+        content: error instanceof Error ? error.message : 'Unknown error occurred',
+        isError: true
+      };
+    }
+  }
+
+  /**
+   * Search code through the contextual retriever
+   */
+  private async searchCode(query: string, limit: number = 5, token?: vscode.CancellationToken): Promise<string> {
+    if (!query) {
+      throw new ToolExecutionException('search_code', 'A query is required');
+    }
+
+    const activeFilePath = vscode.window.activeTextEditor?.document.fileName;
+    const results = await this.retriever.search(query, activeFilePath, token);
+
+    if (results.length === 0) {
+      return 'No matching code found. The workspace may not be indexed yet.';
+    }
+
+    return results.slice(0, limit).map(result => {
+      const chunk = result.chunk;
+      return `${this.toRelativePath(chunk.filePath)}:${chunk.startLine}-${chunk.endLine} (score ${result.finalScore.toFixed(2)})\n` +
+        `\`\`\`${chunk.language}\n${chunk.content}\n\`\`\``;
+    }).join('\n\n');
+  }
+
+  /**
+   * Read a file, or a line range of it, with line numbers
+   */
+  private async readFile(filePath: string, startLine?: number, endLine?: number): Promise<string> {
+    const uri = vscode.Uri.file(await this.resolvePath('read_file', filePath));
+    const bytes = await vscode.workspace.fs.readFile(uri);
+    const lines = Buffer.from(bytes).toString('utf8').split('\n');
+
+    const first = Math.max(1, startLine || 1);
+    const requestedLast = Math.min(lines.length, endLine || lines.length);
+    const last = Math.min(requestedLast, first + WorkspaceToolbox.MAX_READ_LINES - 1);
+
+    if (first > lines.length) {
+      throw new ToolExecutionException('read_file', `${filePath} has only ${lines.length} lines`);
+    }
+
+    const numbered = lines
+      .slice(first - 1, last)
+      .map((line, index) => `${first + index}: ${line}`);
+
+    if (last < requestedLast) {
+      numbered.push(`... (stopped at line ${last} of ${lines.length}; request a later start_line to continue)`);
+    }
+
+    return numbered.join('\n');
+  }
+
+  /**
+   * List files through the spatial analyzer
+   * Without a path, the top of every workspace folder is listed
+   */
+  private async listDirectory(directoryPath?: string, recursive: boolean = false): Promise<string> {
+    const directories = directoryPath
+      ? [await this.resolvePath('list_directory', directoryPath)]
+      : (vscode.workspace.workspaceFolders || []).map(folder => folder.uri.fsPath);
+    if (directories.length === 0) {
+      throw new ToolExecutionException('list_directory', 'No workspace folder is open');
+    }
+
+    const files: string[] = [];
+    for (const directory of directories) {
+      files.push(...await this.spatialAnalyzer.getFilesInDirectory(directory, recursive));
+    }
+
+    if (files.length === 0) {
+      return `No files found in ${directoryPath || 'the workspace'}`;
+    }
+
+    const listed = files.map(file => this.toRelativePath(file)).sort();
+    const shown = listed.slice(0, WorkspaceToolbox.MAX_LISTED_FILES);
+
+    if (listed.length > shown.length) {
+      shown.push(`... and ${listed.length - shown.length} more files`);
+    }
+
+    return shown.join('\n');
+  }
+
+  /**
+   * Search saved memories
+   */
+  private async searchMemories(query: string, limit: number = 5): Promise<string> {
+    if (!query) {
+      throw new ToolExecutionException('search_memories', 'A query is required');
+    }
+
+    const results = await this.memoryManager.searchMemories(query);
+
+    if (results.length === 0) {
+      return 'No matching memories found.';
+    }
+
+    return results.slice(0, limit).map(result => {
+      const memory = result.memory;
+      const tags = memory.tags.length > 0 ? ` [${memory.tags.join(', ')}]` : '';
+      return `(${memory.type}${tags}) ${result.snippet || memory.content}`;
+    }).join('\n\n');
+  }
+
+  /**
+   * Format editor diagnostics for one file or the whole workspace
+   */
+  private async getDiagnostics(filePath?: string): Promise<string> {
+    let entries: Array<[vscode.Uri, readonly vscode.Diagnostic[]]>;
+    if (filePath) {
+      const uri = vscode.Uri.file(await this.resolvePath('get_diagnostics', filePath));
+      entries = [[uri, vscode.languages.getDiagnostics(uri)]];
+    } else {
+      entries = vscode.languages.getDiagnostics();
+    }
+
+    const lines: string[] = [];
+    for (const [uri, diagnostics] of entries) {
+      for (const diagnostic of diagnostics) {
+        const position = `${diagnostic.range.start.line + 1}:${diagnostic.range.start.character + 1}`;
+        const severity = vscode.DiagnosticSeverity[diagnostic.severity].toLowerCase();
+        const source = diagnostic.source ? ` (${diagnostic.source})` : '';
+        lines.push(`${this.toRelativePath(uri.fsPath)}:${position} ${severity}: ${diagnostic.message}${source}`);
+      }
+    }
+
+    if (lines.length === 0) {
+      return filePath ? `No problems reported for ${filePath}` : 'No problems reported in the workspace.';
+    }
+
+    const shown = lines.slice(0, WorkspaceToolbox.MAX_DIAGNOSTICS);
+    if (lines.length > shown.length) {
+      shown.push(`... and ${lines.length - shown.length} more problems`);
+    }
+
+    return shown.join('\n');
+  }
+
+  /**
+   * Resolve a path as the tools show it, refusing paths outside the workspace folders
+   * In a multi-root workspace a path starts with its folder's name, as in the Explorer;
+   * a path without one is looked up in every folder and the first folder holding it wins
+   */
+  private async resolvePath(toolName: string, inputPath: string): Promise<string> {
+    const folders = vscode.workspace.workspaceFolders || [];
+    if (folders.length === 0) {
+      throw new ToolExecutionException(toolName, 'No workspace folder is open');
+    }
+    if (!inputPath) {
+      throw new ToolExecutionException(toolName, 'A path is required');
+    }
+
+    const [firstSegment, ...rest] = inputPath.split(/[\\/]/);
+    const namedFolder = folders.length > 1 && !path.isAbsolute(inputPath)
+      ? folders.find(folder => folder.name === firstSegment)
+      : undefined;
+    const targets = namedFolder
+      ? [{ root: namedFolder.uri.fsPath, relativePath: rest.join('/') || '.' }]
+      : folders.map(folder => ({ root: folder.uri.fsPath, relativePath: inputPath }));
+
+    const candidates: string[] = [];
+    for (const { root, relativePath } of targets) {
+      const resolved = path.resolve(root, relativePath);
+      const relative = path.relative(root, resolved);
+      if (!relative.startsWith('..') && !path.isAbsolute(relative)) {
+        candidates.push(resolved);
+      }
+    }
+
+    if (candidates.length === 0) {
+      throw new ToolExecutionException(toolName, `${inputPath} is outside the workspace`);
+    }
+
+    for (const candidate of candidates) {
+      try {
+        await vscode.workspace.fs.stat(vscode.Uri.file(candidate));
+        return candidate;
+      } catch {
+        // Not in this folder
+      }
+    }
+    return candidates[0];
+  }
+
+  /**
+   * Show paths relative to the workspace root when possible, prefixed with the folder name
+   * in a multi-root workspace so resolvePath can find them again
+   */
+  private toRelativePath(filePath: string): string {
+    return vscode.workspace.asRelativePath(filePath, (vscode.workspace.workspaceFolders || []).length > 1);
+  }
+
+  /**
+   * Keep tool output within a size the model can use
+   */
+  private truncate(content: string): string {
+    if (content.length <= WorkspaceToolbox.MAX_OUTPUT_CHARS) {
+      return content;
+    }
+
+    return `${content.substring(0, WorkspaceToolbox.MAX_OUTPUT_CHARS)}\n... (output truncated)`;
+  }
+}
@@ -0,0 +1,8 @@
+/**
+ * Usage ledger module exports
+ * Provides token and cost accounting, budgets and the usage report
+ */
+
+export { UsageLedger } from './usageLedger';
+export { formatUsageReport, formatCost } from './usageReport';
+export * from './types';
@@ -0,0 +1,87 @@
+/**
+ * Types and interfaces for the token usage ledger
+ */
+
+export interface IUsageRecord {
+  id: string;
+  timestamp: number;
+  day: string;
+  workspace: string;
+  conversationId: string;
+  provider: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  cacheWriteTokens?: number;
+  cacheReadTokens?: number;
+  cost: number;
+}
+
+export interface IUsageEntry {
+  conversationId: string;
+  provider: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  cacheWriteTokens?: number;
+  cacheReadTokens?: number;
+  cost: number;
+}
+
+export interface IUsageTotals {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+}
+
+export interface IUsageReport {
+  total: IUsageTotals;
+  byDay: Record<string, IUsageTotals>;
+  byWorkspace: Record<string, IUsageTotals>;
+  byConversation: Record<string, IUsageTotals>;
+  byModel: Record<string, IUsageTotals>;
+}
+
+export interface IMessageUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheWriteTokens: number;
+  cacheReadTokens: number;
+  cost: number;
+}
+
+export enum BudgetPeriod {
+  DAY = 'day',
+  MONTH = 'month'
+}
+
+export enum BudgetStatus {
+  OK = 'ok',
+  SOFT_LIMIT_EXCEEDED = 'softLimitExceeded',
+  HARD_LIMIT_EXCEEDED = 'hardLimitExceeded'
+}
+
+export interface IBudgetConfig {
+  period: BudgetPeriod;
+  softLimit: number;
+  hardLimit: number;
+}
+
+export interface IBudgetCheck {
+  status: BudgetStatus;
+  period: BudgetPeriod;
+  spent: number;
+  limit: number;
+}
+
+export class UsageException extends Error {
+  constructor(
+    public readonly operation: string,
+    message: string,
+    public readonly details?: any
+  ) {
+    super(message);
+    this.name = 'UsageException';
+  }
+}
@@ -0,0 +1,291 @@
+import * as vscode from 'vscode';
+import {
+  BudgetPeriod,
+  BudgetStatus,
+  IBudgetCheck,
+  IBudgetConfig,
+  IUsageEntry,
+  IUsageRecord,
+  IUsageReport,
+  IUsageTotals,
+  UsageException
+} from './types';
+
+/**
+ * Persistent ledger of token usage and cost
+ * Records every completed request and aggregates it per day, workspace, conversation and model.
+ * Every window writes the same ledger file, so each save merges this window's new records into
+ * what is on disk rather than overwriting it
+ */
+export class UsageLedger {
+  private static readonly RETENTION_DAYS = 365;
+
+  private readonly storageUri: vscode.Uri;
+  private records: IUsageRecord[] = [];
+  /** Records of this window not yet written to the ledger file */
+  private unsaved: IUsageRecord[] = [];
+  private initialized = false;
+  private pendingSave: Promise<void> = Promise.resolve();
+
+  constructor(globalStorageUri: vscode.Uri) {
+    this.storageUri = vscode.Uri.joinPath(globalStorageUri, 'usage');
+  }
+
+  /**
+   * Load the ledger from storage
+   */
+  async initialize(): Promise<void> {
+    if (this.initialized) {
+      return;
+    }
+
+    try {
+      try {
+        await vscode.workspace.fs.stat(this.storageUri);
+      } catch {
+        await vscode.workspace.fs.createDirectory(this.storageUri);
+      }
+
+      await this.loadRecords();
+      this.initialized = true;
+
+    } catch (error) {
+      throw new UsageException('initialize', 'Failed to initialize usage ledger', error);
+    }
+  }
+
+  /**
+   * Record the usage of one completed request
+   * @param entry Tokens, cost and origin of the request
+   * @returns Stored record
+   */
+  async record(entry: IUsageEntry): Promise<IUsageRecord> {
+    await this.initialize();
+
+    const now = new Date();
+    const record: IUsageRecord = {
+      id: `usage_${now.getTime()}_${Math.random().toString(36).substr(2, 9)}`,
+      timestamp: now.getTime(),
+      day: this.toDay(now),
+      workspace: this.getWorkspaceName(),
+      ...entry
+    };
+
+    this.records.push(record);
+    this.unsaved.push(record);
+    await this.saveRecords();
+
+    return record;
+  }
+
+  /**
+   * Aggregate all records
+   * @returns Totals overall and per day, workspace, conversation and model
+   */
+  async getReport(): Promise<IUsageReport> {
+    await this.initialize();
+    await this.syncRecords();
+
+    const report: IUsageReport = {
+      total: this.emptyTotals(),
+      byDay: {},
+      byWorkspace: {},
+      byConversation: {},
+      byModel: {}
+    };
+
+    for (const record of this.records) {
+      this.addToTotals(report.total, record);
+      this.addToTotals(report.byDay[record.day] = report.byDay[record.day] || this.emptyTotals(), record);
+      this.addToTotals(report.byWorkspace[record.workspace] = report.byWorkspace[record.workspace] || this.emptyTotals(), record);
+      this.addToTotals(report.byConversation[record.conversationId] = report.byConversation[record.conversationId] || this.emptyTotals(), record);
+      this.addToTotals(report.byModel[record.model] = report.byModel[record.model] || this.emptyTotals(), record);
+    }
+
+    return report;
+  }
+
+  /**
+   * Totals of a single conversation
+   * @param conversationId Conversation to sum
+   */
+  async getConversationTotals(conversationId: string): Promise<IUsageTotals> {
+    await this.initialize();
+
+    const totals = this.emptyTotals();
+    for (const record of this.records) {
+      if (record.conversationId === conversationId) {
+        this.addToTotals(totals, record);
+      }
+    }
+
+    return totals;
+  }
+
+  /**
+   * Compare spending in the current budget period with the configured limits
+   * @returns Budget status; limits of 0 are disabled
+   */
+  async checkBudget(): Promise<IBudgetCheck> {
+    await this.initialize();
+    await this.syncRecords();
+
+    const budget = this.loadBudgetConfig();
+    const periodStart = this.getPeriodStart(budget.period);
+    const spent = this.records
+      .filter(record => record.timestamp >= periodStart)
+      .reduce((sum, record) => sum + record.cost, 0);
+
+    if (budget.hardLimit > 0 && spent >= budget.hardLimit) {
+      return { status: BudgetStatus.HARD_LIMIT_EXCEEDED, period: budget.period, spent, limit: budget.hardLimit };
+    }
+
+    if (budget.softLimit > 0 && spent >= budget.softLimit) {
+      return { status: BudgetStatus.SOFT_LIMIT_EXCEEDED, period: budget.period, spent, limit: budget.softLimit };
+    }
+
+    return { status: BudgetStatus.OK, period: budget.period, spent, limit: budget.hardLimit || budget.softLimit };
+  }
+
+  /**
+   * Remove all records
+   */
+  async clear(): Promise<void> {
+    await this.initialize();
+
+    this.records = [];
+    this.unsaved = [];
+    await this.saveRecords(true);
+  }
+
+  /**
+   * Start of the current day or month in local time
+   */
+  private getPeriodStart(period: BudgetPeriod): number {
+    const now = new Date();
+
+    return period === BudgetPeriod.MONTH
+      ? new Date(now.getFullYear(), now.getMonth(), 1).getTime()
+      : new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+  }
+
+  /**
+   * Drop records older than the retention window
+   */
+  private pruneOldRecords(records: IUsageRecord[]): IUsageRecord[] {
+    const cutoff = Date.now() - UsageLedger.RETENTION_DAYS * 24 * 60 * 60 * 1000;
+    return records.filter(record => record.timestamp >= cutoff);
+  }
+
+  private addToTotals(totals: IUsageTotals, record: IUsageRecord): void {
+    totals.requests++;
+    totals.inputTokens += record.inputTokens;
+    totals.outputTokens += record.outputTokens;
+    totals.cost += record.cost;
+  }
+
+  private emptyTotals(): IUsageTotals {
+    return { requests: 0, inputTokens: 0, outputTokens: 0, cost: 0 };
+  }
+
+  /**
+   * Local calendar day, e.g. 2025-06-30
+   */
+  private toDay(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+  }
+
+  private getWorkspaceName(): string {
+    return vscode.workspace.name || 'No workspace';
+  }
+
+  /**
+   * Load records from storage
+   */
+  private async loadRecords(): Promise<void> {
+    this.records = await this.readRecords();
+  }
+
+  /**
+   * Read the ledger file as other windows have left it
+   */
+  private async readRecords(): Promise<IUsageRecord[]> {
+    try {
+      const data = await vscode.workspace.fs.readFile(this.getLedgerFile());
+      const records = JSON.parse(new TextDecoder().decode(data));
+
+      return Array.isArray(records) ? records : [];
+
+    } catch (error) {
+      // File doesn't exist or is corrupted, start with an empty ledger
+      return [];
+    }
+  }
+
+  /**
+   * Pick up records other windows have saved since this window last read the ledger
+   */
+  private syncRecords(): Promise<void> {
+    this.pendingSave = this.pendingSave.then(async () => {
+      this.records = this.mergeRecords(await this.readRecords());
+    });
+
+    return this.pendingSave;
+  }
+
+  /**
+   * Save records to storage, one write at a time
+   * The ledger file is re-read inside the queue and this window's unsaved records added to it,
+   * so records saved by other windows in the meantime are kept
+   * @param replace Write this window's records as they are, e.g. after clearing the ledger
+   */
+  private saveRecords(replace: boolean = false): Promise<void> {
+    this.pendingSave = this.pendingSave.then(async () => {
+      try {
+        const records = this.pruneOldRecords(replace ? this.records : this.mergeRecords(await this.readRecords()));
+        const ledgerFile = this.getLedgerFile();
+        const tempFile = vscode.Uri.joinPath(this.storageUri, `ledger.json.${process.pid}.tmp`);
+
+        await vscode.workspace.fs.writeFile(tempFile, new TextEncoder().encode(JSON.stringify(records)));
+        await vscode.workspace.fs.rename(tempFile, ledgerFile, { overwrite: true });
+
+        this.records = records;
+        this.unsaved = [];
+
+      } catch (error) {
+        console.error('Failed to save usage ledger:', error);
+      }
+    });
+
+    return this.pendingSave;
+  }
+
+  /**
+   * Records on disk plus the unsaved records of this window
+   */
+  private mergeRecords(stored: IUsageRecord[]): IUsageRecord[] {
+    const ids = new Set(stored.map(record => record.id));
+    const merged = stored.concat(this.unsaved.filter(record => !ids.has(record.id)));
+
+    return merged.sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  private getLedgerFile(): vscode.Uri {
+    return vscode.Uri.joinPath(this.storageUri, 'ledger.json');
+  }
+
+  /**
+   * Load budget limits from settings
+   */
+  private loadBudgetConfig(): IBudgetConfig {
+    const config = vscode.workspace.getConfiguration('codeAssist');
+
+    return {
+      period: config.get<BudgetPeriod>('budget.period', BudgetPeriod.DAY),
+      softLimit: config.get<number>('budget.softLimit', 0),
+      hardLimit: config.get<number>('budget.hardLimit', 0)
+    };
+  }
+}
@@ -0,0 +1,78 @@
+import { BudgetStatus, IBudgetCheck, IUsageReport, IUsageTotals } from './types';
+
+/**
+ * Format the usage report as a markdown document
+ * @param report Aggregated usage
+ * @param budget Current budget status
+ * @returns Markdown text
+ */
+export function formatUsageReport(report: IUsageReport, budget: IBudgetCheck): string {
+  const lines: string[] = [
+    '# 📊 Token Usage Report',
+    '',
+    `**Total:** ${formatTotals(report.total)}`,
+    '',
+    `**Budget (${budget.period}):** ${formatBudget(budget)}`,
+    ''
+  ];
+
+  lines.push(...formatSection('📅 By Day', report.byDay, (a, b) => b.localeCompare(a)));
+  lines.push(...formatSection('🗂️ By Workspace', report.byWorkspace));
+  lines.push(...formatSection('🤖 By Model', report.byModel));
+  lines.push(...formatSection('💬 By Conversation', report.byConversation));
+
+  return lines.join('\n');
+}
+
+/**
+ * Format a cost in US dollars with enough precision for small requests
+ */
+export function formatCost(cost: number): string {
+  return cost < 0.01 && cost > 0 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+}
+
+function formatSection(
+  title: string,
+  groups: Record<string, IUsageTotals>,
+  compareKeys?: (a: string, b: string) => number
+): string[] {
+  const keys = Object.keys(groups);
+  if (keys.length === 0) {
+    return [];
+  }
+
+  // Largest spend first unless an order is given
+  keys.sort(compareKeys || ((a, b) => groups[b].cost - groups[a].cost));
+
+  return [
+    `## ${title}`,
+    '',
+    '| | Requests | Input tokens | Output tokens | Cost |',
+    '|---|---:|---:|---:|---:|',
+    ...keys.map(key => {
+      const totals = groups[key];
+      return `| ${key} | ${totals.requests} | ${totals.inputTokens.toLocaleString()} | ${totals.outputTokens.toLocaleString()} | ${formatCost(totals.cost)} |`;
+    }),
+    ''
+  ];
+}
+
+function formatTotals(totals: IUsageTotals): string {
+  return `${totals.requests} requests • ${totals.inputTokens.toLocaleString()} input tokens • ` +
+    `${totals.outputTokens.toLocaleString()} output tokens • ${formatCost(totals.cost)}`;
+}
+
+function formatBudget(budget: IBudgetCheck): string {
+  if (budget.limit === 0) {
+    return `${formatCost(budget.spent)} spent, no limit configured`;
+  }
+
+  switch (budget.status) {
+    case BudgetStatus.HARD_LIMIT_EXCEEDED:
+      return `⛔ ${formatCost(budget.spent)} spent, hard limit of ${formatCost(budget.limit)} reached`;
+    case BudgetStatus.SOFT_LIMIT_EXCEEDED:
+      return `⚠️ ${formatCost(budget.spent)} spent, soft limit of ${formatCost(budget.limit)} exceeded`;
+    default:
+      return `${formatCost(budget.spent)} of ${formatCost(budget.limit)}`;
+  }
+}
@@ -1,24 +1,37 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
+import * as crypto from 'crypto';
 import { TransformersEmbeddingProvider } from './vectoring/embeddingProvider';
 import { CodeParser } from './vectoring/codeParser';
-import { FileVectorStore } from './vectoring/vectorStore';
+import { FolderIndex } from './vectoring/folderIndex';
+import { migrateSharedIndex } from './vectoring/sharedIndexMigration';
+import { loadAnnConfig } from './vectoring/hnswIndex';
+import { benchmarkVectorSearch } from './vectoring/annBenchmark';
+import { reciprocalRankFusion } from './vectoring/lexicalIndex';
 import { ContextualRetriever } from './contextual/contextualRetriever';
 import {
   IVectorDatabase,
   ISearchResult,
   IIndexStats,
+  IRelevantCode,
   IIndexingProgress,
   IndexingStatus,
-  ICodeChunk,
+  IAnnBenchmarkResult,
+  IExclusionExplanation,
+  IFolderIndexStats,
+  IVectorEntry,
   VectoringException
 } from './vectoring/types';
 import { IContextualSearchConfig } from './contextual/types';
+import { isCancellationError, throwIfCancelled } from './api/cancellation';
+import { matchesGlob } from './rules/globMatcher';
+import { getWorkspaceIgnore } from './ignore';
 
-export class VectorDatabase implements IVectorDatabase {
+export class VectorDatabase implements IVectorDatabase, vscode.Disposable {
   private readonly storageUri: vscode.Uri;
   private readonly embeddingProvider: TransformersEmbeddingProvider;
-  private readonly vectorStore: FileVectorStore;
+  /** Index of each workspace folder, keyed by folder URI */
+  private readonly folderIndexes: Map<string, Promise<FolderIndex>> = new Map();
   private readonly contextualRetriever: ContextualRetriever;
   private isInitialized = false;
   private indexingProgress: IIndexingProgress | null = null;
@@ -36,7 +49,8 @@ export class VectorDatabase implements IVectorDatabase {
       '**/.git/**',
       '**/coverage/**',
       '**/*.min.js',
-      '**/*.map'
+      '**/*.map',
+      '**/package-lock.json'
     ],
     includePatterns: [
       '**/*.ts',
@@ -49,9 +63,14 @@ export class VectorDatabase implements IVectorDatabase {
       '**/*.cpp',
       '**/*.c',
       '**/*.go',
-      '**/*.rs'
+      '**/*.rs',
+      '**/*.md',
+      '**/*.json',
+      '**/*.yaml',
+      '**/*.yml',
+      '**/*.ipynb'
     ],
-    supportedLanguages: ['typescript', 'javascript', 'python', 'java', 'csharp', 'cpp', 'c', 'go', 'rust'],
+    supportedLanguages: ['typescript', 'javascript', 'python', 'java', 'csharp', 'cpp', 'c', 'go', 'rust', 'markdown', 'json', 'yaml', 'jupyter'],
     similarityThreshold: 0.7,
     maxResults: 10
   };
@@ -59,7 +78,6 @@ export class VectorDatabase implements IVectorDatabase {
   constructor(globalStorageUri: vscode.Uri) {
     this.storageUri = vscode.Uri.joinPath(globalStorageUri, 'vectordb');
     this.embeddingProvider = new TransformersEmbeddingProvider('Xenova/all-MiniLM-L6-v2');
-    this.vectorStore = new FileVectorStore(this.storageUri);
 
     // Initialize contextual retriever with optimized configuration
     const contextualConfig: Partial<IContextualSearchConfig> = {
@@ -93,7 +111,9 @@ export class VectorDatabase implements IVectorDatabase {
 
       // Initialize components
       await this.embeddingProvider.initialize();
-      await this.vectorStore.initialize();
+      await migrateSharedIndex(this.storageUri, filePath => this.getFolderIndexOf(filePath));
+      await this.getFolderIndexes();
+      await getWorkspaceIgnore().load();
 
       this.isInitialized = true;
 
@@ -107,15 +127,18 @@ export class VectorDatabase implements IVectorDatabase {
   }
 
   /**
-   * Index entire workspace
+   * Index every workspace folder, or the folder containing the given path
    */
   async indexWorkspace(workspacePath?: string): Promise<void> {
     if (!this.isInitialized) {
       await this.initialize();
     }
 
-    const workspaceFolder = workspacePath || vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
-    if (!workspaceFolder) {
+    const requestedFolder = workspacePath && vscode.workspace.getWorkspaceFolder(vscode.Uri.file(workspacePath));
+    const workspaceFolders = workspacePath
+      ? (requestedFolder ? [requestedFolder] : [])
+      : vscode.workspace.workspaceFolders || [];
+    if (workspaceFolders.length === 0) {
       throw new VectoringException('indexWorkspace', 'No workspace folder found');
     }
 
@@ -132,7 +155,12 @@ export class VectorDatabase implements IVectorDatabase {
       vscode.window.showInformationMessage('📊 Scanning workspace for files to index...');
 
       // Find all files to index
-      const files = await this.findFilesToIndex(workspaceFolder);
+      const files: string[] = [];
+      for (const workspaceFolder of workspaceFolders) {
+        const folderFiles = await this.findFilesToIndex(workspaceFolder.uri.fsPath);
+        await this.removeMissingFiles(await this.getFolderIndex(workspaceFolder), folderFiles);
+        files.push(...folderFiles);
+      }
 
       this.indexingProgress.totalFiles = files.length;
       this.indexingProgress.status = IndexingStatus.PROCESSING;
@@ -163,45 +191,67 @@ export class VectorDatabase implements IVectorDatabase {
 
   /**
    * Index a single file
+   * Unchanged files are skipped, and only chunks whose text changed are embedded again
+   * @returns True if the file was (re-)indexed, false if its content had not changed
    */
-  async indexFile(filePath: string): Promise<void> {
+  async indexFile(filePath: string): Promise<boolean> {
     if (!this.isInitialized) {
       await this.initialize();
     }
 
     try {
+      const folderIndex = await this.getFolderIndexOf(filePath);
+      if (!folderIndex) {
+        throw new VectoringException('indexFile', `${filePath} is not in a workspace folder`);
+      }
+      const relativePath = folderIndex.toRelative(filePath);
       const fileUri = vscode.Uri.file(filePath);
 
       // Read file content
       const content = await vscode.workspace.fs.readFile(fileUri);
       const text = new TextDecoder().decode(content);
 
-      // Parse file into chunks
-      const parser = CodeParser.getParserForFile(filePath);
-      const chunks = await parser.parseFile(text, filePath);
+      const fileHash = hashContent(text);
+      if (await folderIndex.chunkStore.getFileHash(relativePath) === fileHash) {
+        return false;
+      }
 
-      if (chunks.length === 0) {
-        return; // No meaningful content to index
+      // Parse file into chunks; chunks and their IDs are built from the folder-relative path
+      const parser = CodeParser.getParserForFile(filePath);
+      const chunks = await parser.parseFile(text, relativePath);
+
+      // Vectors of the previous version, keyed by chunk text, can be reused as they are
+      const previousIds = await folderIndex.chunkStore.getChunkIds(relativePath);
+      const previousChunks = await folderIndex.chunkStore.get(previousIds);
+      const previousVectors = await folderIndex.vectorStore.getByChunkIds(previousIds);
+      const reusableVectors = new Map<string, number[]>();
+      for (const [chunkId, chunk] of previousChunks) {
+        const entry = previousVectors.get(chunkId);
+        if (entry) {
+          reusableVectors.set(hashContent(chunk.content), entry.vector);
+        }
       }
 
-      // Generate embeddings for chunks
-      const embeddings = await this.embeddingProvider.embedBatch(
-        chunks.map(chunk => chunk.content)
-      );
+      const changedChunks = chunks.filter(chunk => !reusableVectors.has(hashContent(chunk.content)));
+      const embeddings = changedChunks.length > 0
+        ? await this.embeddingProvider.embedBatch(changedChunks.map(chunk => chunk.content))
+        : [];
+      changedChunks.forEach((chunk, index) => reusableVectors.set(hashContent(chunk.content), embeddings[index]));
 
       // Create vector entries
-      const vectorEntries = chunks.map((chunk, index) => ({
+      const vectorEntries = chunks.map(chunk => ({
         id: `${chunk.id}_vector`,
         chunkId: chunk.id,
-        vector: embeddings[index]
+        vector: reusableVectors.get(hashContent(chunk.content))!
       }));
 
-      // Store vectors
-      await this.vectorStore.store(vectorEntries);
+      await folderIndex.replaceFile(relativePath, chunks, vectorEntries, fileHash, parser.language);
 
       // Update temporal information for contextual retrieval
       await this.contextualRetriever.updateFileModificationTime(filePath);
 
+      return true;
+
     } catch (error) {
       throw new VectoringException('indexFile', `Failed to index file ${filePath}`, error);
     }
@@ -209,48 +259,77 @@ export class VectorDatabase implements IVectorDatabase {
 
   /**
    * Search for relevant code based on query
+   * Semantic and lexical (BM25) matches are merged by reciprocal rank fusion,
+   * so exact identifiers are found even when their embedding is not close to the query's.
+   * Every workspace folder is searched; matches are ranked together before fusion
    */
-  async search(query: string, limit: number = 10): Promise<ISearchResult[]> {
+  async search(query: string, limit: number = 10, token?: vscode.CancellationToken): Promise<ISearchResult[]> {
     if (!this.isInitialized) {
       await this.initialize();
     }
 
     try {
+      throwIfCancelled(token);
+
       // Generate embedding for query
       const queryVector = await this.embeddingProvider.embed(query);
+      throwIfCancelled(token);
+
+      // Chunk IDs are only unique within a folder, so matches are keyed by folder and chunk
+      const sources = new Map<string, { folderIndex: FolderIndex; chunkId: string }>();
+      const semanticMatches: Array<{ key: string; similarity: number }> = [];
+      const lexicalMatches: Array<{ key: string; score: number }> = [];
+
+      for (const folderIndex of await this.getFolderIndexes()) {
+        const keyOf = (chunkId: string) => {
+          const key = `${folderIndex.key}#${chunkId}`;
+          sources.set(key, { folderIndex, chunkId });
+          return key;
+        };
+
+        // Get more results for filtering
+        for (const entry of await folderIndex.vectorStore.search(queryVector, limit * 2)) {
+          if ((entry.similarity || 0) >= this.config.similarityThreshold) {
+            semanticMatches.push({ key: keyOf(entry.chunkId), similarity: entry.similarity || 0 });
+          }
+        }
+        // BM25 statistics differ between folders, which is close enough for ranking
+        for (const match of folderIndex.lexicalIndex.search(query, limit * 2)) {
+          lexicalMatches.push({ key: keyOf(match.chunkId), score: match.score });
+        }
+      }
 
-      // Search vector store
-      const vectorResults = await this.vectorStore.search(queryVector, limit * 2); // Get more results for filtering
+      semanticMatches.sort((a, b) => b.similarity - a.similarity);
+      lexicalMatches.sort((a, b) => b.score - a.score);
 
-      // Filter by similarity threshold and convert to search results
+      // Fuse both rankings and hydrate results from the chunk stores
+      const fused = reciprocalRankFusion([
+        semanticMatches.slice(0, limit * 2).map(match => match.key),
+        lexicalMatches.slice(0, limit * 2).map(match => match.key)
+      ]).slice(0, limit);
+      const similarities = new Map(semanticMatches.map(match => [match.key, match.similarity]));
       const results: ISearchResult[] = [];
 
-      for (const vectorEntry of vectorResults) {
-        if ((vectorEntry.similarity || 0) >= this.config.similarityThreshold) {
-          // Find the corresponding chunk (in a real implementation, you'd store chunk data separately)
-          // For now, we'll create a minimal result
-          const result: ISearchResult = {
-            chunk: {
-              id: vectorEntry.chunkId,
-              filePath: '', // Would be retrieved from chunk storage
-              content: '', // Would be retrieved from chunk storage
-              startLine: 0,
-              endLine: 0,
-              language: '',
-              type: 'block' as any,
-              metadata: { lastModified: Date.now() }
-            },
-            similarity: vectorEntry.similarity || 0,
-            relevanceScore: vectorEntry.similarity || 0
-          };
-
-          results.push(result);
+      for (const match of fused) {
+        const { folderIndex, chunkId } = sources.get(match.id)!;
+        const chunk = (await folderIndex.getChunks([chunkId])).get(chunkId);
+        if (!chunk) {
+          continue; // Vector left over from an index built before chunks were stored
         }
+
+        results.push({
+          chunk,
+          similarity: similarities.get(match.id) || 0,
+          relevanceScore: match.score
+        });
       }
 
       return results.slice(0, limit);
 
     } catch (error) {
+      if (isCancellationError(error)) {
+        throw error;
+      }
       throw new VectoringException('search', 'Failed to search vector database', error);
     }
   }
@@ -258,16 +337,24 @@ export class VectorDatabase implements IVectorDatabase {
   /**
    * Get relevant code snippets for a query using contextual retrieval
    */
-  async getRelevantCode(query: string, limit: number = 5): Promise<string[]> {
+  async getRelevantCode(query: string, limit: number = 5, token?: vscode.CancellationToken): Promise<string[]> {
+    return (await this.getRelevantContext(query, limit, token)).snippets;
+  }
+
+  /**
+   * Get relevant code snippets together with the files they come from
+   */
+  async getRelevantContext(query: string, limit: number = 5, token?: vscode.CancellationToken): Promise<IRelevantCode> {
     try {
       const activeEditor = vscode.window.activeTextEditor;
       const activeFilePath = activeEditor?.document.fileName;
 
       // Use contextual retriever for intelligent context selection
-      const contextualResults = await this.contextualRetriever.search(query, activeFilePath);
+      const contextualResults = await this.contextualRetriever.search(query, activeFilePath, token);
 
       // Convert to context strings with relevance information
       const contextStrings: string[] = [];
+      const filePaths = new Set<string>();
 
       for (let i = 0; i < Math.min(limit, contextualResults.length); i++) {
         const result = contextualResults[i];
@@ -291,25 +378,36 @@ export class VectorDatabase implements IVectorDatabase {
 
         contextString += chunk.content;
         contextStrings.push(contextString);
+        filePaths.add(chunk.filePath);
       }
 
-      return contextStrings;
+      return { snippets: contextStrings, filePaths: [...filePaths] };
 
     } catch (error) {
+      if (isCancellationError(error)) {
+        throw error;
+      }
+
       console.error('Failed to get relevant code:', error);
       // Fallback to basic search
       try {
-        const results = await this.search(query, limit);
-        return results.map(result => result.chunk.content).filter(content => content.length > 0);
+        const results = await this.search(query, limit, token);
+        return {
+          snippets: results.map(result => result.chunk.content).filter(content => content.length > 0),
+          filePaths: [...new Set(results.map(result => result.chunk.filePath))]
+        };
       } catch (fallbackError) {
+        if (isCancellationError(fallbackError)) {
+          throw fallbackError;
+        }
         console.error('Fallback search also failed:', fallbackError);
-        return [];
+        return { snippets: [], filePaths: [] };
       }
     }
   }
 
   /**
-   * Delete indexed data for a file
+   * Delete indexed data for a file, or for every file below a deleted folder
    */
   async deleteFile(filePath: string): Promise<void> {
     if (!this.isInitialized) {
@@ -317,11 +415,18 @@ export class VectorDatabase implements IVectorDatabase {
     }
 
     try {
-      // Find chunks for this file
-      const fileName = path.basename(filePath);
-      const chunkIds = [fileName]; // Simplified - would need proper chunk ID tracking
+      const folderIndex = await this.getFolderIndexOf(filePath);
+      if (!folderIndex) {
+        return;
+      }
 
-      await this.vectorStore.delete(chunkIds);
+      const relativePath = folderIndex.toRelative(filePath);
+      const folderPrefix = relativePath ? `${relativePath}/` : '';
+      for (const indexedPath of await folderIndex.chunkStore.getIndexedFiles()) {
+        if (indexedPath === relativePath || indexedPath.startsWith(folderPrefix)) {
+          await folderIndex.removeFile(indexedPath);
+        }
+      }
 
     } catch (error) {
       throw new VectoringException('deleteFile', `Failed to delete file ${filePath}`, error);
@@ -337,7 +442,9 @@ export class VectorDatabase implements IVectorDatabase {
     }
 
     try {
-      await this.vectorStore.clear();
+      for (const folderIndex of await this.getFolderIndexes()) {
+        await folderIndex.clear();
+      }
       vscode.window.showInformationMessage('🗑️ Vector database cleared successfully');
     } catch (error) {
       throw new VectoringException('clear', 'Failed to clear vector database', error);
@@ -345,7 +452,7 @@ export class VectorDatabase implements IVectorDatabase {
   }
 
   /**
-   * Get database statistics
+   * Get database statistics, in total and per workspace folder
    */
   async getStats(): Promise<IIndexStats> {
     if (!this.isInitialized) {
@@ -353,14 +460,25 @@ export class VectorDatabase implements IVectorDatabase {
     }
 
     try {
-      const storeStats = await this.vectorStore.getStats();
+      const folders: IFolderIndexStats[] = [];
+      for (const folderIndex of await this.getFolderIndexes()) {
+        folders.push(await folderIndex.getStats());
+      }
+
+      const languages: Record<string, number> = {};
+      for (const folder of folders) {
+        for (const [language, count] of Object.entries(folder.languages)) {
+          languages[language] = (languages[language] || 0) + count;
+        }
+      }
 
       return {
-        totalChunks: storeStats.size,
-        totalFiles: 0, // Would need to track this separately
-        indexSize: storeStats.storageSize,
-        lastUpdated: storeStats.lastUpdated,
-        languages: {} // Would need to track this separately
+        totalChunks: folders.reduce((total, folder) => total + folder.totalChunks, 0),
+        totalFiles: folders.reduce((total, folder) => total + folder.totalFiles, 0),
+        indexSize: folders.reduce((total, folder) => total + folder.indexSize, 0),
+        lastUpdated: Math.max(0, ...folders.map(folder => folder.lastUpdated)),
+        languages,
+        folders
       };
 
     } catch (error) {
@@ -369,7 +487,8 @@ export class VectorDatabase implements IVectorDatabase {
         totalFiles: 0,
         indexSize: 0,
         lastUpdated: Date.now(),
-        languages: {}
+        languages: {},
+        folders: []
       };
     }
   }
@@ -381,6 +500,117 @@ export class VectorDatabase implements IVectorDatabase {
     return this.indexingProgress;
   }
 
+  /**
+   * Whether a file matches the indexed languages and is not excluded by a pattern or an ignore file
+   * @param filePath Absolute file path
+   */
+  isIndexable(filePath: string): boolean {
+    return !this.getExclusion(filePath).excluded;
+  }
+
+  /**
+   * Explain whether a file is indexed and, if not, which pattern or ignore rule excludes it
+   * @param filePath Absolute file path
+   */
+  async explainExclusion(filePath: string): Promise<IExclusionExplanation> {
+    await getWorkspaceIgnore().load();
+    return this.getExclusion(filePath);
+  }
+
+  private getExclusion(filePath: string): IExclusionExplanation {
+    const workspaceFolder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath));
+    if (!workspaceFolder) {
+      return { excluded: true, reason: 'it is outside the workspace folders' };
+    }
+
+    const relativePath = path.relative(workspaceFolder.uri.fsPath, filePath);
+    const excludePattern = this.config.excludePatterns.find(pattern => matchesGlob(relativePath, pattern));
+    if (excludePattern) {
+      return { excluded: true, reason: `it matches the built-in exclude pattern ${excludePattern}` };
+    }
+
+    const decision = getWorkspaceIgnore().explain(filePath);
+    const rule = decision.rule;
+    const location = rule && `${vscode.workspace.asRelativePath(rule.sourceFile)}:${rule.line}`;
+    if (decision.ignored && rule) {
+      return {
+        excluded: true,
+        reason: decision.excludedDirectory
+          ? `its directory ${decision.excludedDirectory}/ is ignored by "${rule.pattern}" (${location})`
+          : `it is ignored by "${rule.pattern}" (${location})`
+      };
+    }
+
+    if (!this.config.includePatterns.some(pattern => matchesGlob(relativePath, pattern))) {
+      return { excluded: true, reason: 'its file type is not indexed' };
+    }
+
+    return {
+      excluded: false,
+      reason: rule ? `it is re-included by "${rule.pattern}" (${location})` : 'no pattern or ignore rule excludes it'
+    };
+  }
+
+  /**
+   * Forget indexed files of a workspace folder that no longer exist or are now excluded
+   */
+  private async removeMissingFiles(folderIndex: FolderIndex, files: string[]): Promise<void> {
+    const current = new Set(files.map(filePath => folderIndex.toRelative(filePath)));
+
+    for (const relativePath of await folderIndex.chunkStore.getIndexedFiles()) {
+      if (!current.has(relativePath)) {
+        await folderIndex.removeFile(relativePath);
+      }
+    }
+  }
+
+  /**
+   * Indexes of the current workspace folders, opened on first use
+   * Indexes of folders removed from the workspace are closed but kept on disk
+   */
+  private async getFolderIndexes(): Promise<FolderIndex[]> {
+    const workspaceFolders = vscode.workspace.workspaceFolders || [];
+    const current = new Set(workspaceFolders.map(folder => folder.uri.toString()));
+
+    for (const key of [...this.folderIndexes.keys()]) {
+      if (!current.has(key)) {
+        this.folderIndexes.delete(key);
+      }
+    }
+
+    return Promise.all(workspaceFolders.map(folder => this.getFolderIndex(folder)));
+  }
+
+  private getFolderIndex(workspaceFolder: vscode.WorkspaceFolder): Promise<FolderIndex> {
+    const key = workspaceFolder.uri.toString();
+    let folderIndex = this.folderIndexes.get(key);
+    if (!folderIndex) {
+      folderIndex = FolderIndex.open(workspaceFolder, vscode.Uri.joinPath(this.storageUri, 'folders'));
+      // A failed open is retried on next use
+      folderIndex.catch(() => this.folderIndexes.delete(key));
+      this.folderIndexes.set(key, folderIndex);
+    }
+    return folderIndex;
+  }
+
+  /**
+   * Write the pending chunk store changes of every open folder index
+   */
+  private async flushFolderIndexes(): Promise<void> {
+    for (const opening of this.folderIndexes.values()) {
+      const folderIndex = await opening.catch(() => undefined);
+      await folderIndex?.flush();
+    }
+  }
+
+  /**
+   * Index of the workspace folder containing a file, undefined outside the workspace
+   */
+  private async getFolderIndexOf(filePath: string): Promise<FolderIndex | undefined> {
+    const workspaceFolder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath));
+    return workspaceFolder ? this.getFolderIndex(workspaceFolder) : undefined;
+  }
+
   private async initStorage(): Promise<void> {
     try {
       await vscode.workspace.fs.stat(this.storageUri);
@@ -408,8 +638,9 @@ export class VectorDatabase implements IVectorDatabase {
         files.push(...foundFiles.map(uri => uri.fsPath));
       }
 
-      // Remove duplicates
-      return [...new Set(files)];
+      // Remove duplicates, then the files of ignored paths
+      await getWorkspaceIgnore().load();
+      return getWorkspaceIgnore().filter([...new Set(files)]);
 
     } catch (error) {
       throw new VectoringException('findFilesToIndex', 'Failed to find files to index', error);
@@ -433,11 +664,9 @@ export class VectorDatabase implements IVectorDatabase {
             this.indexingProgress.processedFiles = i + index + 1;
           }
 
+          // Embedding runs on worker threads, so the extension host stays responsive without pauses
           await this.indexFile(filePath);
 
-          // Small delay to prevent CPU overload
-          await this.sleep(50);
-
         } catch (error) {
           const errorMessage = error instanceof Error ? error.message : 'Unknown error';
           console.error(`Failed to index file ${filePath}:`, error);
@@ -451,6 +680,9 @@ export class VectorDatabase implements IVectorDatabase {
       // Wait for batch to complete with limited concurrency
       await this.processConcurrently(promises, this.config.maxConcurrency);
 
+      // One chunk store write per batch rather than per file
+      await this.flushFolderIndexes();
+
       // Progress update
       if (this.indexingProgress) {
         const progress = Math.round((this.indexingProgress.processedFiles / this.indexingProgress.totalFiles) * 100);
@@ -479,13 +711,6 @@ export class VectorDatabase implements IVectorDatabase {
     return results;
   }
 
-  /**
-   * Utility sleep function
-   */
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
-  }
-
   /**
    * Initialize vector database with progress tracking
    */
@@ -539,6 +764,39 @@ export class VectorDatabase implements IVectorDatabase {
     );
   }
 
+  /**
+   * Measure approximate search against exact search on the indexed vectors
+   * @returns Latency and recall of both searches
+   */
+  async benchmarkVectorSearch(): Promise<IAnnBenchmarkResult> {
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+
+    return vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: "Benchmarking vector search",
+        cancellable: false
+      },
+      async () => {
+        try {
+          // The largest folder is benchmarked, since each folder is searched through its own graph
+          let entries: IVectorEntry[] = [];
+          for (const folderIndex of await this.getFolderIndexes()) {
+            const folderEntries = await folderIndex.vectorStore.getEntries();
+            if (folderEntries.length > entries.length) {
+              entries = folderEntries;
+            }
+          }
+          return await benchmarkVectorSearch(entries, loadAnnConfig());
+        } catch (error) {
+          throw new VectoringException('benchmarkVectorSearch', 'Failed to benchmark vector search', error);
+        }
+      }
+    );
+  }
+
   /**
    * Get contextual search statistics
    */
@@ -579,4 +837,19 @@ export class VectorDatabase implements IVectorDatabase {
   getContextualRetriever(): ContextualRetriever {
     return this.contextualRetriever;
   }
-}
\ No newline at end of file
+
+  /**
+   * Write pending chunk store changes and stop the embedding workers
+   */
+  dispose(): void {
+    this.flushFolderIndexes().catch(error => console.error('Failed to save the chunk stores:', error));
+    this.embeddingProvider.dispose();
+  }
+}
+
+/**
+ * Hash used to detect changed files and chunks
+ */
+function hashContent(text: string): string {
+  return crypto.createHash('sha256').update(text).digest('hex');
+}
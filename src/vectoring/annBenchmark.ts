@@ -0,0 +1,109 @@
+import { HnswIndex } from './hnswIndex';
+import { IAnnBenchmarkResult, IAnnConfig, IVectorEntry } from './types';
+
+const SYNTHETIC_VECTORS = 5000;
+const SYNTHETIC_CLUSTERS = 50;
+const DEFAULT_DIMENSIONS = 384;
+
+/**
+ * Compare exact and approximate search on the same vectors
+ * Indexes smaller than `minVectors` are replaced by clustered random vectors, so the graph is measured at a useful size
+ * @param entries Stored vectors
+ * @param annConfig Graph parameters
+ * @param options Number of queries and results per query
+ * @returns Build time, average latency per query and recall@k of the approximate search
+ */
+export async function benchmarkVectorSearch(
+  entries: IVectorEntry[],
+  annConfig: IAnnConfig,
+  options: { queries?: number; k?: number } = {}
+): Promise<IAnnBenchmarkResult> {
+  const { queries = 50, k = 10 } = options;
+  const random = createRandom(7);
+
+  const synthetic = entries.length < annConfig.minVectors;
+  const vectors = synthetic
+    ? generateClusteredVectors(SYNTHETIC_VECTORS, entries[0]?.vector.length || DEFAULT_DIMENSIONS, random)
+    : entries.map(entry => ({ id: entry.id, vector: entry.vector }));
+
+  // Queries are stored vectors with some noise, so they resemble real queries without matching exactly
+  const queryVectors = Array.from({ length: queries }, () => {
+    const base = vectors[Math.floor(random() * vectors.length)].vector;
+    return base.map(value => value + (random() - 0.5) * 0.1);
+  });
+
+  let start = Date.now();
+  const index = await HnswIndex.build(vectors, { m: annConfig.m, efConstruction: annConfig.efConstruction });
+  const buildMs = Date.now() - start;
+
+  start = Date.now();
+  const exact = queryVectors.map(query => exactSearch(vectors, query, k));
+  const exactMs = (Date.now() - start) / queries;
+
+  start = Date.now();
+  const approximate = queryVectors.map(query => index.search(query, k, annConfig.efSearch).map(match => match.id));
+  const approximateMs = (Date.now() - start) / queries;
+
+  const found = approximate.reduce((total, ids, i) => {
+    const expected = new Set(exact[i]);
+    return total + ids.filter(id => expected.has(id)).length;
+  }, 0);
+
+  return {
+    vectors: vectors.length,
+    queries,
+    k,
+    synthetic,
+    buildMs,
+    exactMs,
+    approximateMs,
+    recall: found / (queries * Math.min(k, vectors.length))
+  };
+}
+
+function exactSearch(vectors: Array<{ id: string; vector: number[] }>, query: number[], k: number): string[] {
+  return vectors
+    .map(({ id, vector }) => ({ id, similarity: cosineSimilarity(query, vector) }))
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, k)
+    .map(result => result.id);
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dotProduct = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    dotProduct += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return normA === 0 || normB === 0 ? 0 : dotProduct / Math.sqrt(normA * normB);
+}
+
+/**
+ * Random vectors grouped around a few centres, closer to real embeddings than uniform noise
+ */
+function generateClusteredVectors(count: number, dimensions: number, random: () => number): Array<{ id: string; vector: number[] }> {
+  const centres = Array.from({ length: SYNTHETIC_CLUSTERS }, () =>
+    Array.from({ length: dimensions }, () => random() * 2 - 1)
+  );
+
+  return Array.from({ length: count }, (_, i) => {
+    const centre = centres[i % centres.length];
+    return {
+      id: `synthetic-${i}`,
+      vector: centre.map(value => value + (random() - 0.5) * 0.8)
+    };
+  });
+}
+
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state * 1664525 + 1013904223) >>> 0;
+    return state / 4294967296;
+  };
+}
@@ -0,0 +1,145 @@
+import * as vscode from 'vscode';
+import { IndexChangeKind, IVectorDatabase } from './types';
+
+/**
+ * Keeps the vector index in sync with the workspace
+ * Watches created, changed, deleted and renamed files and applies the changes in debounced batches
+ */
+export class BackgroundIndexer implements vscode.Disposable {
+  private readonly pending: Map<string, IndexChangeKind> = new Map();
+  private readonly watchers: vscode.Disposable[] = [];
+  private readonly configListener: vscode.Disposable;
+  private timer: NodeJS.Timeout | undefined;
+  private running: Promise<void> = Promise.resolve();
+
+  constructor(private readonly vectorDb: IVectorDatabase) {
+    this.configListener = vscode.workspace.onDidChangeConfiguration(event => {
+      if (event.affectsConfiguration('codeAssist.indexing.watch')) {
+        this.update();
+      }
+    });
+  }
+
+  /**
+   * Start or stop watching according to `codeAssist.indexing.watch`
+   */
+  update(): void {
+    const enabled = vscode.workspace.getConfiguration('codeAssist').get<boolean>('indexing.watch', true);
+
+    if (enabled && this.watchers.length === 0) {
+      const watcher = vscode.workspace.createFileSystemWatcher('**/*');
+      this.watchers.push(
+        watcher,
+        watcher.onDidCreate(uri => this.enqueue(uri.fsPath, IndexChangeKind.UPDATE)),
+        watcher.onDidChange(uri => this.enqueue(uri.fsPath, IndexChangeKind.UPDATE)),
+        watcher.onDidDelete(uri => this.enqueue(uri.fsPath, IndexChangeKind.DELETE)),
+        vscode.workspace.onDidRenameFiles(event => {
+          for (const { oldUri, newUri } of event.files) {
+            this.enqueue(oldUri.fsPath, IndexChangeKind.DELETE);
+            this.enqueue(newUri.fsPath, IndexChangeKind.UPDATE);
+          }
+        })
+      );
+    } else if (!enabled) {
+      this.stopWatching();
+    }
+  }
+
+  /**
+   * Apply every queued change now
+   * @returns Promise resolved once the index is up to date
+   */
+  flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+
+    const changes = new Map(this.pending);
+    this.pending.clear();
+
+    this.running = this.running.then(() => this.apply(changes));
+    return this.running;
+  }
+
+  dispose(): void {
+    this.stopWatching();
+    this.configListener.dispose();
+  }
+
+  /**
+   * Queue a change, keeping only the latest kind per path
+   */
+  private enqueue(filePath: string, kind: IndexChangeKind): void {
+    this.pending.set(filePath, kind);
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    const debounceMs = vscode.workspace.getConfiguration('codeAssist').get<number>('indexing.debounceMs', 1500);
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.flush();
+    }, debounceMs);
+  }
+
+  private async apply(changes: Map<string, IndexChangeKind>): Promise<void> {
+    let updated = 0;
+    let removed = 0;
+
+    for (const [filePath, kind] of changes) {
+      try {
+        if (kind === IndexChangeKind.DELETE) {
+          await this.vectorDb.deleteFile(filePath);
+          removed++;
+          continue;
+        }
+
+        for (const target of await this.expandFolder(filePath)) {
+          if (this.vectorDb.isIndexable(target) && await this.vectorDb.indexFile(target)) {
+            updated++;
+          }
+        }
+
+      } catch (error) {
+        console.error(`Background indexing failed for ${filePath}:`, error);
+      }
+    }
+
+    if (updated > 0 || removed > 0) {
+      console.log(`Background indexer: ${updated} file(s) re-indexed, ${removed} removed`);
+    }
+  }
+
+  /**
+   * Files below a created or renamed folder, or the path itself when it is a file
+   */
+  private async expandFolder(filePath: string): Promise<string[]> {
+    const uri = vscode.Uri.file(filePath);
+
+    try {
+      const stat = await vscode.workspace.fs.stat(uri);
+      if (stat.type & vscode.FileType.Directory) {
+        const files = await vscode.workspace.findFiles(new vscode.RelativePattern(uri, '**/*'));
+        return files.map(file => file.fsPath);
+      }
+      return [filePath];
+
+    } catch {
+      // Removed again before the batch ran
+      return [];
+    }
+  }
+
+  private stopWatching(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    this.pending.clear();
+
+    for (const watcher of this.watchers.splice(0)) {
+      watcher.dispose();
+    }
+  }
+}
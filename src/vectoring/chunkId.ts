@@ -0,0 +1,16 @@
+import * as path from 'path';
+import * as crypto from 'crypto';
+
+/**
+ * Stable ID from the file and position, so re-indexing a file replaces its chunks
+ * @param filePath Path relative to the workspace folder, so IDs survive the folder moving
+ * @param startLine First line of the chunk, zero-based
+ * @param startColumn Column the chunk starts at, zero-based, for parsers that can start several chunks
+ * on one line; left out of the ID when 0, so line-based parsers keep their IDs
+ */
+export function generateChunkId(filePath: string, startLine: number, startColumn: number = 0): string {
+  const fileName = path.basename(filePath);
+  const pathHash = crypto.createHash('sha1').update(filePath).digest('hex').substring(0, 8);
+  const position = startColumn > 0 ? `${startLine}.${startColumn}` : `${startLine}`;
+  return `${fileName}:${position}:${pathHash}`;
+}
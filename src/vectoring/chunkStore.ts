@@ -0,0 +1,388 @@
+import * as vscode from 'vscode';
+import {
+  IChunkManifest,
+  IChunkStore,
+  IChunkStoreStats,
+  ICodeChunk,
+  IFileManifestEntry,
+  VectoringException
+} from './types';
+
+/**
+ * File-based store for the code chunks behind the vectors
+ * Keeps content, line ranges and metadata so search results can be hydrated,
+ * and a manifest mapping each indexed file to its content hash and chunk IDs.
+ * Changes are written together, on flush() or shortly after the last one, rather than per file
+ */
+export class FileChunkStore implements IChunkStore {
+  private static readonly MANIFEST_VERSION = 1;
+  private static readonly FLUSH_DELAY_MS = 2000;
+
+  private readonly storageUri: vscode.Uri;
+  private readonly dataFile: vscode.Uri;
+  private readonly manifestFile: vscode.Uri;
+  private chunks: Map<string, ICodeChunk> = new Map();
+  private manifest: Map<string, IFileManifestEntry> = new Map();
+  private pendingSave: Promise<void> = Promise.resolve();
+  private isDirty = false;
+  private flushTimer?: NodeJS.Timeout;
+  private isInitialized = false;
+
+  constructor(storageUri: vscode.Uri) {
+    this.storageUri = vscode.Uri.joinPath(storageUri, 'chunks');
+    this.dataFile = vscode.Uri.joinPath(this.storageUri, 'chunks.json');
+    this.manifestFile = vscode.Uri.joinPath(this.storageUri, 'manifest.json');
+  }
+
+  /**
+   * Initialize the chunk store
+   */
+  async initialize(): Promise<void> {
+    if (this.isInitialized) {
+      return;
+    }
+
+    try {
+      try {
+        await vscode.workspace.fs.stat(this.storageUri);
+      } catch {
+        await vscode.workspace.fs.createDirectory(this.storageUri);
+      }
+
+      await this.load();
+      this.isInitialized = true;
+
+    } catch (error) {
+      throw new VectoringException('initialize', 'Failed to initialize chunk store', error);
+    }
+  }
+
+  /**
+   * Replace everything stored for a file with its new chunks
+   * @param filePath Path relative to the workspace folder, with forward slashes
+   * @param chunks Chunks produced by the code parser, possibly none
+   * @param contentHash Hash of the content the chunks were built from
+   * @param language Language of the file
+   * @returns IDs of previous chunks that no longer exist, so their vectors can be removed
+   */
+  async replaceFile(filePath: string, chunks: ICodeChunk[], contentHash: string, language: string): Promise<string[]> {
+    try {
+      return await this.replaceFiles([{ filePath, chunks, contentHash, language }]);
+
+    } catch (error) {
+      throw new VectoringException('replaceFile', `Failed to store chunks of ${filePath}`, error);
+    }
+  }
+
+  /**
+   * Replace the chunks of several files
+   * @param files New chunks, content hash and language of each file
+   * @returns IDs of previous chunks that no longer exist, so their vectors can be removed
+   */
+  async replaceFiles(
+    files: Array<{ filePath: string; chunks: ICodeChunk[]; contentHash: string; language: string }>
+  ): Promise<string[]> {
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+
+    const removed: string[] = [];
+    for (const { filePath, chunks, contentHash, language } of files) {
+      const chunkIds = chunks.map(chunk => chunk.id);
+      const kept = new Set(chunkIds);
+      const fileRemoved = (this.manifest.get(filePath)?.chunkIds || []).filter(chunkId => !kept.has(chunkId));
+
+      for (const chunkId of fileRemoved) {
+        this.chunks.delete(chunkId);
+      }
+      for (const chunk of chunks) {
+        this.chunks.set(chunk.id, chunk);
+      }
+      this.manifest.set(filePath, { contentHash, chunkIds, language, indexedAt: Date.now() });
+      removed.push(...fileRemoved);
+    }
+
+    this.scheduleFlush();
+    return removed;
+  }
+
+  /**
+   * Look up chunks by ID
+   * @param chunkIds IDs to look up
+   * @returns Chunks found, keyed by ID
+   */
+  async get(chunkIds: string[]): Promise<Map<string, ICodeChunk>> {
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+
+    const found = new Map<string, ICodeChunk>();
+    for (const chunkId of chunkIds) {
+      const chunk = this.chunks.get(chunkId);
+      if (chunk) {
+        found.set(chunkId, chunk);
+      }
+    }
+    return found;
+  }
+
+  /**
+   * Every stored chunk
+   */
+  async getAll(): Promise<ICodeChunk[]> {
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+
+    return Array.from(this.chunks.values());
+  }
+
+  /**
+   * IDs of the chunks stored for a file
+   * @param filePath Path relative to the workspace folder, with forward slashes
+   */
+  async getChunkIds(filePath: string): Promise<string[]> {
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+
+    return [...(this.manifest.get(filePath)?.chunkIds || [])];
+  }
+
+  /**
+   * Content hash of a file when it was last indexed
+   * @param filePath Path relative to the workspace folder, with forward slashes
+   */
+  async getFileHash(filePath: string): Promise<string | undefined> {
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+
+    return this.manifest.get(filePath)?.contentHash || undefined;
+  }
+
+  /**
+   * Manifest entry of an indexed file
+   * @param filePath Path the file was stored under
+   */
+  async getFileEntry(filePath: string): Promise<IFileManifestEntry | undefined> {
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+
+    const entry = this.manifest.get(filePath);
+    return entry && { ...entry, chunkIds: [...entry.chunkIds] };
+  }
+
+  /**
+   * Every indexed file, including files that produced no chunks
+   */
+  async getIndexedFiles(): Promise<string[]> {
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+
+    return [...this.manifest.keys()];
+  }
+
+  /**
+   * Remove a file and all of its chunks
+   * @param filePath Path relative to the workspace folder, with forward slashes
+   * @returns IDs of the removed chunks, so their vectors can be removed too
+   */
+  async deleteFile(filePath: string): Promise<string[]> {
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+
+    try {
+      const entry = this.manifest.get(filePath);
+      if (!entry) {
+        return [];
+      }
+
+      for (const chunkId of entry.chunkIds) {
+        this.chunks.delete(chunkId);
+      }
+      this.manifest.delete(filePath);
+      this.scheduleFlush();
+
+      return entry.chunkIds;
+
+    } catch (error) {
+      throw new VectoringException('deleteFile', `Failed to delete chunks of ${filePath}`, error);
+    }
+  }
+
+  /**
+   * Remove all chunks
+   */
+  async clear(): Promise<void> {
+    try {
+      this.chunks.clear();
+      this.manifest.clear();
+      this.isDirty = true;
+      await this.flush();
+
+    } catch (error) {
+      throw new VectoringException('clear', 'Failed to clear chunk store', error);
+    }
+  }
+
+  /**
+   * Write pending changes now
+   * @returns Promise resolved once everything changed so far is on disk
+   */
+  flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = undefined;
+    }
+
+    if (!this.isDirty) {
+      return this.pendingSave;
+    }
+    this.isDirty = false;
+    return this.save().catch(error => {
+      // Kept for the next flush, which writes the full state again
+      this.isDirty = true;
+      throw error;
+    });
+  }
+
+  /**
+   * Write pending changes and stop the delayed flush
+   */
+  dispose(): Promise<void> {
+    return this.flush();
+  }
+
+  /**
+   * Count chunks, files and files per language
+   */
+  async getStats(): Promise<IChunkStoreStats> {
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+
+    const languages: Record<string, number> = {};
+    for (const entry of this.manifest.values()) {
+      languages[entry.language] = (languages[entry.language] || 0) + 1;
+    }
+
+    return {
+      totalChunks: this.chunks.size,
+      totalFiles: this.manifest.size,
+      languages
+    };
+  }
+
+  /**
+   * Load chunks and the manifest from disk
+   * An index written before the manifest existed gets one rebuilt from its chunks
+   */
+  private async load(): Promise<void> {
+    this.chunks.clear();
+    this.manifest.clear();
+
+    try {
+      const data = await vscode.workspace.fs.readFile(this.dataFile);
+      const chunks: ICodeChunk[] = JSON.parse(new TextDecoder().decode(data));
+      for (const chunk of chunks) {
+        this.chunks.set(chunk.id, chunk);
+      }
+
+    } catch (error) {
+      // File doesn't exist or is corrupted, start with an empty store
+      this.chunks.clear();
+    }
+
+    try {
+      const data = await vscode.workspace.fs.readFile(this.manifestFile);
+      const manifest: IChunkManifest = JSON.parse(new TextDecoder().decode(data));
+      this.manifest = new Map(Object.entries(manifest.files));
+
+    } catch (error) {
+      this.manifest.clear();
+    }
+
+    if (this.reconcile()) {
+      await this.save();
+    }
+  }
+
+  /**
+   * Make the manifest and the chunks agree after an interrupted save or an upgrade
+   * Files whose chunks went missing, or that had no manifest entry, are marked for re-indexing
+   * @returns True if anything changed
+   */
+  private reconcile(): boolean {
+    let changed = false;
+    const listed = new Set<string>();
+
+    for (const [filePath, entry] of this.manifest) {
+      const present = entry.chunkIds.filter(chunkId => this.chunks.has(chunkId));
+      if (present.length !== entry.chunkIds.length) {
+        this.manifest.set(filePath, { ...entry, chunkIds: present, contentHash: '' });
+        changed = true;
+      }
+      present.forEach(chunkId => listed.add(chunkId));
+    }
+
+    for (const chunk of this.chunks.values()) {
+      if (listed.has(chunk.id)) {
+        continue;
+      }
+
+      const entry = this.manifest.get(chunk.filePath) ||
+        { contentHash: '', chunkIds: [], language: chunk.language, indexedAt: 0 };
+      this.manifest.set(chunk.filePath, { ...entry, contentHash: '', chunkIds: [...entry.chunkIds, chunk.id] });
+      changed = true;
+    }
+
+    return changed;
+  }
+
+  /**
+   * Mark the store changed and flush once no further change has come in for a while
+   */
+  private scheduleFlush(): void {
+    this.isDirty = true;
+
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+    }
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = undefined;
+      this.flush().catch(error => console.error('Failed to save the chunk store:', error));
+    }, FileChunkStore.FLUSH_DELAY_MS);
+  }
+
+  /**
+   * Queue a save behind the one in progress, which then writes the latest state
+   */
+  private save(): Promise<void> {
+    const write = () => this.writeFiles();
+    this.pendingSave = this.pendingSave.then(write, write);
+    return this.pendingSave;
+  }
+
+  /**
+   * Write chunks, then the manifest, each through a temporary file so a crash never leaves half a file
+   */
+  private async writeFiles(): Promise<void> {
+    const manifest: IChunkManifest = {
+      version: FileChunkStore.MANIFEST_VERSION,
+      files: Object.fromEntries(this.manifest)
+    };
+
+    await this.writeAtomically(this.dataFile, JSON.stringify(Array.from(this.chunks.values())));
+    await this.writeAtomically(this.manifestFile, JSON.stringify(manifest));
+  }
+
+  private async writeAtomically(target: vscode.Uri, json: string): Promise<void> {
+    const temporary = target.with({ path: `${target.path}.tmp` });
+    await vscode.workspace.fs.writeFile(temporary, new TextEncoder().encode(json));
+    await vscode.workspace.fs.rename(temporary, target, { overwrite: true });
+  }
+}
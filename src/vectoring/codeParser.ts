@@ -1,6 +1,11 @@
 import * as vscode from 'vscode';
 import { ICodeParser, ICodeChunk, ICodeMetadata, CodeChunkType, VectoringException } from './types';
 import * as path from 'path';
+import { generateChunkId } from './chunkId';
+import { TypeScriptParser } from './typeScriptParser';
+import { MarkdownParser } from './markdownParser';
+import { StructuredDataParser } from './structuredDataParser';
+import { NotebookParser } from './notebookParser';
 
 /**
  * Code parser that extracts meaningful chunks from source files
@@ -237,7 +242,7 @@ export class CodeParser implements ICodeParser {
       
       if (content.length > 50) { // Only meaningful chunks
         chunks.push({
-          id: this.generateChunkId(filePath, i),
+          id: generateChunkId(filePath, i),
           filePath,
           content,
           startLine: i,
@@ -260,7 +265,7 @@ export class CodeParser implements ICodeParser {
     const type = this.determineChunkType(content);
     
     return {
-      id: this.generateChunkId(filePath, startLine),
+      id: generateChunkId(filePath, startLine),
       filePath,
       content,
       startLine,
@@ -280,7 +285,7 @@ export class CodeParser implements ICodeParser {
    */
   private createFileChunk(content: string, filePath: string, metadata: ICodeMetadata): ICodeChunk {
     return {
-      id: this.generateChunkId(filePath, 0),
+      id: generateChunkId(filePath, 0),
       filePath,
       content: content.substring(0, 2000), // Limit size
       startLine: 0,
@@ -330,16 +335,27 @@ export class CodeParser implements ICodeParser {
     return patterns.reduce((count, pattern) => count + (content.match(pattern) || []).length, 0);
   }
 
-  private generateChunkId(filePath: string, startLine: number): string {
-    const fileName = path.basename(filePath);
-    return `${fileName}:${startLine}:${Date.now()}`;
-  }
-
   /**
    * Static method to get parser for file
+   * TypeScript and JavaScript go through the TypeScript compiler, documentation, configuration
+   * and notebooks through their own parsers, other languages through line patterns
    */
-  static getParserForFile(filePath: string): CodeParser {
+  static getParserForFile(filePath: string): ICodeParser {
     const ext = path.extname(filePath).toLowerCase();
+    switch (ext) {
+      case '.md':
+      case '.markdown':
+        return new MarkdownParser();
+      case '.json':
+      case '.jsonc':
+        return new StructuredDataParser('json');
+      case '.yaml':
+      case '.yml':
+        return new StructuredDataParser('yaml');
+      case '.ipynb':
+        return new NotebookParser();
+    }
+
     const languageMap: Record<string, string> = {
       '.ts': 'typescript',
       '.js': 'javascript',
@@ -362,6 +378,9 @@ export class CodeParser implements ICodeParser {
     };
 
     const language = languageMap[ext] || 'generic';
+    if (language === 'typescript' || language === 'javascript') {
+      return new TypeScriptParser(language);
+    }
     return new CodeParser(language);
   }
 
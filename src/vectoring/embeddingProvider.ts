@@ -1,15 +1,16 @@
-import { pipeline } from '@xenova/transformers';
-import { IEmbeddingProvider, VectoringException } from './types';
+import { EmbeddingPriority, IEmbeddingProvider, VectoringException } from './types';
+import { EmbeddingWorkerPool, loadEmbeddingPoolConfig } from './embeddingWorkerPool';
 import * as vscode from 'vscode';
 
 /**
  * Embedding provider using Transformers.js for local processing
- * Optimized for Intel i5-7300U with 8GB RAM
+ * The model runs in worker threads, so embedding never blocks the extension host
  */
 export class TransformersEmbeddingProvider implements IEmbeddingProvider {
   public readonly name = 'transformers-js';
-  private embedder: any = null;
-  private isInitializing = false;
+  private pool: EmbeddingWorkerPool | null = null;
+  private ready = false;
+  private initializing: Promise<void> | null = null;
   private readonly modelName: string;
   private readonly dimensions: number;
 
@@ -21,37 +22,35 @@ export class TransformersEmbeddingProvider implements IEmbeddingProvider {
 
   /**
    * Initialize the embedding model
-   * Downloads and loads the model on first use
+   * Starts the worker pool, which downloads and loads the model on first use
    */
-  async initialize(): Promise<void> {
-    if (this.embedder || this.isInitializing) {
-      return;
+  initialize(): Promise<void> {
+    if (this.ready) {
+      return Promise.resolve();
     }
+    if (!this.initializing) {
+      this.initializing = this.startPool().finally(() => {
+        this.initializing = null;
+      });
+    }
+    return this.initializing;
+  }
 
-    this.isInitializing = true;
-
+  private async startPool(): Promise<void> {
     try {
       vscode.window.showInformationMessage('Loading embedding model... This may take a moment on first use.');
 
-      // Configure transformers for VSCode environment
-      const { env } = await import('@xenova/transformers');
-
-      // Set cache directory to VSCode global storage
-      env.cacheDir = vscode.workspace.getConfiguration('codeAssist').get('cacheDirectory') || '.cache';
-
-      // Disable local model loading for security
-      env.allowLocalModels = false;
-
-      // Load the embedding pipeline
-      this.embedder = await pipeline('feature-extraction', this.modelName, {
-        quantized: true, // Use quantized model for better performance
-        progress_callback: (progress: any) => {
-          if (progress.status === 'downloading') {
-            const percent = Math.round((progress.loaded / progress.total) * 100);
-            vscode.window.showInformationMessage(`Downloading model: ${percent}%`);
-          }
+      const reported = new Set<string>();
+      this.pool = this.pool || new EmbeddingWorkerPool(loadEmbeddingPoolConfig(this.modelName), (file, percent) => {
+        // One notification per file and 25%, rather than one per downloaded chunk
+        const step = `${file}:${Math.floor(percent / 25)}`;
+        if (!reported.has(step)) {
+          reported.add(step);
+          vscode.window.showInformationMessage(`Downloading model: ${percent}%`);
         }
       });
+      await this.pool.start();
+      this.ready = true;
 
       vscode.window.showInformationMessage('✅ Embedding model loaded successfully!');
 
@@ -59,13 +58,12 @@ export class TransformersEmbeddingProvider implements IEmbeddingProvider {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       vscode.window.showErrorMessage(`Failed to load embedding model: ${errorMessage}`);
       throw new VectoringException('initialize', `Failed to initialize embedding provider: ${errorMessage}`, error);
-    } finally {
-      this.isInitializing = false;
     }
   }
 
   /**
    * Generate embedding for a single text
+   * Served ahead of queued indexing batches, since a user is waiting for it
    * @param text Text to embed
    * @returns Vector representation
    */
@@ -74,23 +72,12 @@ export class TransformersEmbeddingProvider implements IEmbeddingProvider {
       await this.initialize();
     }
 
-    if (!this.embedder) {
+    if (!this.pool) {
       throw new VectoringException('embed', 'Embedding provider not initialized');
     }
 
     try {
-      // Clean and prepare text
-      const cleanText = this.preprocessText(text);
-
-      // Generate embedding
-      const result = await this.embedder(cleanText, {
-        pooling: 'mean',
-        normalize: true
-      });
-
-      // Extract the embedding array
-      const embedding = Array.from(result.data) as number[];
-
+      const [embedding] = await this.pool.embed([this.preprocessText(text)], EmbeddingPriority.INTERACTIVE);
       return embedding;
 
     } catch (error) {
@@ -101,41 +88,30 @@ export class TransformersEmbeddingProvider implements IEmbeddingProvider {
 
   /**
    * Generate embeddings for multiple texts in batch
-   * Optimized for i5-7300U (4 cores)
+   * Texts are queued in small batches, so a higher-priority request waits for one batch at most
    * @param texts Array of texts to embed
+   * @param priority Queue priority, background indexing by default
    * @returns Array of vector representations
    */
-  async embedBatch(texts: string[]): Promise<number[][]> {
+  async embedBatch(texts: string[], priority: EmbeddingPriority = EmbeddingPriority.BACKGROUND): Promise<number[][]> {
     if (!this.isReady()) {
       await this.initialize();
     }
 
-    if (!this.embedder) {
+    if (!this.pool) {
       throw new VectoringException('embedBatch', 'Embedding provider not initialized');
     }
 
     try {
-      // Process in batches of 4 to optimize for 4-core CPU
       const batchSize = 4;
-      const results: number[][] = [];
+      const batches: Promise<number[][]>[] = [];
 
       for (let i = 0; i < texts.length; i += batchSize) {
-        const batch = texts.slice(i, i + batchSize);
-        const cleanBatch = batch.map(text => this.preprocessText(text));
-
-        // Process batch in parallel
-        const batchPromises = cleanBatch.map(text => this.embed(text));
-        const batchResults = await Promise.all(batchPromises);
-
-        results.push(...batchResults);
-
-        // Small delay to prevent CPU overload
-        if (i + batchSize < texts.length) {
-          await this.sleep(10);
-        }
+        const batch = texts.slice(i, i + batchSize).map(text => this.preprocessText(text));
+        batches.push(this.pool.embed(batch, priority));
       }
 
-      return results;
+      return (await Promise.all(batches)).flat();
 
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -154,7 +130,7 @@ export class TransformersEmbeddingProvider implements IEmbeddingProvider {
    * Check if the provider is ready to use
    */
   isReady(): boolean {
-    return this.embedder !== null && !this.isInitializing;
+    return this.ready;
   }
 
   /**
@@ -171,13 +147,6 @@ export class TransformersEmbeddingProvider implements IEmbeddingProvider {
       .substring(0, 512); // Limit to 512 characters for performance
   }
 
-  /**
-   * Utility function for delays
-   */
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
-  }
-
   /**
    * Get model information
    */
@@ -199,7 +168,8 @@ export class TransformersEmbeddingProvider implements IEmbeddingProvider {
    * Cleanup resources
    */
   async dispose(): Promise<void> {
-    this.embedder = null;
-    this.isInitializing = false;
+    this.pool?.dispose();
+    this.pool = null;
+    this.ready = false;
   }
 }
@@ -0,0 +1,66 @@
+import { parentPort } from 'worker_threads';
+import { EmbeddingWorkerMessageType, EmbeddingWorkerRequest, EmbeddingWorkerResponse } from './types';
+
+/**
+ * Worker thread entry point of the embedding pool
+ * Loads the model once on INIT, then answers EMBED requests one at a time; vscode is not available here
+ */
+
+let embedder: any = null;
+
+function post(message: EmbeddingWorkerResponse): void {
+  parentPort!.postMessage(message);
+}
+
+async function initialize(modelName: string, cacheDir: string): Promise<void> {
+  try {
+    const { pipeline, env } = await import('@xenova/transformers');
+
+    env.cacheDir = cacheDir;
+    // Disable local model loading for security
+    env.allowLocalModels = false;
+
+    embedder = await pipeline('feature-extraction', modelName, {
+      quantized: true, // Use quantized model for better performance
+      progress_callback: (progress: any) => {
+        if (progress.status === 'downloading' || progress.status === 'progress') {
+          post({
+            type: EmbeddingWorkerMessageType.PROGRESS,
+            file: progress.file || modelName,
+            percent: Math.round(progress.progress ?? (progress.loaded / progress.total) * 100)
+          });
+        }
+      }
+    });
+
+    post({ type: EmbeddingWorkerMessageType.READY });
+
+  } catch (error) {
+    post({ type: EmbeddingWorkerMessageType.INIT_ERROR, message: error instanceof Error ? error.message : String(error) });
+  }
+}
+
+async function embed(id: number, texts: string[]): Promise<void> {
+  try {
+    const vectors: number[][] = [];
+    for (const text of texts) {
+      const result = await embedder(text, { pooling: 'mean', normalize: true });
+      vectors.push(Array.from(result.data) as number[]);
+    }
+    post({ type: EmbeddingWorkerMessageType.EMBEDDINGS, id, vectors });
+
+  } catch (error) {
+    post({ type: EmbeddingWorkerMessageType.ERROR, id, message: error instanceof Error ? error.message : String(error) });
+  }
+}
+
+parentPort?.on('message', (message: EmbeddingWorkerRequest) => {
+  switch (message.type) {
+    case EmbeddingWorkerMessageType.INIT:
+      initialize(message.modelName, message.cacheDir);
+      break;
+    case EmbeddingWorkerMessageType.EMBED:
+      embed(message.id, message.texts);
+      break;
+  }
+});
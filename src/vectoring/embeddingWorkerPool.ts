@@ -0,0 +1,285 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { Worker } from 'worker_threads';
+import {
+  EmbeddingPriority,
+  EmbeddingWorkerMessageType,
+  EmbeddingWorkerRequest,
+  EmbeddingWorkerResponse,
+  IEmbeddingPoolConfig,
+  VectoringException
+} from './types';
+
+interface IQueuedRequest {
+  id: number;
+  texts: string[];
+  priority: EmbeddingPriority;
+  /** Workers that crashed while embedding this request */
+  crashes: number;
+  resolve: (vectors: number[][]) => void;
+  reject: (error: Error) => void;
+}
+
+interface IWorkerSlot {
+  worker: Worker;
+  ready: boolean;
+  current?: IQueuedRequest;
+}
+
+/**
+ * Pool of worker threads running the embedding model off the extension host thread
+ * Requests wait in a priority queue, so a search query is served before any queued indexing batch;
+ * a crashed worker is replaced and its request retried
+ */
+export class EmbeddingWorkerPool implements vscode.Disposable {
+  /** A request that crashed this many workers is rejected instead of retried */
+  private static readonly MAX_CRASHES_PER_REQUEST = 2;
+  /** Consecutive crashes after which queued requests are rejected until the next request */
+  private static readonly MAX_CONSECUTIVE_CRASHES = 3;
+  private static readonly RESTART_DELAY_MS = 1000;
+
+  private readonly workers: IWorkerSlot[] = [];
+  private readonly queue: IQueuedRequest[] = [];
+  private readonly readyListeners: Array<{ resolve: () => void; reject: (error: Error) => void }> = [];
+  private nextRequestId = 1;
+  private consecutiveCrashes = 0;
+  private restartTimer: NodeJS.Timeout | undefined;
+  private disposed = false;
+
+  /**
+   * @param config Model, worker count and cache directory
+   * @param onProgress Called while a worker downloads the model
+   */
+  constructor(
+    private readonly config: IEmbeddingPoolConfig,
+    private readonly onProgress?: (file: string, percent: number) => void
+  ) {}
+
+  /**
+   * Start the workers and wait until one of them has loaded the model
+   */
+  start(): Promise<void> {
+    if (this.workers.some(slot => slot.ready)) {
+      return Promise.resolve();
+    }
+
+    const ready = new Promise<void>((resolve, reject) => this.readyListeners.push({ resolve, reject }));
+    this.spawnWorkers();
+    return ready;
+  }
+
+  /**
+   * Embed texts on a worker
+   * @param texts Preprocessed texts, embedded in order by a single worker
+   * @param priority Queue priority; requests of equal priority are served in arrival order
+   * @returns One vector per text
+   */
+  embed(texts: string[], priority: EmbeddingPriority): Promise<number[][]> {
+    if (this.disposed) {
+      return Promise.reject(new VectoringException('embed', 'Embedding worker pool is disposed'));
+    }
+    if (texts.length === 0) {
+      return Promise.resolve([]);
+    }
+
+    return new Promise((resolve, reject) => {
+      this.enqueue({ id: this.nextRequestId++, texts, priority, crashes: 0, resolve, reject });
+      this.spawnWorkers();
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Number of requests waiting for a worker
+   */
+  get pending(): number {
+    return this.queue.length;
+  }
+
+  dispose(): void {
+    this.disposed = true;
+    if (this.restartTimer) {
+      clearTimeout(this.restartTimer);
+      this.restartTimer = undefined;
+    }
+
+    const error = new VectoringException('embed', 'Embedding worker pool is disposed');
+    this.rejectAll(error);
+    for (const slot of this.workers.splice(0)) {
+      slot.current?.reject(error);
+      slot.worker.terminate();
+    }
+  }
+
+  /**
+   * Insert behind the requests of the same or a higher priority
+   * @param first Insert ahead of the requests of the same priority, for retries
+   */
+  private enqueue(request: IQueuedRequest, first: boolean = false): void {
+    const index = this.queue.findIndex(queued =>
+      first ? queued.priority >= request.priority : queued.priority > request.priority
+    );
+    this.queue.splice(index === -1 ? this.queue.length : index, 0, request);
+  }
+
+  /**
+   * Hand queued requests to idle workers
+   */
+  private dispatch(): void {
+    for (const slot of this.workers) {
+      if (this.queue.length === 0) {
+        return;
+      }
+      if (!slot.ready || slot.current) {
+        continue;
+      }
+
+      const request = this.queue.shift()!;
+      slot.current = request;
+      this.send(slot, { type: EmbeddingWorkerMessageType.EMBED, id: request.id, texts: request.texts });
+    }
+  }
+
+  /**
+   * Top the pool up to its configured size
+   */
+  private spawnWorkers(): void {
+    if (this.disposed || this.restartTimer) {
+      return;
+    }
+
+    while (this.workers.length < Math.max(1, this.config.workers)) {
+      const worker = new Worker(path.join(__dirname, 'embeddingWorker.js'));
+      const slot: IWorkerSlot = { worker, ready: false };
+      this.workers.push(slot);
+
+      worker.on('message', (message: EmbeddingWorkerResponse) => this.handleMessage(slot, message));
+      worker.on('error', error => console.error('Embedding worker failed:', error));
+      worker.on('exit', code => this.handleExit(slot, code));
+
+      this.send(slot, {
+        type: EmbeddingWorkerMessageType.INIT,
+        modelName: this.config.modelName,
+        cacheDir: this.config.cacheDir
+      });
+    }
+  }
+
+  private send(slot: IWorkerSlot, message: EmbeddingWorkerRequest): void {
+    slot.worker.postMessage(message);
+  }
+
+  private handleMessage(slot: IWorkerSlot, message: EmbeddingWorkerResponse): void {
+    switch (message.type) {
+      case EmbeddingWorkerMessageType.READY:
+        slot.ready = true;
+        this.readyListeners.splice(0).forEach(listener => listener.resolve());
+        this.dispatch();
+        break;
+
+      case EmbeddingWorkerMessageType.INIT_ERROR: {
+        // Loading fails the same way on every worker, e.g. offline on first use, so nothing is retried
+        const error = new VectoringException('initialize', `Failed to load embedding model: ${message.message}`);
+        this.readyListeners.splice(0).forEach(listener => listener.reject(error));
+        if (!this.workers.some(other => other !== slot && other.ready)) {
+          this.rejectAll(error);
+        }
+        this.remove(slot);
+        slot.worker.terminate();
+        break;
+      }
+
+      case EmbeddingWorkerMessageType.PROGRESS:
+        this.onProgress?.(message.file, message.percent);
+        break;
+
+      case EmbeddingWorkerMessageType.EMBEDDINGS:
+      case EmbeddingWorkerMessageType.ERROR: {
+        const request = slot.current;
+        if (!request || request.id !== message.id) {
+          break;
+        }
+
+        slot.current = undefined;
+        this.consecutiveCrashes = 0;
+        if (message.type === EmbeddingWorkerMessageType.EMBEDDINGS) {
+          request.resolve(message.vectors);
+        } else {
+          request.reject(new VectoringException('embed', `Failed to generate embeddings: ${message.message}`));
+        }
+        this.dispatch();
+        break;
+      }
+    }
+  }
+
+  /**
+   * Replace a worker that exited unexpectedly and retry the request it was embedding
+   */
+  private handleExit(slot: IWorkerSlot, code: number): void {
+    if (!this.remove(slot) || this.disposed) {
+      return;
+    }
+
+    console.error(`Embedding worker exited with code ${code}`);
+    const request = slot.current;
+    if (request) {
+      request.crashes++;
+      if (request.crashes >= EmbeddingWorkerPool.MAX_CRASHES_PER_REQUEST) {
+        request.reject(new VectoringException('embed', `Embedding worker crashed ${request.crashes} times on the same input`));
+      } else {
+        this.enqueue(request, true);
+      }
+    }
+
+    this.consecutiveCrashes++;
+    if (this.consecutiveCrashes > EmbeddingWorkerPool.MAX_CONSECUTIVE_CRASHES) {
+      this.consecutiveCrashes = 0;
+      const error = new VectoringException('embed', 'Embedding workers keep crashing');
+      this.readyListeners.splice(0).forEach(listener => listener.reject(error));
+      this.rejectAll(error);
+      return;
+    }
+
+    // Wait before restarting, so a worker that crashes on startup does not spin
+    if (!this.restartTimer) {
+      this.restartTimer = setTimeout(() => {
+        this.restartTimer = undefined;
+        this.spawnWorkers();
+      }, EmbeddingWorkerPool.RESTART_DELAY_MS * this.consecutiveCrashes);
+    }
+  }
+
+  /**
+   * Take a worker out of the pool
+   * @returns False if it had already been removed
+   */
+  private remove(slot: IWorkerSlot): boolean {
+    const index = this.workers.indexOf(slot);
+    if (index === -1) {
+      return false;
+    }
+    this.workers.splice(index, 1);
+    return true;
+  }
+
+  private rejectAll(error: Error): void {
+    for (const request of this.queue.splice(0)) {
+      request.reject(error);
+    }
+  }
+}
+
+/**
+ * Load embedding worker settings
+ * @param modelName Model the workers load
+ */
+export function loadEmbeddingPoolConfig(modelName: string): IEmbeddingPoolConfig {
+  const config = vscode.workspace.getConfiguration('codeAssist');
+
+  return {
+    modelName,
+    workers: config.get<number>('embedding.workers', 1),
+    cacheDir: config.get<string>('cacheDirectory') || '.cache'
+  };
+}
@@ -0,0 +1,263 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { FileVectorStore } from './vectorStore';
+import { FileChunkStore } from './chunkStore';
+import { Bm25Index } from './lexicalIndex';
+import { ICodeChunk, IFolderIndexInfo, IFolderIndexStats, IVectorEntry, VectoringException } from './types';
+
+/**
+ * Index of one workspace folder: its chunks, their vectors and the lexical index over them
+ * Stored in a directory named after the folder URI; chunk paths are relative to the folder,
+ * so an index copied to another machine or left behind by a moved folder stays valid
+ */
+export class FolderIndex {
+  private static readonly INFO_FILE = 'folder.json';
+
+  /** Folder URI, which identifies the index */
+  readonly key: string;
+  readonly storageUri: vscode.Uri;
+  readonly vectorStore: FileVectorStore;
+  readonly chunkStore: FileChunkStore;
+  readonly lexicalIndex: Bm25Index;
+
+  private constructor(readonly folder: vscode.WorkspaceFolder, storageRoot: vscode.Uri) {
+    this.key = folder.uri.toString();
+    this.storageUri = vscode.Uri.joinPath(
+      storageRoot,
+      crypto.createHash('sha256').update(this.key).digest('hex').substring(0, 16)
+    );
+    this.vectorStore = new FileVectorStore(this.storageUri);
+    this.chunkStore = new FileChunkStore(this.storageUri);
+    this.lexicalIndex = new Bm25Index();
+  }
+
+  /**
+   * Open the index of a workspace folder, creating it if needed
+   * When the folder has no index yet, the index of a same-named folder that no longer exists
+   * at its recorded location is taken over, since that folder has most likely moved
+   * @param folder Workspace folder
+   * @param storageRoot Directory holding the index of every folder
+   */
+  static async open(folder: vscode.WorkspaceFolder, storageRoot: vscode.Uri): Promise<FolderIndex> {
+    const index = new FolderIndex(folder, storageRoot);
+
+    try {
+      if (!await exists(index.storageUri)) {
+        await vscode.workspace.fs.createDirectory(storageRoot);
+        await index.adoptMovedIndex(storageRoot);
+      }
+
+      await index.initialize();
+      return index;
+
+    } catch (error) {
+      throw new VectoringException('openFolderIndex', `Failed to open the index of ${folder.name}`, error);
+    }
+  }
+
+  /**
+   * Whether a file is inside the folder
+   * @param filePath Absolute file path
+   */
+  contains(filePath: string): boolean {
+    const relativePath = path.relative(this.folder.uri.fsPath, filePath);
+    return !relativePath.startsWith('..') && !path.isAbsolute(relativePath);
+  }
+
+  /**
+   * Path as stored in the index: relative to the folder, with forward slashes
+   * @param filePath Absolute file path
+   */
+  toRelative(filePath: string): string {
+    return path.relative(this.folder.uri.fsPath, filePath).split(path.sep).join('/');
+  }
+
+  /**
+   * Absolute path of a stored path
+   * @param relativePath Folder-relative path
+   */
+  toAbsolute(relativePath: string): string {
+    return path.join(this.folder.uri.fsPath, ...relativePath.split('/'));
+  }
+
+  /**
+   * Chunks of the index with absolute paths, as the rest of the extension expects them
+   * @param chunkIds IDs to look up
+   * @returns Chunks found, keyed by ID
+   */
+  async getChunks(chunkIds: string[]): Promise<Map<string, ICodeChunk>> {
+    const chunks = await this.chunkStore.get(chunkIds);
+    for (const [chunkId, chunk] of chunks) {
+      chunks.set(chunkId, { ...chunk, filePath: this.toAbsolute(chunk.filePath) });
+    }
+    return chunks;
+  }
+
+  /**
+   * Swap in the new version of a file; chunks go first so every stored vector can be hydrated
+   * @param relativePath Folder-relative path
+   * @param chunks Chunks of the new version, with folder-relative paths
+   * @param vectors Vector of every chunk
+   * @param contentHash Hash of the file content
+   * @param language Language of the file
+   */
+  async replaceFile(
+    relativePath: string,
+    chunks: ICodeChunk[],
+    vectors: IVectorEntry[],
+    contentHash: string,
+    language: string
+  ): Promise<void> {
+    await this.importFiles([{ relativePath, chunks, vectors, contentHash, language }]);
+  }
+
+  /**
+   * Replace several files at once, writing a single vector segment
+   * Chunk store changes are written on the next flush
+   * @param files Chunks with folder-relative paths, vectors, content hash and language of each file
+   */
+  async importFiles(files: Array<{
+    relativePath: string;
+    chunks: ICodeChunk[];
+    vectors: IVectorEntry[];
+    contentHash: string;
+    language: string;
+  }>): Promise<void> {
+    const removedIds = await this.chunkStore.replaceFiles(files.map(file => ({
+      filePath: file.relativePath,
+      chunks: file.chunks,
+      contentHash: file.contentHash,
+      language: file.language
+    })));
+    await this.vectorStore.replace(removedIds, files.flatMap(file => file.vectors));
+
+    removedIds.forEach(chunkId => this.lexicalIndex.remove(chunkId));
+    for (const file of files) {
+      file.chunks.forEach(chunk => this.lexicalIndex.add(chunk.id, lexicalText(chunk)));
+    }
+  }
+
+  /**
+   * Remove the stored chunks of a file and their vectors
+   * @param relativePath Folder-relative path
+   */
+  async removeFile(relativePath: string): Promise<void> {
+    const chunkIds = await this.chunkStore.deleteFile(relativePath);
+    chunkIds.forEach(chunkId => this.lexicalIndex.remove(chunkId));
+    if (chunkIds.length > 0) {
+      await this.vectorStore.delete(chunkIds);
+    }
+  }
+
+  /**
+   * Remove everything indexed for the folder
+   */
+  async clear(): Promise<void> {
+    await this.vectorStore.clear();
+    await this.chunkStore.clear();
+    this.lexicalIndex.clear();
+  }
+
+  /**
+   * Write chunk store changes that are still pending
+   */
+  flush(): Promise<void> {
+    return this.chunkStore.flush();
+  }
+
+  /**
+   * Count the chunks, files and languages of the folder
+   */
+  async getStats(): Promise<IFolderIndexStats> {
+    const storeStats = await this.vectorStore.getStats();
+    const chunkStats = await this.chunkStore.getStats();
+
+    return {
+      name: this.folder.name,
+      uri: this.key,
+      totalChunks: storeStats.size,
+      totalFiles: chunkStats.totalFiles,
+      indexSize: storeStats.storageSize,
+      lastUpdated: storeStats.lastUpdated,
+      languages: chunkStats.languages
+    };
+  }
+
+  private async initialize(): Promise<void> {
+    await vscode.workspace.fs.createDirectory(this.storageUri);
+
+    const info: IFolderIndexInfo = { uri: this.key, name: this.folder.name };
+    await vscode.workspace.fs.writeFile(
+      vscode.Uri.joinPath(this.storageUri, FolderIndex.INFO_FILE),
+      new TextEncoder().encode(JSON.stringify(info))
+    );
+
+    await this.vectorStore.initialize();
+    await this.chunkStore.initialize();
+
+    // Vectors written after the last chunk store flush, before the extension host went away,
+    // have no chunk to hydrate them; their files are re-indexed as their hashes are out of date
+    const orphaned: string[] = [];
+    const entries = await this.vectorStore.getEntries();
+    const stored = await this.chunkStore.get(entries.map(entry => entry.chunkId));
+    for (const entry of entries) {
+      if (!stored.has(entry.chunkId)) {
+        orphaned.push(entry.chunkId);
+      }
+    }
+    if (orphaned.length > 0) {
+      await this.vectorStore.delete(orphaned);
+    }
+
+    // The lexical index is rebuilt from the stored chunks rather than persisted
+    for (const chunk of await this.chunkStore.getAll()) {
+      this.lexicalIndex.add(chunk.id, lexicalText(chunk));
+    }
+  }
+
+  /**
+   * Move the index of this folder's previous location into place, if there is one
+   */
+  private async adoptMovedIndex(storageRoot: vscode.Uri): Promise<void> {
+    for (const [name, type] of await vscode.workspace.fs.readDirectory(storageRoot)) {
+      if (!(type & vscode.FileType.Directory)) {
+        continue;
+      }
+
+      const directory = vscode.Uri.joinPath(storageRoot, name);
+      let info: IFolderIndexInfo;
+      try {
+        info = JSON.parse(new TextDecoder().decode(
+          await vscode.workspace.fs.readFile(vscode.Uri.joinPath(directory, FolderIndex.INFO_FILE))
+        ));
+      } catch {
+        continue;
+      }
+
+      if (info.name === this.folder.name && info.uri !== this.key && !await exists(vscode.Uri.parse(info.uri))) {
+        await vscode.workspace.fs.rename(directory, this.storageUri);
+        console.log(`Reusing the index of ${info.uri} for ${this.key}`);
+        return;
+      }
+    }
+  }
+}
+
+/**
+ * Text indexed for lexical search: the chunk's symbol names or section, and its content
+ */
+function lexicalText(chunk: ICodeChunk): string {
+  return [chunk.metadata.functionName, chunk.metadata.className, chunk.metadata.section, chunk.content]
+    .filter(Boolean)
+    .join('\n');
+}
+
+async function exists(uri: vscode.Uri): Promise<boolean> {
+  try {
+    await vscode.workspace.fs.stat(uri);
+    return true;
+  } catch {
+    return false;
+  }
+}
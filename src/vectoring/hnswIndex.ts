@@ -0,0 +1,486 @@
+import * as vscode from 'vscode';
+import { IAnnConfig, IHnswParams, IHnswSnapshot, VectoringException } from './types';
+
+interface IScoredNode {
+  node: number;
+  distance: number;
+}
+
+/**
+ * Hierarchical navigable small world graph for approximate cosine similarity search
+ * Removed vectors are only marked as deleted, since they still connect the graph;
+ * callers rebuild the index once too many have piled up
+ */
+export class HnswIndex {
+  private static readonly SNAPSHOT_VERSION = 1;
+
+  private ids: string[] = [];
+  private vectors: number[][] = [];
+  private norms: number[] = [];
+  private levels: number[] = [];
+  private links: number[][][] = [];
+  private deleted: boolean[] = [];
+  private idToNode: Map<string, number> = new Map();
+  private entryPoint = -1;
+  private maxLevel = -1;
+  private deletedCount = 0;
+  private readonly levelFactor: number;
+  private readonly random: () => number;
+
+  constructor(readonly params: IHnswParams) {
+    this.levelFactor = 1 / Math.log(Math.max(2, params.m));
+    this.random = createRandom(params.seed ?? 42);
+  }
+
+  /**
+   * Build an index, yielding to the event loop regularly so large builds don't block the editor
+   * @param entries Vectors to index
+   * @param params Graph parameters
+   * @returns Index over every entry
+   */
+  static async build(entries: Iterable<{ id: string; vector: number[] }>, params: IHnswParams): Promise<HnswIndex> {
+    const index = new HnswIndex(params);
+    let inserted = 0;
+
+    for (const entry of entries) {
+      index.insert(entry.id, entry.vector);
+      if (++inserted % 500 === 0) {
+        await new Promise(resolve => setImmediate(resolve));
+      }
+    }
+
+    return index;
+  }
+
+  /**
+   * Rebuild an index from a snapshot
+   * @param snapshot Saved graph
+   * @param getVector Vector of a live entry, from the store
+   * @returns The index, or null when the snapshot no longer matches the stored vectors
+   */
+  static restore(snapshot: IHnswSnapshot, getVector: (id: string) => number[] | undefined): HnswIndex | null {
+    if (snapshot.version !== HnswIndex.SNAPSHOT_VERSION) {
+      return null;
+    }
+
+    const index = new HnswIndex(snapshot.params);
+    for (let node = 0; node < snapshot.ids.length; node++) {
+      const deletedVector = snapshot.deletedVectors[node];
+      const vector = deletedVector || getVector(snapshot.ids[node]);
+      if (!vector) {
+        return null;
+      }
+
+      index.ids.push(snapshot.ids[node]);
+      index.vectors.push(vector);
+      index.norms.push(vectorNorm(vector));
+      index.levels.push(snapshot.levels[node]);
+      index.links.push(snapshot.links[node]);
+      index.deleted.push(deletedVector !== undefined);
+
+      if (deletedVector) {
+        index.deletedCount++;
+      } else {
+        index.idToNode.set(snapshot.ids[node], node);
+      }
+    }
+
+    index.entryPoint = snapshot.entryPoint;
+    index.maxLevel = snapshot.maxLevel;
+    return index;
+  }
+
+  /**
+   * Number of live vectors
+   */
+  get size(): number {
+    return this.idToNode.size;
+  }
+
+  /**
+   * Share of graph nodes that belong to removed vectors
+   */
+  get deletedRatio(): number {
+    return this.ids.length > 0 ? this.deletedCount / this.ids.length : 0;
+  }
+
+  /**
+   * Add a vector, replacing the one stored under the same ID
+   * @param id Entry ID
+   * @param vector Embedding
+   */
+  insert(id: string, vector: number[]): void {
+    const existing = this.idToNode.get(id);
+    if (existing !== undefined) {
+      if (sameVector(this.vectors[existing], vector)) {
+        return;
+      }
+      this.remove(id);
+    }
+
+    const node = this.ids.length;
+    const norm = vectorNorm(vector);
+    const level = Math.floor(-Math.log(1 - this.random()) * this.levelFactor);
+
+    this.ids.push(id);
+    this.vectors.push(vector);
+    this.norms.push(norm);
+    this.levels.push(level);
+    this.links.push(Array.from({ length: level + 1 }, () => []));
+    this.deleted.push(false);
+    this.idToNode.set(id, node);
+
+    if (this.entryPoint === -1) {
+      this.entryPoint = node;
+      this.maxLevel = level;
+      return;
+    }
+
+    let current = this.entryPoint;
+    for (let layer = this.maxLevel; layer > level; layer--) {
+      current = this.greedyClosest(vector, norm, current, layer);
+    }
+
+    for (let layer = Math.min(level, this.maxLevel); layer >= 0; layer--) {
+      const candidates = this.searchLayer(vector, norm, current, this.params.efConstruction, layer);
+      const maxLinks = this.maxLinks(layer);
+      const neighbors = this.selectNeighbors(candidates, this.params.m);
+
+      this.links[node][layer] = neighbors.map(neighbor => neighbor.node);
+      for (const neighbor of neighbors) {
+        const neighborLinks = this.links[neighbor.node][layer];
+        neighborLinks.push(node);
+        if (neighborLinks.length > maxLinks) {
+          this.pruneLinks(neighbor.node, layer, maxLinks);
+        }
+      }
+
+      current = candidates[0].node;
+    }
+
+    if (level > this.maxLevel) {
+      this.maxLevel = level;
+      this.entryPoint = node;
+    }
+  }
+
+  /**
+   * Mark a vector as removed
+   * @param id Entry ID
+   * @returns True if the ID was indexed
+   */
+  remove(id: string): boolean {
+    const node = this.idToNode.get(id);
+    if (node === undefined) {
+      return false;
+    }
+
+    this.deleted[node] = true;
+    this.idToNode.delete(id);
+    this.deletedCount++;
+    return true;
+  }
+
+  /**
+   * Bring the index in line with a store whose vectors may have changed since the index was built or saved
+   * @param entries Every vector of the store, keyed by ID
+   */
+  sync(entries: Map<string, { vector: number[] }>): void {
+    for (const id of this.getIds()) {
+      if (!entries.has(id)) {
+        this.remove(id);
+      }
+    }
+    for (const [id, entry] of entries) {
+      this.insert(id, entry.vector);
+    }
+  }
+
+  /**
+   * Find the closest live vectors
+   * @param queryVector Query embedding
+   * @param k Number of results
+   * @param efSearch Candidate list size; raised to k when smaller
+   * @returns IDs with cosine similarity, most similar first
+   */
+  search(queryVector: number[], k: number, efSearch: number): Array<{ id: string; similarity: number }> {
+    if (this.entryPoint === -1 || k <= 0) {
+      return [];
+    }
+
+    const norm = vectorNorm(queryVector);
+    let current = this.entryPoint;
+    for (let layer = this.maxLevel; layer > 0; layer--) {
+      current = this.greedyClosest(queryVector, norm, current, layer);
+    }
+
+    return this.searchLayer(queryVector, norm, current, Math.max(efSearch, k), 0)
+      .filter(candidate => !this.deleted[candidate.node])
+      .slice(0, k)
+      .map(candidate => ({ id: this.ids[candidate.node], similarity: 1 - candidate.distance }));
+  }
+
+  /**
+   * IDs of the live vectors
+   */
+  getIds(): string[] {
+    return [...this.idToNode.keys()];
+  }
+
+  /**
+   * Serialize the graph; the snapshot is a copy, so later changes to the index don't alter it
+   */
+  toSnapshot(): IHnswSnapshot {
+    const deletedVectors: Record<number, number[]> = {};
+    this.deleted.forEach((isDeleted, node) => {
+      if (isDeleted) {
+        deletedVectors[node] = this.vectors[node];
+      }
+    });
+
+    return {
+      version: HnswIndex.SNAPSHOT_VERSION,
+      params: { ...this.params },
+      ids: [...this.ids],
+      levels: [...this.levels],
+      links: this.links.map(layers => layers.map(neighbors => [...neighbors])),
+      entryPoint: this.entryPoint,
+      maxLevel: this.maxLevel,
+      deletedVectors
+    };
+  }
+
+  private maxLinks(layer: number): number {
+    return layer === 0 ? this.params.m * 2 : this.params.m;
+  }
+
+  private distance(vector: number[], norm: number, node: number): number {
+    const other = this.vectors[node];
+    const otherNorm = this.norms[node];
+    if (norm === 0 || otherNorm === 0 || other.length !== vector.length) {
+      return 1;
+    }
+
+    let dot = 0;
+    for (let i = 0; i < vector.length; i++) {
+      dot += vector[i] * other[i];
+    }
+    return 1 - dot / (norm * otherNorm);
+  }
+
+  /**
+   * Walk a layer towards the query, one closer neighbour at a time
+   */
+  private greedyClosest(vector: number[], norm: number, start: number, layer: number): number {
+    let current = start;
+    let best = this.distance(vector, norm, current);
+    let improved = true;
+
+    while (improved) {
+      improved = false;
+      for (const neighbor of this.links[current][layer]) {
+        const distance = this.distance(vector, norm, neighbor);
+        if (distance < best) {
+          best = distance;
+          current = neighbor;
+          improved = true;
+        }
+      }
+    }
+
+    return current;
+  }
+
+  /**
+   * Best-first search of one layer
+   * @returns Up to ef nodes, closest first
+   */
+  private searchLayer(vector: number[], norm: number, start: number, ef: number, layer: number): IScoredNode[] {
+    const startScore = { node: start, distance: this.distance(vector, norm, start) };
+    const visited = new Set<number>([start]);
+    const candidates = new BinaryHeap<IScoredNode>((a, b) => a.distance - b.distance);
+    const results = new BinaryHeap<IScoredNode>((a, b) => b.distance - a.distance);
+    candidates.push(startScore);
+    results.push(startScore);
+
+    while (candidates.size > 0) {
+      const closest = candidates.pop()!;
+      if (results.size >= ef && closest.distance > results.peek()!.distance) {
+        break;
+      }
+
+      for (const neighbor of this.links[closest.node][layer]) {
+        if (visited.has(neighbor)) {
+          continue;
+        }
+        visited.add(neighbor);
+
+        const distance = this.distance(vector, norm, neighbor);
+        if (results.size < ef || distance < results.peek()!.distance) {
+          const scored = { node: neighbor, distance };
+          candidates.push(scored);
+          results.push(scored);
+          if (results.size > ef) {
+            results.pop();
+          }
+        }
+      }
+    }
+
+    return results.toArray().sort((a, b) => a.distance - b.distance);
+  }
+
+  /**
+   * Keep candidates that are closer to the query than to any neighbour already kept,
+   * which spreads links across directions, then top up with the closest remaining ones
+   * @param candidates Candidates sorted closest first
+   * @param count Number of neighbours to keep
+   */
+  private selectNeighbors(candidates: IScoredNode[], count: number): IScoredNode[] {
+    const selected: IScoredNode[] = [];
+    const skipped: IScoredNode[] = [];
+
+    for (const candidate of candidates) {
+      if (selected.length >= count) {
+        break;
+      }
+
+      const vector = this.vectors[candidate.node];
+      const norm = this.norms[candidate.node];
+      const diverse = selected.every(kept => this.distance(vector, norm, kept.node) > candidate.distance);
+      (diverse ? selected : skipped).push(candidate);
+    }
+
+    for (const candidate of skipped) {
+      if (selected.length >= count) {
+        break;
+      }
+      selected.push(candidate);
+    }
+
+    return selected;
+  }
+
+  private pruneLinks(node: number, layer: number, maxLinks: number): void {
+    const vector = this.vectors[node];
+    const norm = this.norms[node];
+    const scored = this.links[node][layer]
+      .map(neighbor => ({ node: neighbor, distance: this.distance(vector, norm, neighbor) }))
+      .sort((a, b) => a.distance - b.distance);
+
+    this.links[node][layer] = this.selectNeighbors(scored, maxLinks).map(neighbor => neighbor.node);
+  }
+}
+
+/**
+ * Load approximate search settings
+ */
+export function loadAnnConfig(): IAnnConfig {
+  const config = vscode.workspace.getConfiguration('codeAssist');
+
+  const annConfig: IAnnConfig = {
+    enabled: config.get<boolean>('ann.enabled', true),
+    minVectors: config.get<number>('ann.minVectors', 2000),
+    m: config.get<number>('ann.m', 16),
+    efConstruction: config.get<number>('ann.efConstruction', 100),
+    efSearch: config.get<number>('ann.efSearch', 64)
+  };
+
+  if (annConfig.m < 2 || annConfig.efConstruction < 1 || annConfig.efSearch < 1) {
+    throw new VectoringException('loadAnnConfig', 'codeAssist.ann.m must be at least 2 and ef values at least 1');
+  }
+
+  return annConfig;
+}
+
+/**
+ * Min- or max-heap depending on the comparator
+ */
+class BinaryHeap<T> {
+  private readonly items: T[] = [];
+
+  constructor(private readonly compare: (a: T, b: T) => number) {}
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  peek(): T | undefined {
+    return this.items[0];
+  }
+
+  push(item: T): void {
+    const items = this.items;
+    items.push(item);
+
+    let index = items.length - 1;
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (this.compare(items[index], items[parent]) >= 0) {
+        break;
+      }
+      [items[index], items[parent]] = [items[parent], items[index]];
+      index = parent;
+    }
+  }
+
+  pop(): T | undefined {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length === 0 || last === undefined) {
+      return top;
+    }
+
+    items[0] = last;
+    let index = 0;
+    for (;;) {
+      const left = index * 2 + 1;
+      const right = left + 1;
+      let smallest = index;
+      if (left < items.length && this.compare(items[left], items[smallest]) < 0) {
+        smallest = left;
+      }
+      if (right < items.length && this.compare(items[right], items[smallest]) < 0) {
+        smallest = right;
+      }
+      if (smallest === index) {
+        break;
+      }
+      [items[index], items[smallest]] = [items[smallest], items[index]];
+      index = smallest;
+    }
+
+    return top;
+  }
+
+  toArray(): T[] {
+    return [...this.items];
+  }
+}
+
+function vectorNorm(vector: number[]): number {
+  let sum = 0;
+  for (const value of vector) {
+    sum += value * value;
+  }
+  return Math.sqrt(sum);
+}
+
+function sameVector(a: number[], b: number[]): boolean {
+  return a.length === b.length && a.every((value, i) => Math.fround(value) === Math.fround(b[i]));
+}
+
+/**
+ * Seeded generator, so the same vectors always produce the same graph
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
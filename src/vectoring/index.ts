@@ -4,6 +4,18 @@
  */
 
 export { TransformersEmbeddingProvider } from './embeddingProvider';
+export { EmbeddingWorkerPool, loadEmbeddingPoolConfig } from './embeddingWorkerPool';
 export { CodeParser } from './codeParser';
+export { TypeScriptParser } from './typeScriptParser';
+export { MarkdownParser } from './markdownParser';
+export { StructuredDataParser } from './structuredDataParser';
+export { NotebookParser } from './notebookParser';
 export { FileVectorStore } from './vectorStore';
+export { FileChunkStore } from './chunkStore';
+export { FolderIndex } from './folderIndex';
+export { migrateSharedIndex } from './sharedIndexMigration';
+export { BackgroundIndexer } from './backgroundIndexer';
+export { HnswIndex, loadAnnConfig } from './hnswIndex';
+export { benchmarkVectorSearch } from './annBenchmark';
+export { Bm25Index, tokenizeIdentifiers, reciprocalRankFusion } from './lexicalIndex';
 export * from './types';
@@ -0,0 +1,171 @@
+import { ILexicalMatch } from './types';
+
+interface IIndexedDocument {
+  /** Distinct terms, so removal only visits the postings the document appears in */
+  terms: string[];
+  length: number;
+}
+
+/**
+ * In-memory BM25 inverted index over chunk text
+ * Identifiers are split into their words, so `handleActionButtonClick` also matches "button click"
+ */
+export class Bm25Index {
+  private readonly postings: Map<string, Map<string, number>> = new Map();
+  private readonly documents: Map<string, IIndexedDocument> = new Map();
+  private totalLength = 0;
+
+  /**
+   * @param k1 Term frequency saturation
+   * @param b Document length normalization
+   */
+  constructor(private readonly k1: number = 1.2, private readonly b: number = 0.75) {}
+
+  /**
+   * Number of indexed documents
+   */
+  get size(): number {
+    return this.documents.size;
+  }
+
+  /**
+   * Index a document, replacing any previous version
+   * @param id Document ID
+   * @param text Document text
+   */
+  add(id: string, text: string): void {
+    this.remove(id);
+
+    const tokens = tokenizeIdentifiers(text);
+    const frequencies = new Map<string, number>();
+    for (const token of tokens) {
+      frequencies.set(token, (frequencies.get(token) || 0) + 1);
+    }
+
+    for (const [term, frequency] of frequencies) {
+      let posting = this.postings.get(term);
+      if (!posting) {
+        posting = new Map();
+        this.postings.set(term, posting);
+      }
+      posting.set(id, frequency);
+    }
+
+    this.documents.set(id, { terms: [...frequencies.keys()], length: tokens.length });
+    this.totalLength += tokens.length;
+  }
+
+  /**
+   * Remove a document
+   * @param id Document ID
+   */
+  remove(id: string): void {
+    const document = this.documents.get(id);
+    if (!document) {
+      return;
+    }
+
+    for (const term of document.terms) {
+      const posting = this.postings.get(term);
+      posting?.delete(id);
+      if (posting?.size === 0) {
+        this.postings.delete(term);
+      }
+    }
+
+    this.documents.delete(id);
+    this.totalLength -= document.length;
+  }
+
+  /**
+   * Remove every document
+   */
+  clear(): void {
+    this.postings.clear();
+    this.documents.clear();
+    this.totalLength = 0;
+  }
+
+  /**
+   * Rank documents against a query
+   * @param query Query text, tokenized like the documents
+   * @param limit Maximum number of results
+   * @returns Matching documents, best first
+   */
+  search(query: string, limit: number = 10): ILexicalMatch[] {
+    if (this.documents.size === 0) {
+      return [];
+    }
+
+    const averageLength = this.totalLength / this.documents.size;
+    const scores = new Map<string, number>();
+
+    for (const term of new Set(tokenizeIdentifiers(query))) {
+      const posting = this.postings.get(term);
+      if (!posting) {
+        continue;
+      }
+
+      const idf = Math.log(1 + (this.documents.size - posting.size + 0.5) / (posting.size + 0.5));
+      for (const [id, frequency] of posting) {
+        const length = this.documents.get(id)!.length;
+        const normalization = this.k1 * (1 - this.b + this.b * length / averageLength);
+        const score = idf * frequency * (this.k1 + 1) / (frequency + normalization);
+        scores.set(id, (scores.get(id) || 0) + score);
+      }
+    }
+
+    return Array.from(scores, ([chunkId, score]) => ({ chunkId, score }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+}
+
+/**
+ * Split text into lowercase search terms
+ * Each identifier yields its camelCase, PascalCase and snake_case words, plus the whole identifier
+ * without separators so `handle_click` and `handleClick` share a term
+ * @param text Code or query text
+ * @returns Terms in order of appearance, single characters excluded
+ */
+export function tokenizeIdentifiers(text: string): string[] {
+  const tokens: string[] = [];
+
+  for (const identifier of text.match(/[A-Za-z0-9_$]+/g) || []) {
+    const words = identifier
+      .split(/[_$]+/)
+      .flatMap(part => part.match(/[A-Z]+(?![a-z])|[A-Z]?[a-z]+|\d+/g) || []);
+
+    for (const word of words) {
+      if (word.length > 1) {
+        tokens.push(word.toLowerCase());
+      }
+    }
+
+    if (words.length > 1) {
+      tokens.push(words.join('').toLowerCase());
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Merge rankings by reciprocal rank fusion: each list adds 1 / (k + rank) to the score of its items
+ * Only ranks count, so lists with incomparable scores (cosine similarity, BM25) can be merged
+ * @param rankings Item IDs of each list, best first
+ * @param k Damping constant; larger values flatten the difference between top and lower ranks
+ * @returns Items of every list with their fused score, best first
+ */
+export function reciprocalRankFusion(rankings: string[][], k: number = 60): Array<{ id: string; score: number }> {
+  const scores = new Map<string, number>();
+
+  for (const ranking of rankings) {
+    ranking.forEach((id, index) => {
+      scores.set(id, (scores.get(id) || 0) + 1 / (k + index + 1));
+    });
+  }
+
+  return Array.from(scores, ([id, score]) => ({ id, score }))
+    .sort((a, b) => b.score - a.score);
+}
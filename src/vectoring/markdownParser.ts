@@ -0,0 +1,105 @@
+import { ICodeParser, ICodeChunk, ICodeMetadata, CodeChunkType, VectoringException } from './types';
+import { generateChunkId } from './chunkId';
+
+/**
+ * Parser for Markdown documentation
+ * Splits a document into heading sections, each knowing the headings above it
+ */
+export class MarkdownParser implements ICodeParser {
+  public readonly language = 'markdown';
+
+  /**
+   * Parse a document into one chunk per heading section
+   * Text before the first heading becomes its own section, and headings inside code fences are ignored
+   * @param content File content
+   * @param filePath File path
+   * @returns Array of code chunks
+   */
+  async parseFile(content: string, filePath: string): Promise<ICodeChunk[]> {
+    try {
+      const lines = content.split('\n');
+      const headings = this.findHeadings(lines);
+      const chunks: ICodeChunk[] = [];
+      const trail: Array<{ level: number; title: string }> = [];
+
+      const boundaries = [{ line: 0, level: 0, title: '' }, ...headings];
+      boundaries.forEach((heading, index) => {
+        const endLine = (boundaries[index + 1]?.line ?? lines.length) - 1;
+        if (heading.level > 0) {
+          while (trail.length > 0 && trail[trail.length - 1].level >= heading.level) {
+            trail.pop();
+          }
+          trail.push(heading);
+        }
+
+        // A heading with nothing below it before the next one adds nothing to search
+        const body = lines.slice(heading.level > 0 ? heading.line + 1 : heading.line, endLine + 1).join('\n').trim();
+        if (!body) {
+          return;
+        }
+
+        chunks.push({
+          id: generateChunkId(filePath, heading.line),
+          filePath,
+          content: lines.slice(heading.line, endLine + 1).join('\n').trim(),
+          startLine: heading.line,
+          endLine,
+          language: this.language,
+          type: CodeChunkType.MARKDOWN_SECTION,
+          metadata: {
+            ...this.emptyMetadata(),
+            section: trail.map(entry => entry.title).join(' > ') || undefined
+          }
+        });
+      });
+
+      return chunks;
+
+    } catch (error) {
+      throw new VectoringException('parseFile', `Failed to parse file ${filePath}`, error);
+    }
+  }
+
+  /**
+   * Documentation carries no imports, exports or complexity
+   */
+  async extractMetadata(content: string): Promise<ICodeMetadata> {
+    return this.emptyMetadata();
+  }
+
+  /**
+   * ATX headings (`## Title`) outside fenced code blocks
+   */
+  private findHeadings(lines: string[]): Array<{ line: number; level: number; title: string }> {
+    const headings: Array<{ line: number; level: number; title: string }> = [];
+    let fence: string | undefined;
+
+    lines.forEach((line, index) => {
+      const fenceMatch = line.match(/^\s{0,3}(`{3,}|~{3,})/);
+      if (fenceMatch) {
+        if (!fence) {
+          fence = fenceMatch[1];
+        } else if (fenceMatch[1].startsWith(fence)) {
+          fence = undefined;
+        }
+        return;
+      }
+
+      const headingMatch = !fence && line.match(/^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/);
+      if (headingMatch) {
+        headings.push({ line: index, level: headingMatch[1].length, title: headingMatch[2] });
+      }
+    });
+
+    return headings;
+  }
+
+  private emptyMetadata(): ICodeMetadata {
+    return {
+      imports: [],
+      exports: [],
+      dependencies: [],
+      lastModified: Date.now()
+    };
+  }
+}
@@ -0,0 +1,99 @@
+import * as vscode from 'vscode';
+import { FileVectorStore } from './vectorStore';
+import { FileChunkStore } from './chunkStore';
+import { FolderIndex } from './folderIndex';
+import { generateChunkId } from './chunkId';
+import { ICodeChunk, IVectorEntry } from './types';
+
+/**
+ * Move the single index of earlier versions, which stored absolute paths, into the folder indexes
+ * Each file goes to the index of the folder containing it, with a folder-relative path and chunk IDs;
+ * files outside every open folder are dropped. The old index is deleted only once every folder has
+ * taken its files, so a failed migration is retried on the next start
+ * @param storageUri Directory holding the shared index
+ * @param getFolderIndexOf Index of the workspace folder containing an absolute path, undefined outside the workspace
+ */
+export async function migrateSharedIndex(
+  storageUri: vscode.Uri,
+  getFolderIndexOf: (filePath: string) => Promise<FolderIndex | undefined>
+): Promise<void> {
+  const sharedDirectories = [];
+  for (const directory of ['chunks', 'vectors']) {
+    const uri = vscode.Uri.joinPath(storageUri, directory);
+    try {
+      await vscode.workspace.fs.stat(uri);
+      sharedDirectories.push(uri);
+    } catch {
+      // Never created, or already migrated
+    }
+  }
+  if (sharedDirectories.length === 0) {
+    return;
+  }
+
+  try {
+    // Opening the old vector store converts a vectors.json index into segments first
+    const sharedVectors = new FileVectorStore(storageUri);
+    const sharedChunks = new FileChunkStore(storageUri);
+    await sharedVectors.initialize();
+    await sharedChunks.initialize();
+
+    const imports = new Map<FolderIndex, Parameters<FolderIndex['importFiles']>[0]>();
+    let dropped = 0;
+
+    for (const filePath of await sharedChunks.getIndexedFiles()) {
+      const folderIndex = await getFolderIndexOf(filePath);
+      const entry = await sharedChunks.getFileEntry(filePath);
+      if (!folderIndex || !entry) {
+        dropped++;
+        continue;
+      }
+
+      const relativePath = folderIndex.toRelative(filePath);
+      if (await folderIndex.chunkStore.getFileEntry(relativePath)) {
+        continue; // Indexed again since, which is more recent
+      }
+
+      const sharedVectorsOfFile = await sharedVectors.getByChunkIds(entry.chunkIds);
+      const chunks: ICodeChunk[] = [];
+      const vectors: IVectorEntry[] = [];
+      for (const chunk of (await sharedChunks.get(entry.chunkIds)).values()) {
+        const vector = sharedVectorsOfFile.get(chunk.id);
+        if (!vector) {
+          continue;
+        }
+
+        const chunkId = generateChunkId(relativePath, chunk.startLine);
+        chunks.push({ ...chunk, id: chunkId, filePath: relativePath });
+        vectors.push({ id: `${chunkId}_vector`, chunkId, vector: vector.vector });
+      }
+
+      const files = imports.get(folderIndex) || [];
+      files.push({
+        relativePath,
+        chunks,
+        vectors,
+        // A file that lost chunks on the way is re-indexed by the next workspace indexing
+        contentHash: chunks.length === entry.chunkIds.length ? entry.contentHash : '',
+        language: entry.language
+      });
+      imports.set(folderIndex, files);
+    }
+
+    for (const [folderIndex, files] of imports) {
+      await folderIndex.importFiles(files);
+      await folderIndex.flush();
+    }
+
+    for (const uri of sharedDirectories) {
+      await vscode.workspace.fs.delete(uri, { recursive: true });
+    }
+
+    if (dropped > 0) {
+      console.log(`Dropped ${dropped} indexed file(s) outside the open workspace folders while migrating the index`);
+    }
+
+  } catch (error) {
+    console.error('Failed to migrate the shared index into the workspace folder indexes:', error);
+  }
+}
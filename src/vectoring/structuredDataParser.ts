@@ -0,0 +1,234 @@
+import { ICodeParser, ICodeChunk, ICodeMetadata, CodeChunkType, VectoringException } from './types';
+import { generateChunkId } from './chunkId';
+
+interface IEntryRange {
+  key: string;
+  startLine: number;
+  endLine: number;
+}
+
+/**
+ * Parser for JSON and YAML configuration files
+ * Splits a file by top-level key, so `scripts` in package.json or each job of a CI workflow can be found on its own
+ */
+export class StructuredDataParser implements ICodeParser {
+  public readonly language: string;
+
+  /**
+   * @param language `json` or `yaml`
+   */
+  constructor(language: 'json' | 'yaml') {
+    this.language = language;
+  }
+
+  /**
+   * Parse a file into one chunk per top-level key
+   * Files without top-level keys, such as a root array, become a single chunk
+   * @param content File content
+   * @param filePath File path
+   * @returns Array of code chunks
+   */
+  async parseFile(content: string, filePath: string): Promise<ICodeChunk[]> {
+    try {
+      const lines = content.split('\n');
+      const entries = this.language === 'json' ? this.splitJson(content) : this.splitYaml(lines);
+      const type = this.language === 'json' ? CodeChunkType.JSON_ENTRY : CodeChunkType.YAML_ENTRY;
+
+      if (entries.length === 0) {
+        return content.trim() ? [this.createChunk(filePath, lines, { key: '', startLine: 0, endLine: lines.length - 1 }, type)] : [];
+      }
+
+      // Keys sharing a line, as in minified JSON, share a chunk since chunk IDs come from the start line
+      const merged: IEntryRange[] = [];
+      for (const entry of entries) {
+        const previous = merged[merged.length - 1];
+        if (previous && entry.startLine <= previous.endLine) {
+          previous.key = `${previous.key}, ${entry.key}`;
+          previous.endLine = Math.max(previous.endLine, entry.endLine);
+        } else {
+          merged.push({ ...entry });
+        }
+      }
+
+      return merged.map(entry => this.createChunk(filePath, lines, entry, type));
+
+    } catch (error) {
+      throw new VectoringException('parseFile', `Failed to parse file ${filePath}`, error);
+    }
+  }
+
+  /**
+   * Configuration carries no imports, exports or complexity
+   */
+  async extractMetadata(content: string): Promise<ICodeMetadata> {
+    return {
+      imports: [],
+      exports: [],
+      dependencies: [],
+      lastModified: Date.now()
+    };
+  }
+
+  private createChunk(filePath: string, lines: string[], entry: IEntryRange, type: CodeChunkType): ICodeChunk {
+    return {
+      id: generateChunkId(filePath, entry.startLine),
+      filePath,
+      content: lines.slice(entry.startLine, entry.endLine + 1).join('\n').trim(),
+      startLine: entry.startLine,
+      endLine: entry.endLine,
+      language: this.language,
+      type,
+      metadata: {
+        imports: [],
+        exports: [],
+        dependencies: [],
+        section: entry.key || undefined,
+        lastModified: Date.now()
+      }
+    };
+  }
+
+  /**
+   * Find the members of the root object by scanning the text, which keeps their positions
+   * and tolerates the comments and trailing commas of tsconfig-style files
+   */
+  private splitJson(text: string): IEntryRange[] {
+    const entries: IEntryRange[] = [];
+    let depth = 0;
+    let current: { key: string; start: number } | undefined;
+    let valueEnd = 0;
+    let i = 0;
+
+    const close = () => {
+      if (current) {
+        entries.push({ key: current.key, startLine: lineAt(text, current.start), endLine: lineAt(text, valueEnd) });
+        current = undefined;
+      }
+    };
+
+    while (i < text.length) {
+      const char = text[i];
+
+      if (char === '"') {
+        const end = skipString(text, i);
+        if (depth === 1 && !current) {
+          current = { key: parseKey(text.substring(i, end)), start: i };
+        }
+        valueEnd = end;
+        i = end;
+        continue;
+      }
+
+      if (char === '/' && (text[i + 1] === '/' || text[i + 1] === '*')) {
+        const end = text[i + 1] === '/' ? text.indexOf('\n', i) : text.indexOf('*/', i + 2) + 1;
+        i = end <= 0 ? text.length : end + 1;
+        continue;
+      }
+
+      if (char === '{' || char === '[') {
+        if (depth === 0 && char === '[') {
+          return [];
+        }
+        depth++;
+      } else if (char === '}' || char === ']') {
+        depth--;
+        if (depth === 0) {
+          close();
+          break;
+        }
+        valueEnd = i + 1;
+      } else if (char === ',' && depth === 1) {
+        close();
+      } else if (char !== ':' && !/\s/.test(char)) {
+        valueEnd = i + 1;
+      }
+
+      i++;
+    }
+
+    return entries;
+  }
+
+  /**
+   * Top-level keys start at column 0; comments right above a key belong to it,
+   * and `---` starts a new document
+   */
+  private splitYaml(lines: string[]): IEntryRange[] {
+    const entries: IEntryRange[] = [];
+    let commentStart: number | undefined;
+
+    const closeLast = (endLine: number) => {
+      const last = entries[entries.length - 1];
+      if (last && last.endLine === -1) {
+        last.endLine = Math.max(last.startLine, endLine);
+      }
+    };
+
+    lines.forEach((line, index) => {
+      if (/^(---|\.\.\.)\s*$/.test(line)) {
+        closeLast(index - 1);
+        commentStart = undefined;
+        return;
+      }
+
+      if (line.startsWith('#')) {
+        commentStart = commentStart ?? index;
+        return;
+      }
+
+      const keyMatch = line.match(/^("[^"]*"|'[^']*'|[^\s#'"\-?:][^#]*?)\s*:(\s|$)/);
+      if (keyMatch) {
+        const startLine = commentStart ?? index;
+        closeLast(startLine - 1);
+        entries.push({ key: keyMatch[1].replace(/^["']|["']$/g, ''), startLine, endLine: -1 });
+      }
+
+      if (line.trim()) {
+        commentStart = undefined;
+      }
+    });
+
+    closeLast(lines.length - 1);
+
+    // Trailing blank lines are not part of the last value
+    for (const entry of entries) {
+      while (entry.endLine > entry.startLine && !lines[entry.endLine].trim()) {
+        entry.endLine--;
+      }
+    }
+
+    return entries;
+  }
+}
+
+function skipString(text: string, start: number): number {
+  let i = start + 1;
+  while (i < text.length) {
+    if (text[i] === '\\') {
+      i += 2;
+    } else if (text[i] === '"') {
+      return i + 1;
+    } else {
+      i++;
+    }
+  }
+  return text.length;
+}
+
+function parseKey(literal: string): string {
+  try {
+    return JSON.parse(literal);
+  } catch {
+    return literal.slice(1, -1);
+  }
+}
+
+function lineAt(text: string, offset: number): number {
+  let line = 0;
+  for (let i = 0; i < offset && i < text.length; i++) {
+    if (text[i] === '\n') {
+      line++;
+    }
+  }
+  return line;
+}
@@ -0,0 +1,693 @@
+/**
+ * Test file for the vectoring module
+ * Runs the search indexes on small fixed datasets in a temporary directory, no embedding model or network required
+ */
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { HnswIndex, loadAnnConfig } from './hnswIndex';
+import { Bm25Index, reciprocalRankFusion, tokenizeIdentifiers } from './lexicalIndex';
+import { TypeScriptParser } from './typeScriptParser';
+import { MarkdownParser } from './markdownParser';
+import { StructuredDataParser } from './structuredDataParser';
+import { NotebookParser } from './notebookParser';
+import { FileVectorStore } from './vectorStore';
+import { FolderIndex } from './folderIndex';
+import { migrateSharedIndex } from './sharedIndexMigration';
+import { generateChunkId } from './chunkId';
+import { CodeChunkType, ICodeChunk, IHnswParams, IVectorEntry, VectoringException } from './types';
+import { assert } from '../test/assert';
+
+/**
+ * Test HNSW recall against exact search, removal and persistence
+ * This function can be called from the extension for testing purposes
+ */
+export async function testHnswIndex(): Promise<void> {
+  console.log('🧪 Starting HNSW index tests...');
+
+  const directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'codeassist-hnsw-'));
+  const params: IHnswParams = { m: 16, efConstruction: 100 };
+  const random = createRandom(7);
+  const vectors = generateClusteredVectors(600, 24, random);
+  const queries = generateClusteredVectors(50, 24, random).map(query => query.vector);
+  const k = 10;
+
+  try {
+    // Test 1: Recall of approximate search against an exact scan
+    console.log('📝 Test 1: Measuring recall against exact search...');
+    const index = await HnswIndex.build(vectors, params);
+    assert(index.size === vectors.length, `expected ${vectors.length} vectors, got ${index.size}`);
+
+    let found = 0;
+    for (const query of queries) {
+      const exact = new Set(exactSearch(vectors, query, k));
+      found += index.search(query, k, 64).filter(match => exact.has(match.id)).length;
+    }
+    const recall = found / (queries.length * k);
+    console.log(`📊 Recall@${k}: ${(recall * 100).toFixed(1)}%`);
+    assert(recall >= 0.9, `recall ${recall.toFixed(3)} is below 0.9`);
+
+    const self = index.search(vectors[123].vector, 1, 64)[0];
+    assert(self?.id === vectors[123].id && Math.abs(self.similarity - 1) < 1e-9, 'an indexed vector is not its own nearest neighbour');
+    console.log('✅ Approximate results match exact search');
+
+    // Test 2: Removed vectors are never returned, replaced vectors are found at their new position
+    console.log('📝 Test 2: Removing and replacing vectors...');
+    const removed = index.search(queries[0], 3, 64).map(match => match.id);
+    removed.forEach(id => assert(index.remove(id), `${id} was not indexed`));
+    assert(!index.remove(removed[0]), 'removing twice reported success');
+    const afterRemoval = index.search(queries[0], k, 64).map(match => match.id);
+    assert(!afterRemoval.some(id => removed.includes(id)), 'a removed vector was returned');
+    assert(index.size === vectors.length - removed.length, 'size does not account for removals');
+
+    index.insert(vectors[0].id, queries[1]);
+    assert(index.search(queries[1], 1, 64)[0]?.id === vectors[0].id, 'replaced vector not found at its new position');
+    console.log('✅ Removals and replacements applied');
+
+    // Test 3: A snapshot restores the same graph, and is refused when it no longer matches the vectors
+    console.log('📝 Test 3: Restoring a snapshot...');
+    const current = new Map(vectors.map(entry => [entry.id, entry.vector]));
+    current.set(vectors[0].id, queries[1]);
+    removed.forEach(id => current.delete(id));
+
+    const snapshot = JSON.parse(JSON.stringify(index.toSnapshot()));
+    const restored = HnswIndex.restore(snapshot, id => current.get(id));
+    assert(restored !== null, 'snapshot was not restored');
+    for (const query of queries.slice(0, 10)) {
+      const expected = index.search(query, k, 64).map(match => match.id).join();
+      assert(restored!.search(query, k, 64).map(match => match.id).join() === expected, 'restored graph answers differently');
+    }
+    assert(restored!.size === index.size, 'restored graph has a different size');
+    assert(HnswIndex.restore(snapshot, id => id === vectors[5].id ? undefined : current.get(id)) === null, 'snapshot restored with a vector missing');
+    assert(HnswIndex.restore({ ...snapshot, version: 0 }, id => current.get(id)) === null, 'snapshot of another version restored');
+    console.log('✅ Snapshot round trip preserved the graph');
+
+    // Test 4: The vector store saves the graph and loads it back instead of rebuilding it
+    console.log('📝 Test 4: Persisting the graph through the vector store...');
+    const storageUri = vscode.Uri.file(directory);
+    const annConfig = loadAnnConfig();
+    const entries: IVectorEntry[] = vectors.map(entry => ({ id: `${entry.id}_vector`, chunkId: entry.id, vector: entry.vector }));
+
+    const store = new FileVectorStore(storageUri);
+    await store.store(entries);
+    const before = (await store.searchApproximate(queries[2], k, annConfig)).map(entry => entry.id);
+    // Storing nothing waits for the queued writes, including the graph
+    await store.store([]);
+
+    const graphFile = path.join(directory, 'vectors', 'hnsw.json');
+    const savedAt = (await fs.promises.stat(graphFile)).mtimeMs;
+
+    const reopened = new FileVectorStore(storageUri);
+    const after = (await reopened.searchApproximate(queries[2], k, annConfig)).map(entry => entry.id);
+    await reopened.store([]);
+    assert(after.join() === before.join(), 'reloaded store answers differently');
+    assert((await fs.promises.stat(graphFile)).mtimeMs === savedAt, 'graph was rebuilt instead of loaded');
+
+    // Segments written after the graph was saved are replayed into it on the next load
+    await reopened.delete([before[0].replace(/_vector$/, '')]);
+    const replayed = new FileVectorStore(storageUri);
+    const afterDelete = (await replayed.searchApproximate(queries[2], k, annConfig)).map(entry => entry.id);
+    assert(!afterDelete.includes(before[0]), 'vector deleted after the graph was saved came back');
+    assert(afterDelete[0] === before[1], 'next best match did not move up');
+    console.log('✅ Graph persisted and reloaded');
+
+    console.log('🎉 HNSW index tests completed successfully!');
+
+  } catch (error) {
+    console.error('❌ HNSW index test failed:', error);
+    vscode.window.showErrorMessage(
+      `HNSW index test failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  } finally {
+    await fs.promises.rm(directory, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Test identifier tokenization, BM25 ranking and reciprocal rank fusion
+ * This function can be called from the extension for testing purposes
+ */
+export async function testLexicalIndex(): Promise<void> {
+  console.log('🧪 Starting lexical index tests...');
+
+  try {
+    // Test 1: Identifiers are split into their words, plus the whole identifier
+    console.log('📝 Test 1: Tokenizing identifiers...');
+    const cases: Array<[string, string[]]> = [
+      ['handleActionButtonClick', ['handle', 'action', 'button', 'click', 'handleactionbuttonclick']],
+      ['handle_click', ['handle', 'click', 'handleclick']],
+      ['parse_HTTPResponse2', ['parse', 'http', 'response', 'parsehttpresponse2']],
+      ['$scope.x = MAX_RETRIES', ['scope', 'max', 'retries', 'maxretries']],
+      ['a + b', []]
+    ];
+    for (const [text, expected] of cases) {
+      const tokens = tokenizeIdentifiers(text);
+      assert(tokens.join() === expected.join(), `${text} gave [${tokens.join(', ')}]`);
+    }
+    assert(tokenizeIdentifiers('handleClick').includes('handleclick') &&
+      tokenizeIdentifiers('handle_click').includes('handleclick'), 'camelCase and snake_case spellings share no term');
+    console.log(`✅ ${cases.length} identifiers tokenized`);
+
+    // Test 2: BM25 favours rare terms, repeated terms and short documents
+    console.log('📝 Test 2: Ranking with BM25...');
+    const index = new Bm25Index();
+    index.add('common', 'function render() { return view; }');
+    index.add('rare', 'function renderTooltip() { return tooltip; }');
+    index.add('repeated', 'tooltip tooltip tooltip render');
+    index.add('long', 'tooltip ' + 'padding words that say nothing '.repeat(20));
+    index.add('unrelated', 'const answer = 42;');
+
+    const tooltip = index.search('tooltip').map(match => match.chunkId);
+    assert(tooltip.join() === 'repeated,rare,long', `tooltip ranked ${tooltip.join()}`);
+
+    const renderTooltip = index.search('render tooltip');
+    assert(renderTooltip[0].chunkId === 'rare' || renderTooltip[0].chunkId === 'repeated', 'document with both terms not ranked first');
+    assert(renderTooltip.find(match => match.chunkId === 'common')!.score <
+      renderTooltip.find(match => match.chunkId === 'rare')!.score, 'a rarer matching term did not raise the score');
+
+    const functionScore = index.search('function').find(match => match.chunkId === 'common')!.score;
+    const returnScore = index.search('return').find(match => match.chunkId === 'common')!.score;
+    assert(Math.abs(functionScore - returnScore) < 1e-9, 'terms with the same document frequency scored differently');
+    assert(index.search('answer').length === 1 && index.search('nothing here').every(match => match.chunkId === 'long'), 'unexpected matches');
+    assert(index.search('').length === 0 && index.search('tooltip', 2).length === 2, 'empty query or limit not honoured');
+    console.log('✅ BM25 ranking as expected');
+
+    // Test 3: Replacing and removing documents updates the postings and lengths
+    console.log('📝 Test 3: Replacing and removing documents...');
+    index.add('unrelated', 'tooltip helper');
+    assert(index.size === 5, `expected 5 documents, got ${index.size}`);
+    assert(index.search('answer').length === 0, 'replaced text still matches');
+    assert(index.search('tooltip').some(match => match.chunkId === 'unrelated'), 'new text does not match');
+
+    index.remove('repeated');
+    index.remove('missing');
+    assert(index.size === 4 && !index.search('tooltip').some(match => match.chunkId === 'repeated'), 'removed document still matches');
+    index.clear();
+    assert(index.size === 0 && index.search('tooltip').length === 0, 'cleared index still matches');
+    console.log('✅ Postings kept in line with the documents');
+
+    // Test 4: Reciprocal rank fusion rewards items ranked well by several lists
+    console.log('📝 Test 4: Fusing rankings...');
+    const vector = ['a', 'b', 'c', 'd'];
+    const lexical = ['c', 'a', 'e'];
+    const fused = reciprocalRankFusion([vector, lexical]);
+    assert(fused.map(item => item.id).join() === 'a,c,b,e,d', `fused order was ${fused.map(item => item.id).join()}`);
+    assert(Math.abs(fused[0].score - (1 / 61 + 1 / 62)) < 1e-12, `score of a was ${fused[0].score}`);
+
+    // A small k lets a single first place outweigh two middling ranks
+    const sharp = reciprocalRankFusion([['x', 'y', 'z'], ['w', 'v', 'y']], 0).map(item => item.id);
+    assert(sharp[0] === 'x' && sharp[1] === 'w', `k=0 order was ${sharp.join()}`);
+    const flat = reciprocalRankFusion([['x', 'y', 'z'], ['w', 'v', 'y']], 60).map(item => item.id);
+    assert(flat[0] === 'y', `k=60 order was ${flat.join()}`);
+    assert(reciprocalRankFusion([]).length === 0 && reciprocalRankFusion([[], ['only']])[0].id === 'only', 'empty lists not handled');
+    console.log('✅ Fusion order as expected');
+
+    console.log('🎉 Lexical index tests completed successfully!');
+
+  } catch (error) {
+    console.error('❌ Lexical index test failed:', error);
+    vscode.window.showErrorMessage(
+      `Lexical index test failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+}
+
+/**
+ * Test declaration chunking of the TypeScript parser and its handling of syntax errors
+ * This function can be called from the extension for testing purposes
+ */
+export async function testTypeScriptParser(): Promise<void> {
+  console.log('🧪 Starting TypeScript parser tests...');
+
+  const source = [
+    "import { readFile } from 'fs';",            // 0
+    "import * as path from 'path';",             // 1
+    '',                                          // 2
+    '/**',                                       // 3
+    ' * Greets someone',                         // 4
+    ' */',                                       // 5
+    'export function greet(name: string): string;',                 // 6
+    'export function greet(name: string, loud: boolean): string;',  // 7
+    'export function greet(name: string, loud = false): string {',  // 8
+    '  return loud ? name.toUpperCase() : name;', // 9
+    '}',                                         // 10
+    '',                                          // 11
+    'export const load = async (file: string) => {', // 12
+    '  return readFile(file);',                  // 13
+    '};',                                        // 14
+    '',                                          // 15
+    '/** A shape */',                            // 16
+    '@sealed',                                   // 17
+    'export class Shape {',                      // 18
+    '  private sides = 0;',                      // 19
+    '',                                          // 20
+    '  constructor(sides: number) {',            // 21
+    '    this.sides = sides;',                   // 22
+    '  }',                                       // 23
+    '',                                          // 24
+    '  area(): number;',                         // 25
+    '  area(scale: number): number;',            // 26
+    '  area(scale = 1): number {',               // 27
+    '    return this.sides * scale;',            // 28
+    '  }',                                       // 29
+    '',                                          // 30
+    '  onClick = () => {',                       // 31
+    "    return path.join('a', 'b');",           // 32
+    '  };',                                      // 33
+    '}',                                         // 34
+    '',                                          // 35
+    'interface Options { depth: number }',       // 36
+    '',                                          // 37
+    'type Id = string | number;'                 // 38
+  ].join('\n');
+
+  try {
+    const parser = new TypeScriptParser('typescript');
+
+    // Test 1: Every declaration gets a chunk spanning its JSDoc, decorators and overloads
+    console.log('📝 Test 1: Chunking declarations...');
+    const chunks = await parser.parseFile(source, '/workspace/src/shape.ts');
+    const expected: Array<[CodeChunkType, number, number, string | undefined, string | undefined]> = [
+      [CodeChunkType.IMPORT, 0, 1, undefined, undefined],
+      [CodeChunkType.FUNCTION, 3, 10, 'greet', undefined],
+      [CodeChunkType.FUNCTION, 12, 14, 'load', undefined],
+      [CodeChunkType.CLASS, 16, 20, undefined, 'Shape'],
+      [CodeChunkType.FUNCTION, 21, 23, 'constructor', 'Shape'],
+      [CodeChunkType.FUNCTION, 25, 29, 'area', 'Shape'],
+      [CodeChunkType.FUNCTION, 31, 33, 'onClick', 'Shape'],
+      [CodeChunkType.INTERFACE, 36, 36, undefined, undefined],
+      [CodeChunkType.TYPE, 38, 38, undefined, undefined]
+    ];
+    const actual = chunks.map(describeChunk);
+    assert(actual.join('\n') === expected.map(entry => entry.join(' ')).join('\n'), `chunks were\n${actual.join('\n')}`);
+    console.log(`✅ ${chunks.length} chunks with the expected ranges`);
+
+    // Test 2: Chunk text matches its line range, and symbols know the modules they use
+    console.log('📝 Test 2: Checking chunk content and metadata...');
+    const lines = source.split('\n');
+    for (const chunk of chunks) {
+      const range = lines.slice(chunk.startLine, chunk.endLine + 1).join('\n');
+      assert(chunk.content.trim() === range.trim(), `content of line ${chunk.startLine} does not match its range`);
+    }
+    const greet = chunks[1];
+    assert(greet.content.startsWith('/**') && greet.content.includes('loud: boolean'), 'JSDoc or overloads missing from greet');
+    assert(greet.metadata.complexity === 2, `greet complexity was ${greet.metadata.complexity}`);
+    assert(chunks[2].metadata.dependencies?.join() === 'fs', 'load does not depend on fs');
+    assert(chunks[6].metadata.dependencies?.join() === 'path', 'onClick does not depend on path');
+    assert(chunks[3].content.includes('@sealed') && !chunks[3].content.includes('constructor'), 'class header has the wrong extent');
+    assert(greet.metadata.imports?.join() === 'fs,path', 'file imports missing');
+    assert(greet.metadata.exports?.join() === 'greet,load,Shape', `exports were ${greet.metadata.exports?.join()}`);
+    assert(new Set(chunks.map(chunk => chunk.id)).size === chunks.length, 'chunk IDs are not unique');
+    console.log('✅ Content and metadata as expected');
+
+    // Test 3: Declarations sharing a line get distinct IDs
+    console.log('📝 Test 3: Chunking declarations that share a line...');
+    const oneLineClass = await parser.parseFile('class A { m() { return 1; } n() { return 2; } }', '/workspace/src/a.ts');
+    assert(oneLineClass.map(chunk => chunk.metadata.functionName ?? chunk.type).join() === `${CodeChunkType.CLASS},m,n`, 'one-line class not split');
+    assert(new Set(oneLineClass.map(chunk => chunk.id)).size === 3, `one-line class IDs were ${oneLineClass.map(chunk => chunk.id).join()}`);
+
+    const minifiedChunks = await parser.parseFile('const a = 1; function f() { return a; } let b = 2;', '/workspace/src/min.js');
+    assert(minifiedChunks.length === 3 && new Set(minifiedChunks.map(chunk => chunk.id)).size === 3, 'minified declarations share an ID');
+    assert(/^min\.js:0:[0-9a-f]{8}$/.test(minifiedChunks[0].id), `chunk at column 0 has ID ${minifiedChunks[0].id}`);
+    assert(/^min\.js:0\.13:[0-9a-f]{8}$/.test(minifiedChunks[1].id), `chunk at column 13 has ID ${minifiedChunks[1].id}`);
+    console.log('✅ Same-line declarations have distinct IDs');
+
+    // Test 4: Syntax errors do not stop the declarations around them from being chunked
+    console.log('📝 Test 4: Parsing code with syntax errors...');
+    const broken = [
+      'function broken(a, {',
+      '  return a +;',
+      '}',
+      '',
+      'export function intact(value: number) {',
+      '  return value * 2;',
+      '}'
+    ].join('\n');
+    const brokenChunks = await parser.parseFile(broken, '/workspace/src/broken.ts');
+    const intact = brokenChunks.find(chunk => chunk.metadata.functionName === 'intact');
+    assert(intact !== undefined && intact.startLine === 4 && intact.endLine === 6, `intact chunk was ${intact && describeChunk(intact)}`);
+    assert(brokenChunks.every(chunk => chunk.startLine <= chunk.endLine), 'a chunk ends before it starts');
+
+    const unterminated = await parser.parseFile('const text = `never closed\nclass Half {', '/workspace/src/half.ts');
+    assert(unterminated.length > 0, 'unterminated template produced no chunk');
+
+    const statementsOnly = await parser.parseFile('console.log("starting the application");\nmain();', '/workspace/src/run.js');
+    assert(statementsOnly.length === 1 && statementsOnly[0].type === CodeChunkType.BLOCK, 'loose statements not kept in one block');
+    assert((await parser.parseFile('   \n', '/workspace/src/empty.ts')).length === 0, 'blank file produced chunks');
+    console.log('✅ Syntax errors tolerated');
+
+    console.log('🎉 TypeScript parser tests completed successfully!');
+
+  } catch (error) {
+    console.error('❌ TypeScript parser test failed:', error);
+    vscode.window.showErrorMessage(
+      `TypeScript parser test failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+}
+
+/**
+ * Test the markdown, JSON, YAML and notebook parsers on well-formed and malformed input
+ * This function can be called from the extension for testing purposes
+ */
+export async function testDocumentParsers(): Promise<void> {
+  console.log('🧪 Starting document parser tests...');
+
+  try {
+    // Test 1: Markdown splits at headings, keeps the heading trail and ignores headings in code fences
+    console.log('📝 Test 1: Splitting markdown at headings...');
+    const markdown = [
+      'Intro text before any heading.',  // 0
+      '',                                 // 1
+      '# Guide',                          // 2
+      'Overview.',                        // 3
+      '## Install',                       // 4
+      '```bash',                          // 5
+      '# not a heading',                  // 6
+      '```',                              // 7
+      '## Usage ##',                      // 8
+      '### Options',                      // 9
+      'Flags.',                           // 10
+      '# Appendix',                       // 11
+      'More.'                             // 12
+    ].join('\n');
+    const sections = await new MarkdownParser().parseFile(markdown, '/workspace/README.md');
+    assert(
+      describeSections(sections) === ' 0-1|Guide 2-3|Guide > Install 4-7|Guide > Usage > Options 9-10|Appendix 11-12',
+      `sections were ${describeSections(sections)}`
+    );
+    assert(sections.every(chunk => chunk.type === CodeChunkType.MARKDOWN_SECTION), 'sections have the wrong type');
+    assert(sections[2].content.includes('# not a heading'), 'fenced code lost from its section');
+
+    const unclosedFence = await new MarkdownParser().parseFile('# Title\n```\n# inside\nstill code', '/workspace/notes.md');
+    assert(unclosedFence.length === 1 && unclosedFence[0].endLine === 3, 'unclosed fence split the section');
+    assert((await new MarkdownParser().parseFile('# Only\n## Headings\n', '/workspace/empty.md')).length === 0, 'empty sections produced chunks');
+    console.log(`✅ ${sections.length} sections with the expected ranges and trails`);
+
+    // Test 2: JSON splits by top-level key, tolerating comments, trailing commas and minified files
+    console.log('📝 Test 2: Splitting JSON by top-level key...');
+    const jsonParser = new StructuredDataParser('json');
+    const json = [
+      '{',                                // 0
+      '  // Package name',                // 1
+      '  "name": "demo",',                // 2
+      '  "scripts": {',                   // 3
+      '    "build": "tsc",',              // 4
+      '    "test": "node test.js"',       // 5
+      '  },',                             // 6
+      '  "files": ["out", "{not nested}"],', // 7
+      '  "say \\"hi\\"": true,',          // 8
+      '}'                                 // 9
+    ].join('\n');
+    const entries = await jsonParser.parseFile(json, '/workspace/package.json');
+    assert(
+      describeSections(entries) === 'name 2-2|scripts 3-6|files 7-7|say "hi" 8-8',
+      `JSON entries were ${describeSections(entries)}`
+    );
+    assert(entries.every(chunk => chunk.type === CodeChunkType.JSON_ENTRY), 'JSON entries have the wrong type');
+
+    const minified = await jsonParser.parseFile('{"a":1,"b":{"c":2}}', '/workspace/min.json');
+    assert(minified.length === 1 && minified[0].metadata.section === 'a, b', 'keys on one line not merged');
+    const rootArray = await jsonParser.parseFile('[\n  1,\n  2\n]', '/workspace/list.json');
+    assert(rootArray.length === 1 && rootArray[0].endLine === 3 && !rootArray[0].metadata.section, 'root array not kept whole');
+    const truncated = await jsonParser.parseFile('{\n  "done": 1,\n  "cut": {\n    "off": ', '/workspace/truncated.json');
+    assert(truncated.map(chunk => chunk.metadata.section).join() === 'done', 'truncated JSON lost its complete keys');
+    assert((await jsonParser.parseFile('  \n', '/workspace/blank.json')).length === 0, 'blank JSON produced chunks');
+    console.log('✅ JSON split by key');
+
+    // Test 3: YAML splits by top-level key, with comments above a key and documents separated by ---
+    console.log('📝 Test 3: Splitting YAML by top-level key...');
+    const yamlParser = new StructuredDataParser('yaml');
+    const yaml = [
+      'name: CI',                         // 0
+      '# Triggers',                       // 1
+      'on:',                              // 2
+      '  push:',                          // 3
+      '    branches: [main]',             // 4
+      '',                                 // 5
+      '"jobs": ',                         // 6
+      '  build:',                         // 7
+      '    - run: npm test',              // 8
+      '---',                              // 9
+      'other: doc',                       // 10
+      ''                                  // 11
+    ].join('\n');
+    const keys = await yamlParser.parseFile(yaml, '/workspace/ci.yml');
+    assert(describeSections(keys) === 'name 0-0|on 1-4|jobs 6-8|other 10-10', `YAML entries were ${describeSections(keys)}`);
+    assert(keys.every(chunk => chunk.type === CodeChunkType.YAML_ENTRY), 'YAML entries have the wrong type');
+    const list = await yamlParser.parseFile('- one\n- two: 2\n', '/workspace/list.yml');
+    assert(list.length === 1 && list[0].startLine === 0 && !list[0].metadata.section, 'root sequence not kept whole');
+    console.log('✅ YAML split by key');
+
+    // Test 4: Notebooks give one chunk per non-empty cell, located at the cell in the JSON
+    console.log('📝 Test 4: Splitting notebooks into cells...');
+    const notebook = JSON.stringify({
+      cells: [
+        { cell_type: 'markdown', metadata: {}, source: ['# Analysis\n', 'Loads the data.'] },
+        { cell_type: 'code', metadata: {}, source: 'import numpy as np\nfrom pandas import read_csv\nx = 1', outputs: [{ text: '"cell_type"' }] },
+        { cell_type: 'code', metadata: {}, source: [] },
+        { cell_type: 'raw', metadata: {}, source: 'raw text' }
+      ],
+      metadata: { kernelspec: { language: 'python' } }
+    }, null, 1);
+    const cells = await new NotebookParser().parseFile(notebook, '/workspace/analysis.ipynb');
+    const notebookLines = notebook.split('\n');
+    assert(cells.length === 2, `expected 2 cells, got ${cells.length}`);
+    assert(cells[0].type === CodeChunkType.NOTEBOOK_MARKDOWN_CELL && cells[0].language === 'markdown', 'markdown cell has the wrong type');
+    assert(cells[1].type === CodeChunkType.NOTEBOOK_CODE_CELL && cells[1].language === 'python', 'code cell has the wrong type');
+    assert(cells[0].content === '# Analysis\nLoads the data.', 'source lines not joined');
+    assert(cells[1].metadata.imports?.join() === 'numpy,pandas', `cell imports were ${cells[1].metadata.imports?.join()}`);
+    assert(cells.map(chunk => chunk.metadata.section).join() === 'Cell 1,Cell 2', 'cells not numbered by position');
+    assert(cells.every(chunk => notebookLines[chunk.startLine].includes('"cell_type"')), 'cell ranges do not point at the cells');
+    assert(cells[0].endLine < cells[1].startLine, 'cell ranges overlap');
+
+    let malformedError: unknown;
+    try {
+      await new NotebookParser().parseFile('{"cells": [', '/workspace/broken.ipynb');
+    } catch (error) {
+      malformedError = error;
+    }
+    assert(malformedError instanceof VectoringException, 'malformed notebook not reported as a VectoringException');
+    assert((await new NotebookParser().parseFile('{}', '/workspace/empty.ipynb')).length === 0, 'notebook without cells produced chunks');
+    console.log('✅ Notebook cells chunked');
+
+    console.log('🎉 Document parser tests completed successfully!');
+
+  } catch (error) {
+    console.error('❌ Document parser test failed:', error);
+    vscode.window.showErrorMessage(
+      `Document parser test failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+}
+
+/**
+ * Test migrating and compacting stored indexes: the JSON vector store, segment compaction and the shared index
+ * This function can be called from the extension for testing purposes
+ */
+export async function testIndexMigration(): Promise<void> {
+  console.log('🧪 Starting index migration tests...');
+
+  const directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'codeassist-migration-'));
+  const vectorOf = (seed: number) => [seed, seed / 2, -seed / 4, 0.1 * seed];
+
+  try {
+    // Test 1: A vectors.json store is converted into a segment and its JSON files are deleted
+    console.log('📝 Test 1: Migrating a JSON vector store...');
+    const legacyDirectory = path.join(directory, 'legacy', 'vectors');
+    const legacyEntries: IVectorEntry[] = [1, 2, 3].map(seed => ({ id: `chunk${seed}_vector`, chunkId: `chunk${seed}`, vector: vectorOf(seed) }));
+    await fs.promises.mkdir(legacyDirectory, { recursive: true });
+    await fs.promises.writeFile(path.join(legacyDirectory, 'vectors.json'), JSON.stringify(legacyEntries));
+    await fs.promises.writeFile(path.join(legacyDirectory, 'index.json'), JSON.stringify({ version: 1, size: 3 }));
+
+    const legacyUri = vscode.Uri.file(path.join(directory, 'legacy'));
+    const migrated = new FileVectorStore(legacyUri);
+    assertSameEntries(await migrated.getEntries(), legacyEntries, 'migrated store');
+    const legacyFiles = await fs.promises.readdir(legacyDirectory);
+    assert(!legacyFiles.includes('vectors.json') && !legacyFiles.includes('index.json'), `JSON files left behind: ${legacyFiles.join(', ')}`);
+    assert(legacyFiles.some(file => /^segment-\d+\.bin$/.test(file)), 'no segment written');
+    assertSameEntries(await new FileVectorStore(legacyUri).getEntries(), legacyEntries, 'reopened migrated store');
+    console.log('✅ JSON vector store migrated');
+
+    // Test 2: Once enough segments pile up they are compacted, and the compacted store loads the same vectors
+    console.log('📝 Test 2: Compacting segments...');
+    const compactedUri = vscode.Uri.file(path.join(directory, 'compacted'));
+    const store = new FileVectorStore(compactedUri);
+    const expected = new Map<string, IVectorEntry>();
+    for (let seed = 0; seed < 40; seed++) {
+      const entry = { id: `chunk${seed % 30}_vector`, chunkId: `chunk${seed % 30}`, vector: vectorOf(seed) };
+      await store.replace([], [entry]);
+      expected.set(entry.id, entry);
+    }
+    await store.delete(['chunk7']);
+    expected.delete('chunk7_vector');
+
+    const segments = (await fs.promises.readdir(path.join(directory, 'compacted', 'vectors')))
+      .filter(file => /^segment-\d+\.bin$/.test(file));
+    assert(segments.length < 32, `${segments.length} segments left, compaction did not run`);
+    assertSameEntries(await store.getEntries(), [...expected.values()], 'compacting store');
+    assertSameEntries(await new FileVectorStore(compactedUri).getEntries(), [...expected.values()], 'reopened compacted store');
+    console.log(`✅ Compacted into ${segments.length} segment(s) without losing vectors`);
+
+    // Test 3: The shared index of earlier versions moves into the folder index with folder-relative paths and IDs
+    console.log('📝 Test 3: Migrating the shared index into a folder index...');
+    const projectPath = path.join(directory, 'project');
+    const storageUri = vscode.Uri.file(path.join(directory, 'storage'));
+    const sharedChunks: ICodeChunk[] = [
+      sharedChunk(path.join(projectPath, 'src', 'a.ts'), 0, 'legacy-a0'),
+      sharedChunk(path.join(projectPath, 'src', 'a.ts'), 5, 'legacy-a5'),
+      sharedChunk(path.join(projectPath, 'src', 'c.ts'), 2, 'legacy-c2'),
+      sharedChunk(path.join(directory, 'elsewhere', 'b.ts'), 0, 'legacy-b0')
+    ];
+    const sharedFiles = (hash: string, ...chunkIds: string[]) => ({ contentHash: hash, chunkIds, language: 'typescript', indexedAt: 1 });
+    await fs.promises.mkdir(path.join(directory, 'storage', 'chunks'), { recursive: true });
+    await fs.promises.mkdir(path.join(directory, 'storage', 'vectors'), { recursive: true });
+    await fs.promises.writeFile(path.join(directory, 'storage', 'chunks', 'chunks.json'), JSON.stringify(sharedChunks));
+    await fs.promises.writeFile(path.join(directory, 'storage', 'chunks', 'manifest.json'), JSON.stringify({
+      version: 1,
+      files: {
+        [sharedChunks[0].filePath]: sharedFiles('hash-a', 'legacy-a0', 'legacy-a5'),
+        [sharedChunks[2].filePath]: sharedFiles('hash-c', 'legacy-c2'),
+        [sharedChunks[3].filePath]: sharedFiles('hash-b', 'legacy-b0')
+      }
+    }));
+    // c.ts lost its vector, so it has to be indexed again after the migration
+    const sharedVectors = ['legacy-a0', 'legacy-a5', 'legacy-b0'].map((chunkId, seed) => ({ id: `${chunkId}_vector`, chunkId, vector: vectorOf(seed + 1) }));
+    await fs.promises.writeFile(path.join(directory, 'storage', 'vectors', 'vectors.json'), JSON.stringify(sharedVectors));
+
+    const folder: vscode.WorkspaceFolder = { uri: vscode.Uri.file(projectPath), name: 'project', index: 0 };
+    const foldersUri = vscode.Uri.joinPath(storageUri, 'folders');
+    const folderIndex = await FolderIndex.open(folder, foldersUri);
+    await migrateSharedIndex(storageUri, async filePath => folderIndex.contains(filePath) ? folderIndex : undefined);
+
+    const storageEntries = await fs.promises.readdir(path.join(directory, 'storage'));
+    assert(storageEntries.join() === 'folders', `shared index not removed: ${storageEntries.join(', ')}`);
+
+    for (const index of [folderIndex, await FolderIndex.open(folder, foldersUri)]) {
+      const files = (await index.chunkStore.getIndexedFiles()).sort();
+      assert(files.join() === 'src/a.ts,src/c.ts', `indexed files were ${files.join(', ')}`);
+      assert(await index.chunkStore.getFileHash('src/a.ts') === 'hash-a', 'content hash of a complete file not kept');
+      assert(await index.chunkStore.getFileHash('src/c.ts') === undefined, 'file without vectors not marked for re-indexing');
+
+      const chunkIds = [generateChunkId('src/a.ts', 0), generateChunkId('src/a.ts', 5)];
+      assert((await index.chunkStore.getChunkIds('src/a.ts')).join() === chunkIds.join(), 'chunk IDs not regenerated from the relative path');
+      const chunks = await index.getChunks(chunkIds);
+      assert(chunks.get(chunkIds[1])?.filePath === sharedChunks[1].filePath, 'chunk does not resolve to its absolute path');
+      assert(chunks.get(chunkIds[1])?.content === sharedChunks[1].content, 'chunk content lost');
+
+      const vectors = await index.vectorStore.getByChunkIds(chunkIds);
+      assertSameEntries([...vectors.values()], chunkIds.map((chunkId, seed) => ({ id: `${chunkId}_vector`, chunkId, vector: vectorOf(seed + 1) })), 'migrated folder index');
+      assert(await index.vectorStore.getSize() === 2, 'vectors of dropped files were migrated');
+    }
+    console.log('✅ Shared index migrated into the folder index');
+
+    console.log('🎉 Index migration tests completed successfully!');
+
+  } catch (error) {
+    console.error('❌ Index migration test failed:', error);
+    vscode.window.showErrorMessage(
+      `Index migration test failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  } finally {
+    await fs.promises.rm(directory, { recursive: true, force: true });
+  }
+}
+
+function describeChunk(chunk: ICodeChunk): string {
+  return [chunk.type, chunk.startLine, chunk.endLine, chunk.metadata.functionName, chunk.metadata.className].join(' ');
+}
+
+/**
+ * Section and line range of every chunk, e.g. `scripts 3-6|files 7-7`
+ */
+function describeSections(chunks: ICodeChunk[]): string {
+  return chunks.map(chunk => `${chunk.metadata.section ?? ''} ${chunk.startLine}-${chunk.endLine}`).join('|');
+}
+
+/**
+ * Chunk as the shared index stored it, with an absolute path
+ */
+function sharedChunk(filePath: string, startLine: number, id: string): ICodeChunk {
+  return {
+    id,
+    filePath,
+    content: `function line${startLine}() {}`,
+    startLine,
+    endLine: startLine + 1,
+    language: 'typescript',
+    type: CodeChunkType.FUNCTION,
+    metadata: { lastModified: 0 }
+  };
+}
+
+/**
+ * Compare stored entries with the expected ones, allowing for the Float32 precision of segments
+ */
+function assertSameEntries(actual: IVectorEntry[], expected: IVectorEntry[], label: string): void {
+  assert(actual.length === expected.length, `${label} has ${actual.length} vectors, expected ${expected.length}`);
+  const byId = new Map(actual.map(entry => [entry.id, entry]));
+  for (const entry of expected) {
+    const stored = byId.get(entry.id);
+    assert(stored?.chunkId === entry.chunkId, `${label} lost ${entry.id}`);
+    assert(stored!.vector.every((value, i) => Math.abs(value - entry.vector[i]) < 1e-6), `${label} changed the vector of ${entry.id}`);
+  }
+}
+
+function exactSearch(vectors: Array<{ id: string; vector: number[] }>, query: number[], k: number): string[] {
+  return vectors
+    .map(({ id, vector }) => ({ id, similarity: cosineSimilarity(query, vector) }))
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, k)
+    .map(result => result.id);
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dotProduct = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    dotProduct += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return normA === 0 || normB === 0 ? 0 : dotProduct / Math.sqrt(normA * normB);
+}
+
+/**
+ * Vectors grouped around a few fixed centres, so every run searches the same dataset
+ */
+function generateClusteredVectors(count: number, dimensions: number, random: () => number): Array<{ id: string; vector: number[] }> {
+  const centres = Array.from({ length: 8 }, (_, centre) =>
+    Array.from({ length: dimensions }, (_, dimension) => Math.sin(centre * 7 + dimension))
+  );
+
+  return Array.from({ length: count }, (_, i) => ({
+    id: `vector-${i}`,
+    vector: centres[i % centres.length].map(value => value + (random() - 0.5) * 0.8)
+  }));
+}
+
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state * 1664525 + 1013904223) >>> 0;
+    return state / 4294967296;
+  };
+}
+
+/**
+ * Register the offline search index, parser and migration test commands
+ */
+export function registerTestCommands(context: vscode.ExtensionContext): void {
+  context.subscriptions.push(
+    vscode.commands.registerCommand('codeAssist.testHnsw', () => testHnswIndex()),
+    vscode.commands.registerCommand('codeAssist.testLexical', () => testLexicalIndex()),
+    vscode.commands.registerCommand('codeAssist.testTypeScriptParser', () => testTypeScriptParser()),
+    vscode.commands.registerCommand('codeAssist.testDocumentParsers', () => testDocumentParsers()),
+    vscode.commands.registerCommand('codeAssist.testIndexMigration', () => testIndexMigration())
+  );
+}
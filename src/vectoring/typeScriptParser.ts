@@ -0,0 +1,512 @@
+import * as ts from 'typescript';
+import * as path from 'path';
+import { ICodeParser, ICodeChunk, ICodeMetadata, CodeChunkType, VectoringException } from './types';
+import { generateChunkId } from './chunkId';
+
+/**
+ * File-level facts shared by every chunk of a file
+ */
+interface IFileContext {
+  sourceFile: ts.SourceFile;
+  filePath: string;
+  metadata: ICodeMetadata;
+  /** Imported local names and the module each comes from */
+  importedNames: Map<string, string>;
+}
+
+/**
+ * Code parser for TypeScript and JavaScript built on the TypeScript compiler API
+ * Emits one chunk per declaration, with its JSDoc, decorators and overloads, and one per class member
+ */
+export class TypeScriptParser implements ICodeParser {
+  public readonly language: string;
+
+  constructor(language: string) {
+    this.language = language.toLowerCase();
+  }
+
+  /**
+   * Parse a file into declaration chunks
+   * @param content File content
+   * @param filePath File path, whose extension selects TS, TSX, JS or JSX syntax
+   * @returns Array of code chunks
+   */
+  async parseFile(content: string, filePath: string): Promise<ICodeChunk[]> {
+    try {
+      const sourceFile = this.createSourceFile(content, filePath);
+      const context: IFileContext = {
+        sourceFile,
+        filePath,
+        metadata: this.collectMetadata(sourceFile),
+        importedNames: this.collectImportedNames(sourceFile)
+      };
+
+      const chunks = this.parseStatements(sourceFile.statements, context);
+
+      // Add file-level chunk if no specific chunks found
+      if (chunks.length === 0 && content.trim()) {
+        chunks.push({
+          id: generateChunkId(filePath, 0),
+          filePath,
+          content: content.substring(0, 2000), // Limit size
+          startLine: 0,
+          endLine: content.split('\n').length - 1,
+          language: this.language,
+          type: CodeChunkType.BLOCK,
+          metadata: context.metadata
+        });
+      }
+
+      return chunks;
+
+    } catch (error) {
+      throw new VectoringException('parseFile', `Failed to parse file ${filePath}`, error);
+    }
+  }
+
+  /**
+   * Extract imports, exports and cyclomatic complexity of a whole file
+   * @param content File content
+   * @returns Code metadata
+   */
+  async extractMetadata(content: string): Promise<ICodeMetadata> {
+    const extension = this.language === 'javascript' ? '.js' : '.ts';
+    return this.collectMetadata(this.createSourceFile(content, `file${extension}`));
+  }
+
+  private createSourceFile(content: string, filePath: string): ts.SourceFile {
+    const scriptKinds: Record<string, ts.ScriptKind> = {
+      '.tsx': ts.ScriptKind.TSX,
+      '.jsx': ts.ScriptKind.JSX,
+      '.js': ts.ScriptKind.JS,
+      '.mjs': ts.ScriptKind.JS,
+      '.cjs': ts.ScriptKind.JS
+    };
+    const scriptKind = scriptKinds[path.extname(filePath).toLowerCase()] || ts.ScriptKind.TS;
+
+    return ts.createSourceFile(filePath, content, ts.ScriptTarget.Latest, true, scriptKind);
+  }
+
+  /**
+   * Chunk a list of statements
+   * Declarations get their own chunks, namespaces are chunked member by member,
+   * and runs of other statements are grouped, with imports kept apart
+   */
+  private parseStatements(statements: ts.NodeArray<ts.Statement>, context: IFileContext): ICodeChunk[] {
+    const chunks: ICodeChunk[] = [];
+    let group: ts.Statement[] = [];
+    let overloadStart: number | undefined;
+
+    const flushGroup = () => {
+      if (group.length > 0) {
+        const isImport = group.every(statement => ts.isImportDeclaration(statement) || ts.isImportEqualsDeclaration(statement));
+        const chunk = this.createChunk(group[0], group[group.length - 1], isImport ? CodeChunkType.IMPORT : CodeChunkType.BLOCK, context);
+        if (chunk.content.length > 20) {
+          chunks.push(chunk);
+        }
+        group = [];
+      }
+    };
+
+    statements.forEach((statement, index) => {
+      // Overload signatures join the implementation that follows them
+      if (ts.isFunctionDeclaration(statement) && !statement.body && this.isOverloadOf(statement, statements[index + 1])) {
+        flushGroup();
+        overloadStart = overloadStart ?? this.startOf(statement, context.sourceFile);
+        return;
+      }
+
+      const declarationChunks = this.parseDeclaration(statement, context, overloadStart);
+      overloadStart = undefined;
+
+      if (declarationChunks) {
+        flushGroup();
+        chunks.push(...declarationChunks);
+        return;
+      }
+
+      const isImport = ts.isImportDeclaration(statement) || ts.isImportEqualsDeclaration(statement);
+      const groupIsImport = group.length > 0 && (ts.isImportDeclaration(group[0]) || ts.isImportEqualsDeclaration(group[0]));
+      if (group.length > 0 && isImport !== groupIsImport) {
+        flushGroup();
+      }
+      group.push(statement);
+    });
+
+    flushGroup();
+    return chunks;
+  }
+
+  /**
+   * Chunks of a declaration statement
+   * @param overloadStart Start of the overload signatures preceding the statement, if any
+   * @returns Chunks, or undefined when the statement is not a declaration
+   */
+  private parseDeclaration(statement: ts.Statement, context: IFileContext, overloadStart?: number): ICodeChunk[] | undefined {
+    if (ts.isFunctionDeclaration(statement)) {
+      return [this.createChunk(statement, statement, CodeChunkType.FUNCTION, context, {
+        start: overloadStart,
+        functionName: statement.name?.text || 'default'
+      })];
+    }
+
+    if (ts.isClassDeclaration(statement)) {
+      return this.parseClass(statement, statement, statement.name?.text || 'default', context);
+    }
+
+    if (ts.isInterfaceDeclaration(statement)) {
+      return [this.createChunk(statement, statement, CodeChunkType.INTERFACE, context)];
+    }
+
+    if (ts.isTypeAliasDeclaration(statement) || ts.isEnumDeclaration(statement)) {
+      return [this.createChunk(statement, statement, CodeChunkType.TYPE, context)];
+    }
+
+    if (ts.isModuleDeclaration(statement)) {
+      return statement.body && ts.isModuleBlock(statement.body)
+        ? this.parseStatements(statement.body.statements, context)
+        : [this.createChunk(statement, statement, CodeChunkType.BLOCK, context)];
+    }
+
+    if (ts.isVariableStatement(statement)) {
+      return this.parseVariableStatement(statement, context);
+    }
+
+    if (ts.isExportAssignment(statement)) {
+      const isFunction = ts.isArrowFunction(statement.expression) || ts.isFunctionExpression(statement.expression);
+      return [this.createChunk(statement, statement, isFunction ? CodeChunkType.FUNCTION : CodeChunkType.BLOCK, context, {
+        functionName: isFunction ? 'default' : undefined
+      })];
+    }
+
+    return undefined;
+  }
+
+  /**
+   * `const handler = () => ...` is a function and `const Foo = class ...` a class; other variables stay variables
+   */
+  private parseVariableStatement(statement: ts.VariableStatement, context: IFileContext): ICodeChunk[] {
+    const declarations = statement.declarationList.declarations;
+    const first = declarations[0];
+    const name = first && ts.isIdentifier(first.name) ? first.name.text : undefined;
+
+    if (declarations.length === 1 && first.initializer && name) {
+      const initializer = first.initializer;
+      if (ts.isClassExpression(initializer)) {
+        return this.parseClass(initializer, statement, name, context);
+      }
+      if (ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer)) {
+        return [this.createChunk(statement, statement, CodeChunkType.FUNCTION, context, { functionName: name })];
+      }
+    }
+
+    return [this.createChunk(statement, statement, CodeChunkType.VARIABLE, context)];
+  }
+
+  /**
+   * One chunk per method, constructor and accessor, each knowing its class,
+   * plus one for the class header and the fields declared before the first method
+   * @param classNode Class declaration or expression
+   * @param statement Statement holding the class, whose JSDoc and decorators belong to the class chunk
+   */
+  private parseClass(classNode: ts.ClassLikeDeclaration, statement: ts.Statement, className: string, context: IFileContext): ICodeChunk[] {
+    const memberChunks: ICodeChunk[] = [];
+    let overloadStart: number | undefined;
+
+    classNode.members.forEach((member, index) => {
+      if (!this.isCallableMember(member)) {
+        return;
+      }
+
+      const body = (member as ts.FunctionLikeDeclaration).body;
+      if (!body && !ts.isPropertyDeclaration(member) && this.isOverloadOf(member, classNode.members[index + 1])) {
+        overloadStart = overloadStart ?? this.startOf(member, context.sourceFile);
+        return;
+      }
+
+      memberChunks.push(this.createChunk(member, member, CodeChunkType.FUNCTION, context, {
+        start: overloadStart,
+        functionName: this.memberName(member),
+        className
+      }));
+      overloadStart = undefined;
+    });
+
+    if (memberChunks.length === 0) {
+      return [this.createChunk(statement, statement, CodeChunkType.CLASS, context, { className })];
+    }
+
+    // The header runs up to the line before the first member chunk, or is just the class line when that comes first
+    const { sourceFile } = context;
+    const headerStart = this.startOf(statement, sourceFile);
+    const firstMemberLine = memberChunks[0].startLine;
+    const headerEndLine = Math.max(sourceFile.getLineAndCharacterOfPosition(headerStart).line, firstMemberLine - 1);
+    const headerEnd = sourceFile.getLineEndOfPosition(sourceFile.getPositionOfLineAndCharacter(headerEndLine, 0));
+
+    const header = this.createChunk(statement, statement, CodeChunkType.CLASS, context, {
+      end: Math.min(headerEnd, statement.getEnd()),
+      className
+    });
+    return [header, ...memberChunks];
+  }
+
+  private isCallableMember(member: ts.ClassElement): boolean {
+    if (ts.isMethodDeclaration(member) || ts.isConstructorDeclaration(member) ||
+        ts.isGetAccessorDeclaration(member) || ts.isSetAccessorDeclaration(member)) {
+      return true;
+    }
+
+    // Arrow function fields, used for callbacks bound to the instance
+    return ts.isPropertyDeclaration(member) && !!member.initializer &&
+      (ts.isArrowFunction(member.initializer) || ts.isFunctionExpression(member.initializer));
+  }
+
+  private memberName(member: ts.ClassElement): string {
+    if (ts.isConstructorDeclaration(member)) {
+      return 'constructor';
+    }
+    return member.name && (ts.isIdentifier(member.name) || ts.isStringLiteral(member.name) || ts.isPrivateIdentifier(member.name))
+      ? member.name.text
+      : 'anonymous';
+  }
+
+  /**
+   * Whether a body-less signature is followed by another signature of the same function
+   */
+  private isOverloadOf(signature: ts.Node, next: ts.Node | undefined): boolean {
+    if (!next || signature.kind !== next.kind) {
+      return false;
+    }
+    const name = (node: ts.Node) => (node as ts.NamedDeclaration).name?.getText();
+    return ts.isConstructorDeclaration(signature) || name(signature) === name(next);
+  }
+
+  /**
+   * Start of a node including its JSDoc, so documentation stays with its symbol
+   */
+  private startOf(node: ts.Node, sourceFile: ts.SourceFile): number {
+    const comments = ts.getLeadingCommentRanges(sourceFile.text, node.getFullStart()) || [];
+    const jsDoc = comments.filter(comment => sourceFile.text.startsWith('/**', comment.pos));
+    return jsDoc.length > 0 ? jsDoc[jsDoc.length - 1].pos : node.getStart(sourceFile);
+  }
+
+  /**
+   * Create a chunk spanning from one node to another
+   * @param options Explicit start or end positions, and symbol names
+   */
+  private createChunk(
+    first: ts.Node,
+    last: ts.Node,
+    type: CodeChunkType,
+    context: IFileContext,
+    options: { start?: number; end?: number; functionName?: string; className?: string } = {}
+  ): ICodeChunk {
+    const { sourceFile, filePath } = context;
+    const start = options.start ?? this.startOf(first, sourceFile);
+    const end = options.end ?? last.getEnd();
+    const { line: startLine, character: startColumn } = sourceFile.getLineAndCharacterOfPosition(start);
+
+    const nodes = this.spannedNodes(first, last);
+    return {
+      // Declarations sharing a line, as in minified code or a one-line class, differ by column
+      id: generateChunkId(filePath, startLine, startColumn),
+      filePath,
+      content: sourceFile.text.substring(start, end),
+      startLine,
+      endLine: sourceFile.getLineAndCharacterOfPosition(end).line,
+      language: this.language,
+      type,
+      metadata: {
+        ...context.metadata,
+        functionName: options.functionName,
+        className: options.className,
+        dependencies: this.collectDependencies(nodes, start, end, context),
+        complexity: cyclomaticComplexity(nodes, start, end)
+      }
+    };
+  }
+
+  /**
+   * Modules whose imported names are used between two positions
+   */
+  private collectDependencies(nodes: ts.Node[], start: number, end: number, context: IFileContext): string[] {
+    const modules = new Set<string>();
+    const visit = (node: ts.Node) => {
+      if (node.getEnd() < start || node.getStart(context.sourceFile) > end || ts.isImportDeclaration(node)) {
+        return;
+      }
+      if (ts.isIdentifier(node)) {
+        const module = context.importedNames.get(node.text);
+        if (module) {
+          modules.add(module);
+        }
+      }
+      ts.forEachChild(node, visit);
+    };
+
+    nodes.forEach(visit);
+    return [...modules];
+  }
+
+  /**
+   * Two sibling nodes and every node between them
+   */
+  private spannedNodes(first: ts.Node, last: ts.Node): ts.Node[] {
+    if (first === last) {
+      return [first];
+    }
+
+    const siblings: ts.Node[] = [];
+    ts.forEachChild(first.parent, child => {
+      if (child.pos >= first.pos && child.end <= last.end) {
+        siblings.push(child);
+      }
+    });
+    return siblings;
+  }
+
+  /**
+   * Local names bound by import declarations, mapped to their module
+   */
+  private collectImportedNames(sourceFile: ts.SourceFile): Map<string, string> {
+    const names = new Map<string, string>();
+
+    for (const statement of sourceFile.statements) {
+      if (!ts.isImportDeclaration(statement) || !ts.isStringLiteral(statement.moduleSpecifier) || !statement.importClause) {
+        continue;
+      }
+
+      const module = statement.moduleSpecifier.text;
+      const { name, namedBindings } = statement.importClause;
+      if (name) {
+        names.set(name.text, module);
+      }
+      if (namedBindings && ts.isNamespaceImport(namedBindings)) {
+        names.set(namedBindings.name.text, module);
+      } else if (namedBindings && ts.isNamedImports(namedBindings)) {
+        namedBindings.elements.forEach(element => names.set(element.name.text, module));
+      }
+    }
+
+    return names;
+  }
+
+  /**
+   * Imports (static, `require` and dynamic), exported names and cyclomatic complexity of a file
+   */
+  private collectMetadata(sourceFile: ts.SourceFile): ICodeMetadata {
+    const imports = new Set<string>();
+    const exports = new Set<string>();
+
+    const visit = (node: ts.Node) => {
+      if ((ts.isImportDeclaration(node) || ts.isExportDeclaration(node)) &&
+          node.moduleSpecifier && ts.isStringLiteral(node.moduleSpecifier)) {
+        imports.add(node.moduleSpecifier.text);
+      } else if (ts.isImportEqualsDeclaration(node) && ts.isExternalModuleReference(node.moduleReference) &&
+          ts.isStringLiteral(node.moduleReference.expression)) {
+        imports.add(node.moduleReference.expression.text);
+      } else if (ts.isCallExpression(node) && node.arguments.length === 1 && ts.isStringLiteral(node.arguments[0]) &&
+          (node.expression.kind === ts.SyntaxKind.ImportKeyword ||
+            (ts.isIdentifier(node.expression) && node.expression.text === 'require'))) {
+        imports.add(node.arguments[0].text);
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+
+    for (const statement of sourceFile.statements) {
+      this.exportedNames(statement).forEach(name => exports.add(name));
+    }
+
+    return {
+      imports: [...imports],
+      exports: [...exports],
+      dependencies: [],
+      complexity: cyclomaticComplexity([sourceFile], 0, sourceFile.getEnd()),
+      lastModified: Date.now()
+    };
+  }
+
+  /**
+   * Names a top-level statement exports, through ES module syntax or CommonJS assignments
+   */
+  private exportedNames(statement: ts.Statement): string[] {
+    if (ts.isExportDeclaration(statement)) {
+      if (!statement.exportClause) {
+        return ['*'];
+      }
+      return ts.isNamedExports(statement.exportClause)
+        ? statement.exportClause.elements.map(element => element.name.text)
+        : [statement.exportClause.name.text];
+    }
+
+    if (ts.isExportAssignment(statement)) {
+      return ['default'];
+    }
+
+    if (ts.isExpressionStatement(statement) && ts.isBinaryExpression(statement.expression) &&
+        statement.expression.operatorToken.kind === ts.SyntaxKind.EqualsToken) {
+      const target = statement.expression.left.getText();
+      const match = target.match(/^(?:module\.)?exports(?:\.(\w+))?$/);
+      return match ? [match[1] || 'default'] : [];
+    }
+
+    const modifiers = ts.canHaveModifiers(statement) ? ts.getModifiers(statement) || [] : [];
+    if (!modifiers.some(modifier => modifier.kind === ts.SyntaxKind.ExportKeyword)) {
+      return [];
+    }
+    if (modifiers.some(modifier => modifier.kind === ts.SyntaxKind.DefaultKeyword)) {
+      return ['default'];
+    }
+
+    if (ts.isVariableStatement(statement)) {
+      return statement.declarationList.declarations
+        .filter(declaration => ts.isIdentifier(declaration.name))
+        .map(declaration => (declaration.name as ts.Identifier).text);
+    }
+
+    const name = (statement as ts.DeclarationStatement).name;
+    return name && ts.isIdentifier(name) ? [name.text] : [];
+  }
+}
+
+/**
+ * Cyclomatic complexity: one plus the number of branch points between two positions
+ */
+function cyclomaticComplexity(nodes: ts.Node[], start: number, end: number): number {
+  let complexity = 1;
+
+  const visit = (node: ts.Node) => {
+    if (node.getEnd() < start || node.getStart() > end) {
+      return;
+    }
+
+    switch (node.kind) {
+      case ts.SyntaxKind.IfStatement:
+      case ts.SyntaxKind.ConditionalExpression:
+      case ts.SyntaxKind.ForStatement:
+      case ts.SyntaxKind.ForInStatement:
+      case ts.SyntaxKind.ForOfStatement:
+      case ts.SyntaxKind.WhileStatement:
+      case ts.SyntaxKind.DoStatement:
+      case ts.SyntaxKind.CaseClause:
+      case ts.SyntaxKind.CatchClause:
+        complexity++;
+        break;
+      case ts.SyntaxKind.BinaryExpression: {
+        const operator = (node as ts.BinaryExpression).operatorToken.kind;
+        if (operator === ts.SyntaxKind.AmpersandAmpersandToken ||
+            operator === ts.SyntaxKind.BarBarToken ||
+            operator === ts.SyntaxKind.QuestionQuestionToken) {
+          complexity++;
+        }
+        break;
+      }
+    }
+
+    ts.forEachChild(node, visit);
+  };
+
+  nodes.forEach(node => visit(node));
+  return complexity;
+}
@@ -20,6 +20,8 @@ export interface ICodeMetadata {
   exports?: string[];
   dependencies?: string[];
   complexity?: number;
+  /** Heading trail of a documentation section, key of a config entry or cell of a notebook */
+  section?: string;
   lastModified: number;
 }
 
@@ -31,7 +33,12 @@ export enum CodeChunkType {
   VARIABLE = 'variable',
   IMPORT = 'import',
   COMMENT = 'comment',
-  BLOCK = 'block'
+  BLOCK = 'block',
+  MARKDOWN_SECTION = 'markdown_section',
+  JSON_ENTRY = 'json_entry',
+  YAML_ENTRY = 'yaml_entry',
+  NOTEBOOK_CODE_CELL = 'notebook_code_cell',
+  NOTEBOOK_MARKDOWN_CELL = 'notebook_markdown_cell'
 }
 
 export interface IVectorEntry {
@@ -41,12 +48,53 @@ export interface IVectorEntry {
   similarity?: number;
 }
 
+export enum VectorRecordKind {
+  PUT = 1,
+  DELETE = 2
+}
+
+/**
+ * One record of a vector segment: a stored vector, or a tombstone for a removed entry
+ */
+export interface IVectorRecord {
+  kind: VectorRecordKind;
+  id: string;
+  chunkId: string;
+  vector?: number[];
+}
+
+export interface IVectorSegmentInfo {
+  file: string;
+  records: number;
+  bytes: number;
+}
+
+/**
+ * Segments of the vector store, replayed in order on load
+ */
+export interface IVectorStoreManifest {
+  version: number;
+  segments: IVectorSegmentInfo[];
+  nextSegment: number;
+  /** Records superseded by later writes or tombstones, reclaimed by compaction */
+  deadRecords: number;
+  lastUpdated: number;
+}
+
 export interface ISearchResult {
   chunk: ICodeChunk;
+  /** Cosine similarity with the query, 0 when only the lexical index matched */
   similarity: number;
+  /** Reciprocal rank fusion score of the semantic and lexical rankings */
   relevanceScore: number;
 }
 
+export interface ILexicalMatch {
+  chunkId: string;
+  /** BM25 score */
+  score: number;
+}
+
 export interface IIndexingProgress {
   totalFiles: number;
   processedFiles: number;
@@ -65,10 +113,23 @@ export enum IndexingStatus {
   ERROR = 'error'
 }
 
+export interface IRelevantCode {
+  snippets: string[];
+  /** Source files of the snippets, without duplicates */
+  filePaths: string[];
+}
+
+export interface IExclusionExplanation {
+  excluded: boolean;
+  /** Why the file is excluded or indexed, e.g. the ignore rule and where it is defined */
+  reason: string;
+}
+
 export interface IVectorDatabase {
   initialize(): Promise<void>;
   indexWorkspace(workspacePath: string): Promise<void>;
-  indexFile(filePath: string): Promise<void>;
+  indexFile(filePath: string): Promise<boolean>;
+  isIndexable(filePath: string): boolean;
   search(query: string, limit?: number): Promise<ISearchResult[]>;
   getRelevantCode(query: string, limit?: number): Promise<string[]>;
   deleteFile(filePath: string): Promise<void>;
@@ -76,23 +137,141 @@ export interface IVectorDatabase {
   getStats(): Promise<IIndexStats>;
 }
 
+export enum IndexChangeKind {
+  UPDATE = 'update',
+  DELETE = 'delete'
+}
+
+/**
+ * Approximate nearest neighbour search settings
+ */
+export interface IAnnConfig {
+  enabled: boolean;
+  /** Below this many vectors, search scans every vector exactly */
+  minVectors: number;
+  /** Links per node; more links raise recall, memory use and build time */
+  m: number;
+  /** Candidate list size while inserting; larger builds a better graph, more slowly */
+  efConstruction: number;
+  /** Candidate list size while searching; larger raises recall and latency */
+  efSearch: number;
+}
+
+export interface IHnswParams {
+  m: number;
+  efConstruction: number;
+  seed?: number;
+}
+
+/**
+ * Serialized HNSW graph; vectors of live nodes are not included, they are read from the store
+ */
+export interface IHnswSnapshot {
+  version: number;
+  params: IHnswParams;
+  ids: string[];
+  levels: number[];
+  links: number[][][];
+  entryPoint: number;
+  maxLevel: number;
+  /** Removed nodes still route searches, so their vectors are kept */
+  deletedVectors: Record<number, number[]>;
+}
+
+export interface IAnnBenchmarkResult {
+  vectors: number;
+  queries: number;
+  k: number;
+  /** True when the index was too small and generated vectors were used */
+  synthetic: boolean;
+  buildMs: number;
+  exactMs: number;
+  approximateMs: number;
+  recall: number;
+}
+
 export interface IIndexStats {
   totalChunks: number;
   totalFiles: number;
   indexSize: number;
   lastUpdated: number;
   languages: Record<string, number>;
+  /** Statistics of each workspace folder's index; the totals above add them up */
+  folders: IFolderIndexStats[];
+}
+
+export interface IFolderIndexStats {
+  name: string;
+  uri: string;
+  totalChunks: number;
+  totalFiles: number;
+  indexSize: number;
+  lastUpdated: number;
+  languages: Record<string, number>;
+}
+
+/**
+ * Identity of the workspace folder an index belongs to, stored next to the index
+ */
+export interface IFolderIndexInfo {
+  uri: string;
+  name: string;
 }
 
 export interface IEmbeddingProvider {
   name: string;
   initialize(): Promise<void>;
   embed(text: string): Promise<number[]>;
-  embedBatch(texts: string[]): Promise<number[][]>;
+  embedBatch(texts: string[], priority?: EmbeddingPriority): Promise<number[][]>;
   getDimensions(): number;
   isReady(): boolean;
 }
 
+/**
+ * Order in which queued embedding requests are served; lower values go first
+ */
+export enum EmbeddingPriority {
+  /** Queries a user is waiting for */
+  INTERACTIVE = 0,
+  /** Indexing batches */
+  BACKGROUND = 1
+}
+
+export interface IEmbeddingPoolConfig {
+  modelName: string;
+  /** Number of worker threads, each with its own copy of the model */
+  workers: number;
+  cacheDir: string;
+}
+
+export enum EmbeddingWorkerMessageType {
+  INIT = 'init',
+  EMBED = 'embed',
+  READY = 'ready',
+  INIT_ERROR = 'initError',
+  PROGRESS = 'progress',
+  EMBEDDINGS = 'embeddings',
+  ERROR = 'error'
+}
+
+/**
+ * Messages from the extension host to an embedding worker
+ */
+export type EmbeddingWorkerRequest =
+  | { type: EmbeddingWorkerMessageType.INIT; modelName: string; cacheDir: string }
+  | { type: EmbeddingWorkerMessageType.EMBED; id: number; texts: string[] };
+
+/**
+ * Messages from an embedding worker to the extension host
+ * Every EMBED request is answered by EMBEDDINGS or ERROR with the same ID
+ */
+export type EmbeddingWorkerResponse =
+  | { type: EmbeddingWorkerMessageType.READY }
+  | { type: EmbeddingWorkerMessageType.INIT_ERROR; message: string }
+  | { type: EmbeddingWorkerMessageType.PROGRESS; file: string; percent: number }
+  | { type: EmbeddingWorkerMessageType.EMBEDDINGS; id: number; vectors: number[][] }
+  | { type: EmbeddingWorkerMessageType.ERROR; id: number; message: string };
+
 export interface ICodeParser {
   language: string;
   parseFile(content: string, filePath: string): Promise<ICodeChunk[]>;
@@ -103,11 +282,49 @@ export interface IVectorStore {
   initialize(): Promise<void>;
   store(entries: IVectorEntry[]): Promise<void>;
   search(queryVector: number[], limit: number): Promise<IVectorEntry[]>;
+  getByChunkIds(chunkIds: string[]): Promise<Map<string, IVectorEntry>>;
+  replace(removedChunkIds: string[], entries: IVectorEntry[]): Promise<void>;
   delete(chunkIds: string[]): Promise<void>;
   clear(): Promise<void>;
   getSize(): Promise<number>;
 }
 
+export interface IChunkStore {
+  initialize(): Promise<void>;
+  replaceFile(filePath: string, chunks: ICodeChunk[], contentHash: string, language: string): Promise<string[]>;
+  get(chunkIds: string[]): Promise<Map<string, ICodeChunk>>;
+  getAll(): Promise<ICodeChunk[]>;
+  getChunkIds(filePath: string): Promise<string[]>;
+  getFileHash(filePath: string): Promise<string | undefined>;
+  getIndexedFiles(): Promise<string[]>;
+  deleteFile(filePath: string): Promise<string[]>;
+  clear(): Promise<void>;
+  getStats(): Promise<IChunkStoreStats>;
+}
+
+export interface IChunkStoreStats {
+  totalChunks: number;
+  totalFiles: number;
+  /** Indexed files per language */
+  languages: Record<string, number>;
+}
+
+/**
+ * What the index holds for one file
+ */
+export interface IFileManifestEntry {
+  /** Hash of the content the chunks were built from; empty when the file must be re-indexed */
+  contentHash: string;
+  chunkIds: string[];
+  language: string;
+  indexedAt: number;
+}
+
+export interface IChunkManifest {
+  version: number;
+  files: Record<string, IFileManifestEntry>;
+}
+
 export interface IIndexingConfig {
   maxChunkSize: number;
   chunkOverlap: number;
@@ -0,0 +1,98 @@
+import { IVectorEntry, IVectorRecord, VectorRecordKind, VectoringException } from './types';
+
+// kind (uint8), id length (uint16), chunk ID length (uint16), dimensions (uint32)
+const HEADER_BYTES = 9;
+
+/**
+ * Encode records as a binary segment
+ * Layout per record, little-endian: header, UTF-8 id, UTF-8 chunk ID, then the vector as Float32
+ * @param records Records in write order
+ * @returns Segment bytes
+ */
+export function encodeSegment(records: IVectorRecord[]): Uint8Array {
+  const encoder = new TextEncoder();
+  const encoded = records.map(record => ({
+    record,
+    id: encoder.encode(record.id),
+    chunkId: encoder.encode(record.chunkId),
+    dimensions: record.kind === VectorRecordKind.PUT ? record.vector!.length : 0
+  }));
+
+  const size = encoded.reduce((total, item) => total + HEADER_BYTES + item.id.length + item.chunkId.length + item.dimensions * 4, 0);
+  const bytes = new Uint8Array(size);
+  const view = new DataView(bytes.buffer);
+  let offset = 0;
+
+  for (const item of encoded) {
+    view.setUint8(offset, item.record.kind);
+    view.setUint16(offset + 1, item.id.length, true);
+    view.setUint16(offset + 3, item.chunkId.length, true);
+    view.setUint32(offset + 5, item.dimensions, true);
+    offset += HEADER_BYTES;
+
+    bytes.set(item.id, offset);
+    offset += item.id.length;
+    bytes.set(item.chunkId, offset);
+    offset += item.chunkId.length;
+
+    for (let i = 0; i < item.dimensions; i++) {
+      view.setFloat32(offset, item.record.vector![i], true);
+      offset += 4;
+    }
+  }
+
+  return bytes;
+}
+
+/**
+ * Decode a binary segment
+ * @param bytes Segment bytes
+ * @returns Records in write order
+ */
+export function decodeSegment(bytes: Uint8Array): IVectorRecord[] {
+  const decoder = new TextDecoder();
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const records: IVectorRecord[] = [];
+  let offset = 0;
+
+  while (offset < bytes.length) {
+    if (offset + HEADER_BYTES > bytes.length) {
+      throw new VectoringException('decodeSegment', `Truncated vector segment at byte ${offset}`);
+    }
+
+    const kind = view.getUint8(offset) as VectorRecordKind;
+    const idLength = view.getUint16(offset + 1, true);
+    const chunkIdLength = view.getUint16(offset + 3, true);
+    const dimensions = view.getUint32(offset + 5, true);
+    offset += HEADER_BYTES;
+
+    if (offset + idLength + chunkIdLength + dimensions * 4 > bytes.length) {
+      throw new VectoringException('decodeSegment', `Truncated vector segment at byte ${offset}`);
+    }
+
+    const id = decoder.decode(bytes.subarray(offset, offset + idLength));
+    offset += idLength;
+    const chunkId = decoder.decode(bytes.subarray(offset, offset + chunkIdLength));
+    offset += chunkIdLength;
+
+    let vector: number[] | undefined;
+    if (kind === VectorRecordKind.PUT) {
+      vector = new Array(dimensions);
+      for (let i = 0; i < dimensions; i++) {
+        vector[i] = view.getFloat32(offset, true);
+        offset += 4;
+      }
+    }
+
+    records.push({ kind, id, chunkId, vector });
+  }
+
+  return records;
+}
+
+/**
+ * Records that write the given entries
+ */
+export function toPutRecords(entries: IVectorEntry[]): IVectorRecord[] {
+  return entries.map(entry => ({ kind: VectorRecordKind.PUT, id: entry.id, chunkId: entry.chunkId, vector: entry.vector }));
+}
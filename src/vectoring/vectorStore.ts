@@ -1,22 +1,57 @@
 import * as vscode from 'vscode';
-import * as path from 'path';
-import { IVectorStore, IVectorEntry, VectoringException } from './types';
+import {
+  IAnnConfig,
+  IHnswSnapshot,
+  IVectorStore,
+  IVectorEntry,
+  IVectorRecord,
+  IVectorStoreManifest,
+  VectorRecordKind,
+  VectoringException
+} from './types';
+import { decodeSegment, encodeSegment, toPutRecords } from './vectorSegment';
+import { HnswIndex, loadAnnConfig } from './hnswIndex';
+
+/**
+ * HNSW graph on disk, with the first segment written after it was taken
+ */
+interface IPersistedGraph {
+  nextSegment: number;
+  graph: IHnswSnapshot;
+}
 
 /**
  * Simple file-based vector store optimized for VSCode extensions
- * Stores vectors in JSON format with efficient similarity search
+ * Vectors are written as append-only binary Float32 segments listed in a small JSON manifest,
+ * and segments are compacted once too many accumulate or most records are superseded.
+ * Large stores are searched through an HNSW graph, saved next to the segments
  */
 export class FileVectorStore implements IVectorStore {
+  private static readonly MANIFEST_VERSION = 2;
+  private static readonly MAX_SEGMENTS = 32;
+  private static readonly MIN_DEAD_RECORDS = 1024;
+  private static readonly GRAPH_SAVE_INTERVAL = 8;
+  private static readonly MAX_DELETED_RATIO = 0.3;
+
   private readonly storageUri: vscode.Uri;
-  private readonly indexFile: vscode.Uri;
-  private readonly dataFile: vscode.Uri;
+  private readonly manifestFile: vscode.Uri;
+  private readonly legacyDataFile: vscode.Uri;
+  private readonly legacyIndexFile: vscode.Uri;
+  private readonly graphFile: vscode.Uri;
   private vectorIndex: Map<string, IVectorEntry> = new Map();
+  private annIndex: HnswIndex | undefined;
+  private annBuild: Promise<HnswIndex> | undefined;
+  private changesSinceGraphSave = 0;
+  private manifest: IVectorStoreManifest = FileVectorStore.emptyManifest();
+  private pendingWrite: Promise<void> = Promise.resolve();
   private isInitialized = false;
 
   constructor(storageUri: vscode.Uri) {
     this.storageUri = vscode.Uri.joinPath(storageUri, 'vectors');
-    this.indexFile = vscode.Uri.joinPath(this.storageUri, 'index.json');
-    this.dataFile = vscode.Uri.joinPath(this.storageUri, 'vectors.json');
+    this.manifestFile = vscode.Uri.joinPath(this.storageUri, 'manifest.json');
+    this.legacyDataFile = vscode.Uri.joinPath(this.storageUri, 'vectors.json');
+    this.legacyIndexFile = vscode.Uri.joinPath(this.storageUri, 'index.json');
+    this.graphFile = vscode.Uri.joinPath(this.storageUri, 'hnsw.json');
   }
 
   /**
@@ -50,31 +85,40 @@ export class FileVectorStore implements IVectorStore {
    * @param entries Array of vector entries to store
    */
   async store(entries: IVectorEntry[]): Promise<void> {
+    await this.replace([], entries);
+  }
+
+  /**
+   * Search for similar vectors using cosine similarity
+   * Uses the HNSW graph once the store holds `codeAssist.ann.minVectors` vectors, and scans every vector below that
+   * @param queryVector Query vector
+   * @param limit Maximum number of results
+   * @returns Array of similar vector entries with similarity scores
+   */
+  async search(queryVector: number[], limit: number = 10): Promise<IVectorEntry[]> {
     if (!this.isInitialized) {
       await this.initialize();
     }
 
     try {
-      // Add entries to in-memory index
-      for (const entry of entries) {
-        this.vectorIndex.set(entry.id, entry);
+      const annConfig = loadAnnConfig();
+      if (annConfig.enabled && this.vectorIndex.size >= annConfig.minVectors) {
+        return await this.searchApproximate(queryVector, limit, annConfig);
       }
+      return await this.searchExact(queryVector, limit);
 
-      // Persist to disk
-      await this.saveIndex();
-      
     } catch (error) {
-      throw new VectoringException('store', 'Failed to store vector entries', error);
+      throw new VectoringException('search', 'Failed to search vectors', error);
     }
   }
 
   /**
-   * Search for similar vectors using cosine similarity
+   * Compare the query with every stored vector
    * @param queryVector Query vector
    * @param limit Maximum number of results
-   * @returns Array of similar vector entries with similarity scores
+   * @returns Most similar entries with similarity scores
    */
-  async search(queryVector: number[], limit: number = 10): Promise<IVectorEntry[]> {
+  async searchExact(queryVector: number[], limit: number = 10): Promise<IVectorEntry[]> {
     if (!this.isInitialized) {
       await this.initialize();
     }
@@ -98,34 +142,111 @@ export class FileVectorStore implements IVectorStore {
         .slice(0, limit);
         
     } catch (error) {
-      throw new VectoringException('search', 'Failed to search vectors', error);
+      throw new VectoringException('searchExact', 'Failed to search vectors', error);
     }
   }
 
   /**
-   * Delete vector entries by chunk IDs
-   * @param chunkIds Array of chunk IDs to delete
+   * Search the HNSW graph, building it first if needed
+   * @param queryVector Query vector
+   * @param limit Maximum number of results
+   * @param annConfig Graph parameters, read from the settings when omitted
+   * @returns Approximately the most similar entries with similarity scores
    */
-  async delete(chunkIds: string[]): Promise<void> {
+  async searchApproximate(queryVector: number[], limit: number = 10, annConfig: IAnnConfig = loadAnnConfig()): Promise<IVectorEntry[]> {
     if (!this.isInitialized) {
       await this.initialize();
     }
 
     try {
-      // Remove from in-memory index
-      for (const chunkId of chunkIds) {
-        // Find entries with matching chunkId
-        const entriesToDelete = Array.from(this.vectorIndex.entries())
-          .filter(([_, entry]) => entry.chunkId === chunkId)
-          .map(([id, _]) => id);
-          
-        for (const id of entriesToDelete) {
+      const index = await this.getAnnIndex(annConfig);
+      const results: IVectorEntry[] = [];
+
+      for (const match of index.search(queryVector, limit, annConfig.efSearch)) {
+        const entry = this.vectorIndex.get(match.id);
+        if (entry) {
+          results.push({ ...entry, similarity: match.similarity });
+        }
+      }
+      return results;
+
+    } catch (error) {
+      throw new VectoringException('searchApproximate', 'Failed to search vectors', error);
+    }
+  }
+
+  /**
+   * Look up stored vectors by chunk ID
+   * @param chunkIds Chunk IDs to look up
+   * @returns Vector entries found, keyed by chunk ID
+   */
+  async getByChunkIds(chunkIds: string[]): Promise<Map<string, IVectorEntry>> {
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+
+    const wanted = new Set(chunkIds);
+    const found = new Map<string, IVectorEntry>();
+    for (const entry of this.vectorIndex.values()) {
+      if (wanted.has(entry.chunkId)) {
+        found.set(entry.chunkId, entry);
+      }
+    }
+    return found;
+  }
+
+  /**
+   * Remove and add vectors in a single segment, so a re-indexed file is swapped in one step
+   * @param removedChunkIds Chunk IDs whose vectors should be removed
+   * @param entries Vector entries to add or overwrite
+   */
+  async replace(removedChunkIds: string[], entries: IVectorEntry[]): Promise<void> {
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+
+    try {
+      const records: IVectorRecord[] = [];
+      let superseded = 0;
+
+      const removed = new Set(removedChunkIds);
+      for (const [id, entry] of this.vectorIndex) {
+        if (removed.has(entry.chunkId)) {
           this.vectorIndex.delete(id);
+          this.annIndex?.remove(id);
+          records.push({ kind: VectorRecordKind.DELETE, id, chunkId: entry.chunkId });
+          // Both the tombstone and the vector it removes can be dropped by compaction
+          superseded += 2;
+        }
+      }
+
+      for (const entry of entries) {
+        if (this.vectorIndex.has(entry.id)) {
+          superseded++;
         }
+        this.vectorIndex.set(entry.id, { id: entry.id, chunkId: entry.chunkId, vector: entry.vector });
+        this.annIndex?.insert(entry.id, entry.vector);
+      }
+      records.push(...toPutRecords(entries));
+
+      const write = this.appendRecords(records, superseded);
+      if (this.annIndex && records.length > 0 && ++this.changesSinceGraphSave >= FileVectorStore.GRAPH_SAVE_INTERVAL) {
+        this.saveGraph(this.annIndex);
       }
+      await write;
+
+    } catch (error) {
+      throw new VectoringException('replace', 'Failed to replace vector entries', error);
+    }
+  }
 
-      // Persist changes
-      await this.saveIndex();
+  /**
+   * Delete vector entries by chunk IDs
+   * @param chunkIds Array of chunk IDs to delete
+   */
+  async delete(chunkIds: string[]): Promise<void> {
+    try {
+      await this.replace(chunkIds, []);
       
     } catch (error) {
       throw new VectoringException('delete', 'Failed to delete vector entries', error);
@@ -138,13 +259,25 @@ export class FileVectorStore implements IVectorStore {
   async clear(): Promise<void> {
     try {
       this.vectorIndex.clear();
-      await this.saveIndex();
+      this.annIndex = undefined;
+      await this.enqueueWrite(() => this.compact());
       
     } catch (error) {
       throw new VectoringException('clear', 'Failed to clear vector store', error);
     }
   }
 
+  /**
+   * Every stored vector entry
+   */
+  async getEntries(): Promise<IVectorEntry[]> {
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+
+    return Array.from(this.vectorIndex.values());
+  }
+
   /**
    * Get the number of stored vectors
    */
@@ -157,53 +290,289 @@ export class FileVectorStore implements IVectorStore {
   }
 
   /**
-   * Load index from disk
+   * Load the manifest and replay its segments, migrating a JSON index first if one is found
    */
   private async loadIndex(): Promise<void> {
+    this.vectorIndex.clear();
+    this.annIndex = undefined;
+
+    let manifest: IVectorStoreManifest | undefined;
     try {
-      const data = await vscode.workspace.fs.readFile(this.dataFile);
-      const jsonData = new TextDecoder().decode(data);
-      const entries: IVectorEntry[] = JSON.parse(jsonData);
-      
-      this.vectorIndex.clear();
-      for (const entry of entries) {
-        this.vectorIndex.set(entry.id, entry);
-      }
-      
+      const data = await vscode.workspace.fs.readFile(this.manifestFile);
+      manifest = JSON.parse(new TextDecoder().decode(data));
     } catch (error) {
-      // File doesn't exist or is corrupted, start with empty index
-      this.vectorIndex.clear();
+      // No manifest yet: either a new store or one written in the JSON format
+    }
+
+    if (!manifest) {
+      await this.migrateJsonIndex();
+      return;
+    }
+
+    this.manifest = manifest;
+    let persistedGraph = await this.readGraph();
+
+    for (const segment of manifest.segments) {
+      // Segments written after the graph was saved are replayed into it as well
+      if (persistedGraph && this.segmentNumber(segment.file) >= persistedGraph.nextSegment) {
+        this.annIndex = this.restoreGraph(persistedGraph.graph);
+        persistedGraph = undefined;
+      }
+
+      try {
+        const data = await vscode.workspace.fs.readFile(vscode.Uri.joinPath(this.storageUri, segment.file));
+        this.applyRecords(decodeSegment(data));
+      } catch (error) {
+        // A missing or damaged segment loses only its own vectors, not the whole index
+        console.warn(`Skipping unreadable vector segment ${segment.file}:`, error);
+      }
+    }
+
+    if (persistedGraph) {
+      this.annIndex = this.restoreGraph(persistedGraph.graph);
     }
   }
 
   /**
-   * Save index to disk
+   * Convert a vectors.json index into a single segment
    */
-  private async saveIndex(): Promise<void> {
+  private async migrateJsonIndex(): Promise<void> {
+    let entries: IVectorEntry[];
     try {
-      const entries = Array.from(this.vectorIndex.values());
-      const jsonData = JSON.stringify(entries, null, 2);
-      const data = new TextEncoder().encode(jsonData);
+      const data = await vscode.workspace.fs.readFile(this.legacyDataFile);
+      entries = JSON.parse(new TextDecoder().decode(data));
+    } catch (error) {
+      // Nothing to migrate, start with an empty index
+      this.manifest = FileVectorStore.emptyManifest();
+      return;
+    }
       
-      await vscode.workspace.fs.writeFile(this.dataFile, data);
+    for (const entry of entries) {
+      this.vectorIndex.set(entry.id, { id: entry.id, chunkId: entry.chunkId, vector: entry.vector });
+    }
       
-      // Also save a lightweight index for quick metadata access
-      const indexData = {
-        size: entries.length,
-        lastUpdated: Date.now(),
-        chunkIds: entries.map(e => e.chunkId)
-      };
+    await this.enqueueWrite(() => this.compact());
       
-      const indexJsonData = JSON.stringify(indexData, null, 2);
-      const indexDataEncoded = new TextEncoder().encode(indexJsonData);
+    for (const legacyFile of [this.legacyDataFile, this.legacyIndexFile]) {
+      try {
+        await vscode.workspace.fs.delete(legacyFile);
+      } catch (error) {
+        // Already gone
+      }
+    }
+  }
       
-      await vscode.workspace.fs.writeFile(this.indexFile, indexDataEncoded);
+  private applyRecords(records: IVectorRecord[]): void {
+    for (const record of records) {
+      if (record.kind === VectorRecordKind.PUT) {
+        this.vectorIndex.set(record.id, { id: record.id, chunkId: record.chunkId, vector: record.vector! });
+        this.annIndex?.insert(record.id, record.vector!);
+      } else {
+        this.vectorIndex.delete(record.id);
+        this.annIndex?.remove(record.id);
+      }
+    }
+  }
       
+  /**
+   * Write records as a new segment, compacting instead when the store has grown fragmented
+   */
+  private appendRecords(records: IVectorRecord[], superseded: number): Promise<void> {
+    if (records.length === 0) {
+      return this.pendingWrite;
+    }
+
+    return this.enqueueWrite(async () => {
+      this.manifest.deadRecords += superseded;
+
+      if (this.needsCompaction()) {
+        await this.compact();
+        return;
+      }
+
+      const bytes = encodeSegment(records);
+      const file = this.segmentFileName(this.manifest.nextSegment);
+      await vscode.workspace.fs.writeFile(vscode.Uri.joinPath(this.storageUri, file), bytes);
+
+      this.manifest.segments.push({ file, records: records.length, bytes: bytes.length });
+      this.manifest.nextSegment++;
+      this.manifest.lastUpdated = Date.now();
+      await this.writeManifest();
+    });
+  }
+
+  private needsCompaction(): boolean {
+    return this.manifest.segments.length >= FileVectorStore.MAX_SEGMENTS ||
+      this.manifest.deadRecords > Math.max(FileVectorStore.MIN_DEAD_RECORDS, this.vectorIndex.size);
+  }
+
+  /**
+   * Rewrite the live vectors as one segment and delete every other segment file
+   */
+  private async compact(): Promise<void> {
+    const segments = [];
+    const nextSegment = this.manifest.nextSegment + 1;
+    // Taken with the vectors, before any await lets the index change
+    const graph = this.annIndex?.toSnapshot();
+
+    if (this.vectorIndex.size > 0) {
+      const file = this.segmentFileName(this.manifest.nextSegment);
+      const bytes = encodeSegment(toPutRecords(Array.from(this.vectorIndex.values())));
+      await vscode.workspace.fs.writeFile(vscode.Uri.joinPath(this.storageUri, file), bytes);
+      segments.push({ file, records: this.vectorIndex.size, bytes: bytes.length });
+    }
+
+    this.manifest = {
+      version: FileVectorStore.MANIFEST_VERSION,
+      segments,
+      nextSegment,
+      deadRecords: 0,
+      lastUpdated: Date.now()
+    };
+    await this.writeManifest();
+    await this.writeGraph(graph, nextSegment);
+
+    // Only delete old segments once the manifest no longer lists them
+    const live = new Set(segments.map(segment => segment.file));
+    for (const [name] of await vscode.workspace.fs.readDirectory(this.storageUri)) {
+      if (/^segment-\d+\.bin$/.test(name) && !live.has(name)) {
+        await vscode.workspace.fs.delete(vscode.Uri.joinPath(this.storageUri, name));
+      }
+    }
+  }
+
+  /**
+   * Write the manifest through a temporary file so a crash never leaves half of it
+   */
+  private async writeManifest(): Promise<void> {
+    await this.writeAtomically(this.manifestFile, JSON.stringify(this.manifest, null, 2));
+  }
+
+  /**
+   * Return the HNSW graph, building it when missing, built with other parameters, or full of removed vectors
+   * Changes made while the graph was being built are applied to it before it is used
+   */
+  private async getAnnIndex(annConfig: IAnnConfig): Promise<HnswIndex> {
+    const current = this.annIndex;
+    if (current &&
+        current.params.m === annConfig.m &&
+        current.params.efConstruction === annConfig.efConstruction &&
+        current.deletedRatio <= FileVectorStore.MAX_DELETED_RATIO) {
+      return current;
+    }
+
+    if (!this.annBuild) {
+      this.annBuild = (async () => {
+        try {
+          const index = await HnswIndex.build(Array.from(this.vectorIndex.values()), {
+            m: annConfig.m,
+            efConstruction: annConfig.efConstruction
+          });
+          index.sync(this.vectorIndex);
+
+          this.annIndex = index;
+          this.saveGraph(index);
+          return index;
+
+        } finally {
+          this.annBuild = undefined;
+        }
+      })();
+    }
+
+    return this.annBuild;
+  }
+
+  /**
+   * Save the graph once every write queued before it has landed, so it matches the segments written so far
+   */
+  private saveGraph(index: HnswIndex): void {
+    const snapshot = index.toSnapshot();
+    this.changesSinceGraphSave = 0;
+
+    this.enqueueWrite(() => this.writeGraph(snapshot, this.manifest.nextSegment))
+      .catch(error => console.warn('Failed to save HNSW graph:', error));
+  }
+
+  /**
+   * Write the graph, or delete the saved one when there is no graph
+   */
+  private async writeGraph(graph: IHnswSnapshot | undefined, nextSegment: number): Promise<void> {
+    if (!graph) {
+      try {
+        await vscode.workspace.fs.delete(this.graphFile);
+      } catch (error) {
+        // No graph saved
+      }
+      return;
+    }
+
+    const persisted: IPersistedGraph = { nextSegment, graph };
+    await this.writeAtomically(this.graphFile, JSON.stringify(persisted));
+  }
+
+  private async readGraph(): Promise<IPersistedGraph | undefined> {
+    try {
+      const data = await vscode.workspace.fs.readFile(this.graphFile);
+      return JSON.parse(new TextDecoder().decode(data));
     } catch (error) {
-      throw new VectoringException('saveIndex', 'Failed to save vector index', error);
+      // No graph saved, or unreadable: it is rebuilt on the first approximate search
+      return undefined;
     }
   }
 
+  /**
+   * Restore a saved graph against the vectors loaded so far
+   * @returns The graph, or undefined when it doesn't match the vectors or the current settings
+   */
+  private restoreGraph(snapshot: IHnswSnapshot): HnswIndex | undefined {
+    try {
+      const annConfig = loadAnnConfig();
+      if (!annConfig.enabled || snapshot.params.m !== annConfig.m || snapshot.params.efConstruction !== annConfig.efConstruction) {
+        return undefined;
+      }
+
+      return HnswIndex.restore(snapshot, id => this.vectorIndex.get(id)?.vector) || undefined;
+
+    } catch (error) {
+      console.warn('Discarding saved HNSW graph:', error);
+      return undefined;
+    }
+  }
+
+  private async writeAtomically(target: vscode.Uri, json: string): Promise<void> {
+    const temporary = target.with({ path: `${target.path}.tmp` });
+    await vscode.workspace.fs.writeFile(temporary, new TextEncoder().encode(json));
+    await vscode.workspace.fs.rename(temporary, target, { overwrite: true });
+  }
+
+  /**
+   * Run writes one at a time, in the order they were requested
+   */
+  private enqueueWrite(write: () => Promise<void>): Promise<void> {
+    const next = this.pendingWrite.then(write, write);
+    this.pendingWrite = next.catch(() => undefined);
+    return next;
+  }
+
+  private segmentFileName(segment: number): string {
+    return `segment-${String(segment).padStart(6, '0')}.bin`;
+  }
+
+  private segmentNumber(file: string): number {
+    return parseInt(file.replace(/\D/g, ''), 10);
+  }
+
+  private static emptyManifest(): IVectorStoreManifest {
+    return {
+      version: FileVectorStore.MANIFEST_VERSION,
+      segments: [],
+      nextSegment: 1,
+      deadRecords: 0,
+      lastUpdated: Date.now()
+    };
+  }
+
   /**
    * Calculate cosine similarity between two vectors
    * @param a First vector
@@ -243,27 +612,15 @@ export class FileVectorStore implements IVectorStore {
       await this.initialize();
     }
 
-    try {
-      const indexStat = await vscode.workspace.fs.stat(this.indexFile);
-      const dataStat = await vscode.workspace.fs.stat(this.dataFile);
-      
-      return {
-        size: this.vectorIndex.size,
-        lastUpdated: Math.max(indexStat.mtime, dataStat.mtime),
-        storageSize: indexStat.size + dataStat.size
-      };
-      
-    } catch (error) {
-      return {
-        size: this.vectorIndex.size,
-        lastUpdated: Date.now(),
-        storageSize: 0
-      };
-    }
+    return {
+      size: this.vectorIndex.size,
+      lastUpdated: this.manifest.lastUpdated,
+      storageSize: this.manifest.segments.reduce((total, segment) => total + segment.bytes, 0)
+    };
   }
 
   /**
-   * Optimize storage by removing duplicate vectors
+   * Optimize storage by removing duplicate vectors and compacting segments
    */
   async optimize(): Promise<void> {
     if (!this.isInitialized) {
@@ -281,13 +638,14 @@ export class FileVectorStore implements IVectorStore {
         }
       }
 
-      // Update index with unique vectors only
+      // Update index with unique vectors only, the graph is rebuilt on the next approximate search
       this.vectorIndex.clear();
+      this.annIndex = undefined;
       for (const [_, entry] of uniqueVectors) {
         this.vectorIndex.set(entry.id, entry);
       }
 
-      await this.saveIndex();
+      await this.enqueueWrite(() => this.compact());
       
     } catch (error) {
       throw new VectoringException('optimize', 'Failed to optimize vector store', error);
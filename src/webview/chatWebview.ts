@@ -1,8 +1,19 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import { IChatMessage, IChatState, IWebviewMessage, WebviewMessageType, IChatConfig } from './types';
-import { ClaudeClient } from '../claudeClient';
+import { LLMProviderManager, ILLMCompletion, ILLMProvider, ITokenUsage } from '../providers';
+import { estimateCost } from '../models';
+import { BudgetStatus, IMessageUsage, UsageLedger, formatCost } from '../usage';
+import { IntelligentMemoryManager } from '../memory/memoryManager';
+import { MemoryType } from '../memory/types';
+import { IToolExecutor, IToolSession, IToolStep } from '../tools';
 import { VectorDatabase } from '../vectorDb';
+import { isCancellationError, throwIfCancelled } from '../api/cancellation';
+import { IRetryNotice } from '../api/types';
+import { ApiError } from '../auth/types';
+import { ConversationHistory } from '../conversation';
+import { IAppliedRule, ProjectRulesLoader } from '../rules';
+import { getWorkspaceIgnore } from '../ignore';
 import {
   ActionButtonManager,
   ActionExecutor,
@@ -15,26 +26,50 @@ import {
  * Advanced chat webview with modern UI and intelligent features
  */
 export class ChatWebview {
+  /** Settings that change which models the model picker offers */
+  private static readonly MODEL_SETTINGS = [
+    'codeAssist.provider',
+    'codeAssist.customModels',
+    'codeAssist.openaiCompatible.models'
+  ];
+
   private panel: vscode.WebviewPanel;
-  private readonly claudeClient: ClaudeClient;
+  private readonly providerManager: LLMProviderManager;
   private readonly vectorDb: VectorDatabase;
+  private readonly toolbox: IToolExecutor;
+  private readonly usageLedger: UsageLedger;
+  private readonly memoryManager: IntelligentMemoryManager;
   private readonly context: vscode.ExtensionContext;
   private readonly actionButtonManager: ActionButtonManager;
   private readonly actionExecutor: ActionExecutor;
   private readonly previewManager: PreviewManager;
   private readonly contextMenuManager: ContextMenuManager;
   private readonly undoManager: UndoManager;
+  private readonly conversationHistory: ConversationHistory;
+  private readonly rulesLoader: ProjectRulesLoader;
   private chatState: IChatState;
   private config: IChatConfig;
+  private currentRequest: vscode.CancellationTokenSource | null = null;
+  private configListener: vscode.Disposable | undefined;
+  private conversationId: string;
+  private readonly pinnedFiles: Set<string> = new Set();
+  private softBudgetWarned = false;
 
   constructor(
     context: vscode.ExtensionContext,
-    claudeClient: ClaudeClient,
-    vectorDb: VectorDatabase
+    providerManager: LLMProviderManager,
+    vectorDb: VectorDatabase,
+    toolbox: IToolExecutor,
+    usageLedger: UsageLedger,
+    memoryManager: IntelligentMemoryManager
   ) {
     this.context = context;
-    this.claudeClient = claudeClient;
+    this.providerManager = providerManager;
     this.vectorDb = vectorDb;
+    this.toolbox = toolbox;
+    this.usageLedger = usageLedger;
+    this.memoryManager = memoryManager;
+    this.conversationId = this.generateConversationId();
 
     // Initialize action managers
     this.actionExecutor = new ActionExecutor();
@@ -42,6 +77,7 @@ export class ChatWebview {
     this.previewManager = new PreviewManager(context);
     this.contextMenuManager = new ContextMenuManager(context);
     this.undoManager = new UndoManager(context);
+    this.rulesLoader = new ProjectRulesLoader();
 
     // Initialize chat state
     this.chatState = {
@@ -50,12 +86,18 @@ export class ChatWebview {
       currentInput: '',
       theme: 'auto',
       suggestions: [],
-      attachedFiles: []
+      attachedFiles: [],
+      model: providerManager.getActiveProvider().getDefaultModel().id
     };
 
     // Initialize configuration
     this.config = this.loadConfig();
 
+    // Initialize conversation history
+    this.conversationHistory = new ConversationHistory({
+      maxHistoryTokens: vscode.workspace.getConfiguration('codeAssist').get<number>('conversation.maxHistoryTokens', 4000)
+    });
+
     // Create webview panel
     this.panel = vscode.window.createWebviewPanel(
       'codeAssistChat',
@@ -91,6 +133,13 @@ export class ChatWebview {
       this.updateTheme();
     });
 
+    // Switching provider or editing the model lists changes the models on offer
+    this.configListener = vscode.workspace.onDidChangeConfiguration(event => {
+      if (ChatWebview.MODEL_SETTINGS.some(setting => event.affectsConfiguration(setting))) {
+        this.updateModelOptions();
+      }
+    });
+
     // Send initial state
     this.postMessage({
       type: WebviewMessageType.INIT,
@@ -147,6 +196,14 @@ export class ChatWebview {
         await this.handleExportChat();
         break;
 
+      case WebviewMessageType.CANCEL_REQUEST:
+        this.handleCancelRequest();
+        break;
+
+      case WebviewMessageType.SELECT_MODEL:
+        this.handleSelectModel(message.payload);
+        break;
+
       case WebviewMessageType.ACTION_BUTTON_CLICK:
         await this.handleActionButtonClick(message.payload);
         break;
@@ -182,6 +239,14 @@ export class ChatWebview {
       return;
     }
 
+    // Block or warn when the spending budget is exceeded
+    if (!(await this.checkBudget())) {
+      return;
+    }
+
+    // Earlier messages form the conversation history for this turn
+    const previousMessages = [...this.chatState.messages];
+
     // Add user message
     const userMessage: IChatMessage = {
       id: this.generateMessageId(),
@@ -198,28 +263,93 @@ export class ChatWebview {
     // Show loading state
     this.setLoading(true);
 
+    // Cancelled by the Stop button
+    const cancellation = new vscode.CancellationTokenSource();
+    this.currentRequest = cancellation;
+    const token = cancellation.token;
+
+    // Placeholder message filled in by streamed deltas
+    let streamingMessage: IChatMessage | null = null;
+
+    // Provider selected in settings and model chosen for this conversation
+    const provider = this.providerManager.getActiveProvider();
+    const model = this.chatState.model;
+
+    // Announce automatic retries of rate-limited or overloaded requests
+    const retrySubscription = provider.onDidRetry(notice => this.showRetryNotice(notice));
+
+    // Every request of the turn is recorded as it finishes, including history summaries and
+    // requests that fail or are cancelled part-way; the message shows their sum
+    let usage: IMessageUsage | undefined;
+    const usageSubscription = provider.onDidUseTokens(tokenUsage => {
+      usage = this.addUsage(usage, this.recordUsage(provider, tokenUsage));
+    });
+
     try {
       // Get relevant code context from vector database
-      const relevantCode = await this.vectorDb.getRelevantCode(content, 5);
+      const relevantContext = await this.vectorDb.getRelevantContext(content, 5, token);
+      const relevantCode = relevantContext.snippets;
+
+      // Files attached during the conversation stay pinned in the stable prompt prefix
+      attachedFiles.forEach(filePath => this.pinnedFiles.add(filePath));
+
+      // Project rules scoped to the active file and the files in context
+      const activeFilePath = vscode.window.activeTextEditor?.document.fileName;
+      const rules = await this.getApplicableRules([
+        ...(activeFilePath ? [activeFilePath] : []),
+        ...this.pinnedFiles,
+        ...relevantContext.filePaths
+      ]);
 
       // Prepare enhanced context
       const enhancedContext = {
         codeContext: relevantCode,
         currentEditor: this.getCurrentEditorInfo(),
-        attachedFiles: await this.getAttachedFilesContent(attachedFiles)
+        rules,
+        guidelines: await this.getGuidelines(),
+        pinnedFiles: await this.getAttachedFilesContent([...this.pinnedFiles].sort(), token),
+        history: await this.conversationHistory.build(
+          previousMessages,
+          (turns, previousSummary) => provider.summarizeConversation(turns, previousSummary, token, model)
+        )
       };
+      throwIfCancelled(token);
+
+      // Tool calls show up as steps on the assistant message
+      const tools: IToolSession | undefined = this.config.enableTools
+        ? {
+          executor: this.toolbox,
+          onToolStep: step => {
+            streamingMessage = streamingMessage || this.createStreamingMessage();
+            this.updateToolStep(streamingMessage, step);
+          }
+        }
+        : undefined;
 
-      // Get response from Claude
+      // Get response from the selected provider
       const startTime = Date.now();
-      const response = await this.claudeClient.getCompletion(content, enhancedContext);
+      let completion: ILLMCompletion;
+
+      if (this.config.streamResponses) {
+        const placeholder = this.createStreamingMessage();
+        streamingMessage = placeholder;
+        completion = await provider.getStreamingCompletion(content, enhancedContext, delta => {
+          this.appendMessageDelta(placeholder, delta);
+        }, token, model, tools);
+      } else {
+        completion = await provider.getCompletion(content, enhancedContext, token, model, tools);
+      }
+
+      const response = completion.content;
+
       const processingTime = Date.now() - startTime;
 
-      // Create action buttons for the response
+      // Create action buttons once the full response is known
       const actionButtons = await this.actionButtonManager.createActionButtons(response);
 
       // Add assistant response
       const assistantMessage: IChatMessage = {
-        id: this.generateMessageId(),
+        id: streamingMessage ? streamingMessage.id : this.generateMessageId(),
         role: 'assistant',
         content: response,
         timestamp: Date.now(),
@@ -228,12 +358,19 @@ export class ChatWebview {
           codeContext: relevantCode,
           relevantChunks: relevantCode.length,
           processingTime,
-          model: 'claude-3-sonnet',
-          actionButtons: actionButtons.length > 0 ? actionButtons : undefined
+          model: completion.model,
+          actionButtons: actionButtons.length > 0 ? actionButtons : undefined,
+          toolSteps: streamingMessage?.metadata?.toolSteps,
+          appliedRules: rules.length > 0 ? rules.map(rule => rule.name) : undefined,
+          usage
         }
       };
 
-      this.addMessage(assistantMessage);
+      if (streamingMessage) {
+        this.replaceMessage(assistantMessage);
+      } else {
+        this.addMessage(assistantMessage);
+      }
 
       // Store actions for this message
       if (actionButtons.length > 0) {
@@ -241,20 +378,53 @@ export class ChatWebview {
       }
 
     } catch (error) {
-      // Add error message
+      if (streamingMessage) {
+        this.finishInterruptedStream(streamingMessage);
+      }
+
+      // Add cancellation notice or error message
       const errorMessage: IChatMessage = {
         id: this.generateMessageId(),
         role: 'system',
-        content: `Error: ${error instanceof Error ? error.message : 'Unknown error occurred'}`,
+        content: isCancellationError(error)
+          ? 'Request cancelled.'
+          : `Error: ${error instanceof Error ? error.message : 'Unknown error occurred'}`,
         timestamp: Date.now()
       };
 
       this.addMessage(errorMessage);
     } finally {
+      if (this.currentRequest === cancellation) {
+        this.currentRequest = null;
+      }
+      retrySubscription.dispose();
+      usageSubscription.dispose();
+      cancellation.dispose();
       this.setLoading(false);
     }
   }
 
+  /**
+   * Switch the model used for the rest of this conversation
+   */
+  private handleSelectModel(payload: { model: string }): void {
+    const model = this.providerManager.getActiveProvider().getModel(payload?.model);
+    if (!model) {
+      vscode.window.showWarningMessage(`Unknown model: ${payload?.model}`);
+      return;
+    }
+
+    this.chatState.model = model.id;
+    this.updateWebviewState();
+  }
+
+  /**
+   * Cancel the in-flight request, if any
+   */
+  private handleCancelRequest(): void {
+    this.currentRequest?.cancel();
+  }
+
   /**
    * Handle file attachment
    */
@@ -271,7 +441,20 @@ export class ChatWebview {
     });
 
     if (fileUris && fileUris.length > 0) {
-      const filePaths = fileUris.map(uri => uri.fsPath);
+      const ignore = getWorkspaceIgnore();
+      await ignore.load();
+      const filePaths = ignore.filter(fileUris.map(uri => uri.fsPath));
+
+      const skipped = fileUris.length - filePaths.length;
+      if (skipped > 0) {
+        vscode.window.showWarningMessage(
+          `Skipped ${skipped} file(s) excluded by .gitignore or .codeassistignore. Run "Explain Index Exclusion" to see the rule.`
+        );
+      }
+      if (filePaths.length === 0) {
+        return;
+      }
+
       this.chatState.attachedFiles.push(...filePaths);
 
       this.postMessage({
@@ -285,9 +468,12 @@ export class ChatWebview {
    * Handle file mention (@file)
    */
   private async handleMentionFile(): Promise<void> {
+    const ignore = getWorkspaceIgnore();
+    await ignore.load();
+
     const openEditors = vscode.window.tabGroups.all
       .flatMap(group => group.tabs)
-      .filter(tab => tab.input instanceof vscode.TabInputText)
+      .filter(tab => tab.input instanceof vscode.TabInputText && !ignore.isIgnored(tab.input.uri.fsPath))
       .map(tab => ({
         label: path.basename((tab.input as vscode.TabInputText).uri.fsPath),
         detail: (tab.input as vscode.TabInputText).uri.fsPath,
@@ -320,6 +506,9 @@ export class ChatWebview {
   private handleClearChat(): void {
     this.chatState.messages = [];
     this.chatState.attachedFiles = [];
+    this.conversationHistory.reset();
+    this.conversationId = this.generateConversationId();
+    this.pinnedFiles.clear();
     this.updateWebviewState();
   }
 
@@ -480,6 +669,182 @@ export class ChatWebview {
     this.updateWebviewState();
   }
 
+  /**
+   * Replace an existing message, matched by id
+   */
+  private replaceMessage(message: IChatMessage): void {
+    const index = this.chatState.messages.findIndex(existing => existing.id === message.id);
+    if (index === -1) {
+      this.chatState.messages.push(message);
+    } else {
+      this.chatState.messages[index] = message;
+    }
+    this.updateWebviewState();
+  }
+
+  /**
+   * Add an empty assistant message that streamed deltas are appended to
+   */
+  private createStreamingMessage(): IChatMessage {
+    const message: IChatMessage = {
+      id: this.generateMessageId(),
+      role: 'assistant',
+      content: '',
+      timestamp: Date.now(),
+      isMarkdown: true,
+      isLoading: true
+    };
+
+    this.addMessage(message);
+    return message;
+  }
+
+  /**
+   * Append a streamed text delta to a message and forward it to the webview
+   */
+  private appendMessageDelta(message: IChatMessage, delta: string): void {
+    message.content += delta;
+    this.postMessage({
+      type: WebviewMessageType.MESSAGE_DELTA,
+      payload: { messageId: message.id, delta }
+    });
+  }
+
+  /**
+   * Check the spending budget before sending a request
+   * @returns False when the hard limit blocks the request
+   */
+  private async checkBudget(): Promise<boolean> {
+    try {
+      const budget = await this.usageLedger.checkBudget();
+
+      if (budget.status === BudgetStatus.HARD_LIMIT_EXCEEDED) {
+        this.addMessage({
+          id: this.generateMessageId(),
+          role: 'system',
+          content: `Budget reached: ${formatCost(budget.spent)} spent this ${budget.period} (limit ${formatCost(budget.limit)}). ` +
+            'Raise codeAssist.budget.hardLimit to keep chatting.',
+          timestamp: Date.now()
+        });
+        return false;
+      }
+
+      if (budget.status === BudgetStatus.SOFT_LIMIT_EXCEEDED && !this.softBudgetWarned) {
+        this.softBudgetWarned = true;
+        vscode.window.showWarningMessage(
+          `Code Assistant has used ${formatCost(budget.spent)} this ${budget.period}, above the ${formatCost(budget.limit)} budget.`,
+          'Show Usage'
+        ).then(selection => {
+          if (selection === 'Show Usage') {
+            vscode.commands.executeCommand('codeAssist.usageReport');
+          }
+        });
+      }
+
+      if (budget.status === BudgetStatus.OK) {
+        this.softBudgetWarned = false;
+      }
+    } catch (error) {
+      // A broken ledger should not stop the chat
+      console.error('Failed to check usage budget:', error);
+    }
+
+    return true;
+  }
+
+  /**
+   * Record the tokens of one request in the ledger
+   * @param provider Provider that sent the request
+   * @param tokenUsage Model and usage reported for the request
+   * @returns Usage and estimated cost of the request
+   */
+  private recordUsage(provider: ILLMProvider, tokenUsage: ITokenUsage): IMessageUsage {
+    const modelInfo = provider.getModel(tokenUsage.model) || provider.getModel(this.chatState.model) || provider.getDefaultModel();
+    const cacheWriteTokens = tokenUsage.usage.cache_creation_input_tokens || 0;
+    const cacheReadTokens = tokenUsage.usage.cache_read_input_tokens || 0;
+    const usage: IMessageUsage = {
+      inputTokens: tokenUsage.usage.input_tokens,
+      outputTokens: tokenUsage.usage.output_tokens,
+      cacheWriteTokens,
+      cacheReadTokens,
+      cost: estimateCost(modelInfo, tokenUsage.usage.input_tokens, tokenUsage.usage.output_tokens, cacheWriteTokens, cacheReadTokens)
+    };
+
+    this.usageLedger.record({
+      conversationId: this.conversationId,
+      provider: provider.id,
+      model: tokenUsage.model,
+      ...usage
+    }).catch(error => console.error('Failed to record usage:', error));
+
+    return usage;
+  }
+
+  /**
+   * Sum the usage of the requests of one turn
+   */
+  private addUsage(total: IMessageUsage | undefined, usage: IMessageUsage): IMessageUsage {
+    if (!total) {
+      return usage;
+    }
+
+    return {
+      inputTokens: total.inputTokens + usage.inputTokens,
+      outputTokens: total.outputTokens + usage.outputTokens,
+      cacheWriteTokens: total.cacheWriteTokens + usage.cacheWriteTokens,
+      cacheReadTokens: total.cacheReadTokens + usage.cacheReadTokens,
+      cost: total.cost + usage.cost
+    };
+  }
+
+  /**
+   * Show the retry banner while a rate-limited or overloaded request waits
+   */
+  private showRetryNotice(notice: IRetryNotice): void {
+    const reason = notice.error.errorType === ApiError.RATE_LIMITED
+      ? 'Rate limit reached.'
+      : 'The API is overloaded.';
+
+    this.postMessage({
+      type: WebviewMessageType.RETRY_NOTICE,
+      payload: {
+        reason,
+        delayMs: notice.delayMs,
+        attempt: notice.attempt,
+        maxRetries: notice.maxRetries
+      }
+    });
+  }
+
+  /**
+   * Add or update a tool step shown on an assistant message
+   */
+  private updateToolStep(message: IChatMessage, step: IToolStep): void {
+    const toolSteps = message.metadata?.toolSteps || [];
+    const index = toolSteps.findIndex(existing => existing.id === step.id);
+    if (index === -1) {
+      toolSteps.push(step);
+    } else {
+      toolSteps[index] = step;
+    }
+
+    message.metadata = { ...message.metadata, toolSteps };
+    this.replaceMessage(message);
+  }
+
+  /**
+   * Keep partial output of an interrupted stream, or drop the empty placeholder
+   */
+  private finishInterruptedStream(message: IChatMessage): void {
+    if (message.content.length === 0 && !message.metadata?.toolSteps?.length) {
+      this.chatState.messages = this.chatState.messages.filter(existing => existing.id !== message.id);
+      this.updateWebviewState();
+      return;
+    }
+
+    this.replaceMessage({ ...message, isLoading: false });
+  }
+
   /**
    * Set loading state
    */
@@ -508,6 +873,13 @@ export class ChatWebview {
     this.panel.webview.postMessage(message);
   }
 
+  /**
+   * Generate unique conversation ID used by the usage ledger
+   */
+  private generateConversationId(): string {
+    return `conv_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+
   /**
    * Generate unique message ID
    */
@@ -536,10 +908,12 @@ export class ChatWebview {
   /**
    * Get content of attached files
    */
-  private async getAttachedFilesContent(filePaths: string[]): Promise<any[]> {
+  private async getAttachedFilesContent(filePaths: string[], token?: vscode.CancellationToken): Promise<any[]> {
     const filesContent = [];
 
     for (const filePath of filePaths) {
+      throwIfCancelled(token);
+
       try {
         const uri = vscode.Uri.file(filePath);
         const content = await vscode.workspace.fs.readFile(uri);
@@ -558,6 +932,38 @@ export class ChatWebview {
     return filesContent;
   }
 
+  /**
+   * Load the project rules that apply to the given files
+   * @param filePaths Active file and files in context
+   * @returns Rules in hierarchy order, empty if they cannot be read
+   */
+  private async getApplicableRules(filePaths: string[]): Promise<IAppliedRule[]> {
+    try {
+      const rules = await this.rulesLoader.loadRules();
+      return this.rulesLoader
+        .selectRules(rules, filePaths)
+        .map(rule => ({ name: rule.name, content: rule.content }));
+    } catch (error) {
+      console.error('Failed to load project rules:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Load guideline memories, oldest first so the prompt prefix stays stable
+   */
+  private async getGuidelines(): Promise<string[]> {
+    try {
+      const guidelines = await this.memoryManager.getMemoriesByType(MemoryType.GUIDELINE);
+      return guidelines
+        .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+        .map(memory => memory.content);
+    } catch (error) {
+      console.error('Failed to load guideline memories:', error);
+      return [];
+    }
+  }
+
   /**
    * Load configuration
    */
@@ -572,7 +978,9 @@ export class ChatWebview {
       theme: config.get('theme', 'auto'),
       fontSize: config.get('fontSize', 14),
       showTimestamps: config.get('showTimestamps', true),
-      enableSounds: config.get('enableSounds', false)
+      enableSounds: config.get('enableSounds', false),
+      streamResponses: config.get('streamResponses', true),
+      enableTools: config.get('tools.enabled', true)
     };
   }
 
@@ -612,7 +1020,13 @@ export class ChatWebview {
       if (message.metadata) {
         lines.push('**Metadata:**');
         lines.push(`- Processing time: ${message.metadata.processingTime}ms`);
+        if (message.metadata.model) {
+          lines.push(`- Model: ${message.metadata.model}`);
+        }
         lines.push(`- Relevant chunks: ${message.metadata.relevantChunks}`);
+        if (message.metadata.appliedRules) {
+          lines.push(`- Rules applied: ${message.metadata.appliedRules.join(', ')}`);
+        }
         lines.push('');
       }
     }
@@ -654,6 +1068,9 @@ export class ChatWebview {
                 <span class="status-indicator" id="statusIndicator"></span>
             </div>
             <div class="toolbar">
+                <select class="model-select" id="modelSelect" title="Model for this conversation">
+                    ${this.getModelOptionsHTML()}
+                </select>
                 <button class="toolbar-btn" id="attachBtn" title="Attach File (Ctrl+Shift+A)">
                     <span class="icon">📎</span>
                 </button>
@@ -700,6 +1117,9 @@ export class ChatWebview {
                     </div>
                     <span class="loading-text">Claude is thinking...</span>
                 </div>
+
+                <!-- Retry banner -->
+                <div id="retryBanner" class="retry-banner hidden" role="status"></div>
             </div>
         </main>
 
@@ -725,6 +1145,9 @@ export class ChatWebview {
                         <button id="sendBtn" class="send-btn" title="Send Message (Ctrl+Enter)">
                             <span class="icon">➤</span>
                         </button>
+                        <button id="stopBtn" class="stop-btn hidden" title="Stop (Esc)">
+                            <span class="icon">■</span>
+                        </button>
                     </div>
                 </div>
                 <div class="input-footer">
@@ -742,6 +1165,48 @@ export class ChatWebview {
 </html>`;
   }
 
+  /**
+   * Send the active provider's models to the model picker
+   * The conversation falls back to the provider's default model when its model is no longer offered
+   */
+  private updateModelOptions(): void {
+    const provider = this.providerManager.getActiveProvider();
+    if (!provider.getModel(this.chatState.model)) {
+      this.chatState.model = provider.getDefaultModel().id;
+    }
+
+    this.postMessage({
+      type: WebviewMessageType.MODELS_UPDATE,
+      payload: {
+        models: provider.listModels().map(model => ({ id: model.id, displayName: model.displayName })),
+        model: this.chatState.model
+      }
+    });
+  }
+
+  /**
+   * Generate the model picker options, selecting the conversation model
+   */
+  private getModelOptionsHTML(): string {
+    return this.providerManager.getActiveProvider().listModels()
+      .map(model => {
+        const selected = model.id === this.chatState.model ? ' selected' : '';
+        return `<option value="${this.escapeHtml(model.id)}"${selected}>${this.escapeHtml(model.displayName)}</option>`;
+      })
+      .join('');
+  }
+
+  /**
+   * Escape text for safe inclusion in HTML
+   */
+  private escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+
   /**
    * Generate a nonce for CSP
    */
@@ -758,6 +1223,8 @@ export class ChatWebview {
    * Dispose webview resources
    */
   public dispose(): void {
+    this.currentRequest?.cancel();
+    this.configListener?.dispose();
     this.panel.dispose();
     this.previewManager.dispose();
     this.undoManager.dispose();
@@ -907,6 +1374,16 @@ export class ChatWebview {
         border-color: var(--border-color);
       }
 
+      .model-select {
+        background: var(--bg-tertiary);
+        color: var(--text-primary);
+        border: 1px solid var(--border-color);
+        border-radius: 4px;
+        padding: 4px 6px;
+        font-size: 12px;
+        max-width: 160px;
+      }
+
       .toolbar-btn:active {
         transform: translateY(1px);
       }
@@ -1266,6 +1743,21 @@ export class ChatWebview {
         display: none;
       }
 
+      /* Retry banner */
+      .retry-banner {
+        margin: 0 16px 12px;
+        padding: 8px 12px;
+        border-radius: 6px;
+        font-size: 12px;
+        color: var(--vscode-inputValidation-warningForeground, var(--text-primary));
+        background: var(--vscode-inputValidation-warningBackground, var(--code-bg));
+        border: 1px solid var(--vscode-inputValidation-warningBorder, var(--code-border));
+      }
+
+      .retry-banner.hidden {
+        display: none;
+      }
+
       .loading-dots {
         display: flex;
         gap: 4px;
@@ -1418,6 +1910,25 @@ export class ChatWebview {
         cursor: not-allowed;
       }
 
+      .stop-btn {
+        background: var(--error-color);
+        color: var(--btn-fg);
+        border: none;
+        border-radius: 6px;
+        padding: 8px 12px;
+        cursor: pointer;
+        font-size: 16px;
+      }
+
+      .stop-btn:hover {
+        opacity: 0.85;
+      }
+
+      .send-btn.hidden,
+      .stop-btn.hidden {
+        display: none;
+      }
+
       .input-footer {
         display: flex;
         justify-content: space-between;
@@ -1464,6 +1975,51 @@ export class ChatWebview {
         }
       }
 
+      /* Tool steps */
+      .tool-steps {
+        display: flex;
+        flex-direction: column;
+        gap: 4px;
+        margin-bottom: 6px;
+      }
+
+      .tool-step {
+        background: var(--code-bg);
+        border: 1px solid var(--code-border);
+        border-radius: 6px;
+        font-size: 12px;
+      }
+
+      .tool-step summary {
+        cursor: pointer;
+        padding: 4px 8px;
+        color: var(--text-muted);
+      }
+
+      .tool-step.running summary {
+        animation: pulse 1s infinite;
+      }
+
+      .tool-step.failed summary {
+        color: var(--vscode-errorForeground);
+      }
+
+      .tool-step pre {
+        margin: 0;
+        padding: 6px 8px;
+        border-top: 1px solid var(--code-border);
+        max-height: 240px;
+        overflow: auto;
+        white-space: pre-wrap;
+      }
+
+      /* Streaming cursor */
+      .message.streaming .message-content::after {
+        content: '▍';
+        margin-left: 2px;
+        animation: pulse 1s infinite;
+      }
+
       /* Scrollbar styling */
       .messages-wrapper::-webkit-scrollbar {
         width: 8px;
@@ -1551,7 +2107,8 @@ export class ChatWebview {
         currentInput: '',
         theme: 'auto',
         suggestions: [],
-        attachedFiles: []
+        attachedFiles: [],
+        model: ''
       };
 
       let config = {
@@ -1562,14 +2119,22 @@ export class ChatWebview {
         theme: 'auto',
         fontSize: 14,
         showTimestamps: true,
-        enableSounds: false
+        enableSounds: false,
+        streamResponses: true,
+        enableTools: true
       };
 
+      // Tool steps the user expanded, kept open across re-renders
+      const openToolSteps = new Set();
+
       // DOM elements
       let messagesContainer;
       let messageInput;
       let sendBtn;
+      let stopBtn;
       let loadingIndicator;
+      let retryBanner;
+      let retryTimer = null;
       let statusIndicator;
       let charCount;
       let attachedFilesContainer;
@@ -1588,7 +2153,9 @@ export class ChatWebview {
         messagesContainer = document.getElementById('messagesContainer');
         messageInput = document.getElementById('messageInput');
         sendBtn = document.getElementById('sendBtn');
+        stopBtn = document.getElementById('stopBtn');
         loadingIndicator = document.getElementById('loadingIndicator');
+        retryBanner = document.getElementById('retryBanner');
         statusIndicator = document.getElementById('statusIndicator');
         charCount = document.getElementById('charCount');
         attachedFilesContainer = document.getElementById('attachedFiles');
@@ -1600,6 +2167,9 @@ export class ChatWebview {
         // Send button
         sendBtn.addEventListener('click', sendMessage);
 
+        // Stop button
+        stopBtn.addEventListener('click', cancelRequest);
+
         // Input events
         messageInput.addEventListener('input', handleInputChange);
         messageInput.addEventListener('keydown', handleKeyDown);
@@ -1624,6 +2194,10 @@ export class ChatWebview {
           vscode.postMessage({ type: 'exportChat' });
         });
 
+        document.getElementById('modelSelect').addEventListener('change', (e) => {
+          vscode.postMessage({ type: 'selectModel', payload: { model: e.target.value } });
+        });
+
         // Message from extension
         window.addEventListener('message', handleExtensionMessage);
       }
@@ -1651,8 +2225,11 @@ export class ChatWebview {
             }
           }
 
-          // Escape to close suggestions
+          // Escape to close suggestions or stop the running request
           if (e.key === 'Escape') {
+            if (chatState.isLoading) {
+              cancelRequest();
+            }
             hideSuggestions();
           }
 
@@ -1762,6 +2339,16 @@ export class ChatWebview {
         chatState.attachedFiles = [];
       }
 
+      // Ask the extension to stop the running request
+      function cancelRequest() {
+        if (!chatState.isLoading) {
+          return;
+        }
+
+        stopBtn.disabled = true;
+        vscode.postMessage({ type: 'cancelRequest' });
+      }
+
       // Handle messages from extension
       function handleExtensionMessage(event) {
         const message = event.data;
@@ -1777,11 +2364,21 @@ export class ChatWebview {
             addMessageToUI(message.payload.message);
             break;
 
+          case 'messageDelta':
+            hideRetryBanner();
+            appendMessageDelta(message.payload.messageId, message.payload.delta);
+            break;
+
+          case 'retryNotice':
+            showRetryBanner(message.payload);
+            break;
+
           case 'loadingStart':
             setLoadingState(true);
             break;
 
           case 'loadingEnd':
+            hideRetryBanner();
             setLoadingState(false);
             break;
 
@@ -1806,8 +2403,15 @@ export class ChatWebview {
             if (message.payload.state) {
               chatState = { ...chatState, ...message.payload.state };
               renderMessages();
+              if (chatState.model) {
+                document.getElementById('modelSelect').value = chatState.model;
+              }
             }
             break;
+
+          case 'modelsUpdate':
+            updateModelOptions(message.payload.models, message.payload.model);
+            break;
         }
       }
 
@@ -1833,6 +2437,15 @@ export class ChatWebview {
         messageDiv.className = \`message \${message.role}-message fade-in\`;
         messageDiv.setAttribute('data-message-id', message.id);
 
+        if (message.isLoading) {
+          messageDiv.classList.add('streaming');
+        }
+
+        // Add tool steps before the answer they led to
+        if (message.metadata?.toolSteps && message.metadata.toolSteps.length > 0) {
+          messageDiv.appendChild(createToolStepsElement(message.metadata.toolSteps));
+        }
+
         const contentDiv = document.createElement('div');
         contentDiv.className = 'message-content';
 
@@ -1867,10 +2480,31 @@ export class ChatWebview {
             metaText += \` • \${message.metadata.processingTime}ms\`;
           }
 
+          if (message.metadata?.model) {
+            metaText += \` • \${message.metadata.model}\`;
+          }
+
+          if (message.metadata?.usage) {
+            const usage = message.metadata.usage;
+            metaText += ' • ' + usage.inputTokens.toLocaleString() + ' in / ' +
+              usage.outputTokens.toLocaleString() + ' out tokens';
+            if (usage.cacheReadTokens || usage.cacheWriteTokens) {
+              metaText += ' • cache ' + (usage.cacheReadTokens || 0).toLocaleString() + ' read / ' +
+                (usage.cacheWriteTokens || 0).toLocaleString() + ' written';
+            }
+            if (usage.cost > 0) {
+              metaText += ' • $' + (usage.cost < 0.01 ? usage.cost.toFixed(4) : usage.cost.toFixed(2));
+            }
+          }
+
           if (message.metadata?.relevantChunks) {
             metaText += \` • \${message.metadata.relevantChunks} context chunks\`;
           }
 
+          if (message.metadata?.appliedRules && message.metadata.appliedRules.length > 0) {
+            metaText += ' • rules: ' + message.metadata.appliedRules.join(', ');
+          }
+
           if (message.metadata?.actionButtons && message.metadata.actionButtons.length > 0) {
             metaText += \` • \${message.metadata.actionButtons.length} action\${message.metadata.actionButtons.length > 1 ? 's' : ''} available\`;
           }
@@ -1882,6 +2516,70 @@ export class ChatWebview {
         return messageDiv;
       }
 
+      // Create collapsible steps for the tools called while answering
+      function createToolStepsElement(toolSteps) {
+        const container = document.createElement('div');
+        container.className = 'tool-steps';
+
+        toolSteps.forEach(step => {
+          const details = document.createElement('details');
+          details.className = 'tool-step ' + step.status;
+          details.open = openToolSteps.has(step.id);
+          details.addEventListener('toggle', () => {
+            if (details.open) {
+              openToolSteps.add(step.id);
+            } else {
+              openToolSteps.delete(step.id);
+            }
+          });
+
+          const icon = step.status === 'running' ? '⏳' : step.status === 'failed' ? '⚠️' : '🔧';
+          const target = step.input && (step.input.query || step.input.path);
+          const summary = document.createElement('summary');
+          summary.textContent = icon + ' ' + step.name +
+            (target ? ': ' + target : '') +
+            (step.durationMs !== undefined ? ' • ' + step.durationMs + 'ms' : '');
+          details.appendChild(summary);
+
+          const input = document.createElement('pre');
+          input.textContent = JSON.stringify(step.input, null, 2);
+          details.appendChild(input);
+
+          if (step.output !== undefined) {
+            const output = document.createElement('pre');
+            output.textContent = step.output;
+            details.appendChild(output);
+          }
+
+          container.appendChild(details);
+        });
+
+        return container;
+      }
+
+      // Append a streamed delta to an assistant message being generated
+      function appendMessageDelta(messageId, delta) {
+        const message = chatState.messages.find(m => m.id === messageId);
+        if (!message) {
+          return;
+        }
+
+        message.content += delta;
+
+        const contentDiv = messagesContainer.querySelector('[data-message-id="' + messageId + '"] .message-content');
+        if (contentDiv) {
+          if (message.isMarkdown && config.enableMarkdown) {
+            contentDiv.innerHTML = renderMarkdown(message.content);
+          } else {
+            contentDiv.textContent = message.content;
+          }
+        }
+
+        // The streamed message replaces the thinking indicator
+        loadingIndicator.classList.add('hidden');
+        scrollToBottom();
+      }
+
       // Simple markdown renderer
       function renderMarkdown(text) {
         return text
@@ -1899,6 +2597,39 @@ export class ChatWebview {
           .replace(/\\n/g, '<br>');
       }
 
+      // Show a countdown until the next automatic retry
+      function showRetryBanner(notice) {
+        hideRetryBanner();
+
+        let remaining = Math.ceil(notice.delayMs / 1000);
+        const render = () => {
+          retryBanner.textContent = remaining > 0
+            ? notice.reason + ' Retrying in ' + remaining + 's (attempt ' + notice.attempt + ' of ' + notice.maxRetries + ')...'
+            : notice.reason + ' Retrying now (attempt ' + notice.attempt + ' of ' + notice.maxRetries + ')...';
+        };
+
+        render();
+        retryBanner.classList.remove('hidden');
+        retryTimer = setInterval(() => {
+          remaining--;
+          render();
+          if (remaining <= 0) {
+            clearInterval(retryTimer);
+            retryTimer = null;
+          }
+        }, 1000);
+        scrollToBottom();
+      }
+
+      // Hide the retry banner once the request proceeds or ends
+      function hideRetryBanner() {
+        if (retryTimer) {
+          clearInterval(retryTimer);
+          retryTimer = null;
+        }
+        retryBanner.classList.add('hidden');
+      }
+
       // Set loading state
       function setLoadingState(isLoading) {
         chatState.isLoading = isLoading;
@@ -1907,10 +2638,15 @@ export class ChatWebview {
           loadingIndicator.classList.remove('hidden');
           statusIndicator.classList.add('loading');
           sendBtn.disabled = true;
+          sendBtn.classList.add('hidden');
+          stopBtn.classList.remove('hidden');
+          stopBtn.disabled = false;
         } else {
           loadingIndicator.classList.add('hidden');
           statusIndicator.classList.remove('loading');
           sendBtn.disabled = false;
+          sendBtn.classList.remove('hidden');
+          stopBtn.classList.add('hidden');
         }
 
         updateSendButtonState();
@@ -2020,6 +2756,21 @@ export class ChatWebview {
       }
 
       // File attachment functions
+      function updateModelOptions(models, model) {
+        const modelSelect = document.getElementById('modelSelect');
+        modelSelect.innerHTML = '';
+
+        models.forEach(({ id, displayName }) => {
+          const option = document.createElement('option');
+          option.value = id;
+          option.textContent = displayName;
+          modelSelect.appendChild(option);
+        });
+
+        modelSelect.value = model;
+        chatState.model = model;
+      }
+
       function addAttachedFiles(files) {
         chatState.attachedFiles.push(...files);
         renderAttachedFiles();
@@ -2,6 +2,9 @@
  * Types and interfaces for the webview chat interface
  */
 
+import { IToolStep } from '../tools/types';
+import { IMessageUsage } from '../usage/types';
+
 export interface IChatMessage {
   id: string;
   role: 'user' | 'assistant' | 'system';
@@ -19,6 +22,9 @@ export interface IChatMessageMetadata {
   processingTime?: number;
   model?: string;
   actionButtons?: IActionButton[];
+  toolSteps?: IToolStep[];
+  appliedRules?: string[];
+  usage?: IMessageUsage;
 }
 
 export interface IActionButton {
@@ -38,6 +44,7 @@ export interface IChatState {
   theme: 'light' | 'dark' | 'auto';
   suggestions: string[];
   attachedFiles: string[];
+  model: string;
 }
 
 export interface IWebviewMessage {
@@ -52,9 +59,13 @@ export enum WebviewMessageType {
   MENTION_FILE = 'mentionFile',
   CLEAR_CHAT = 'clearChat',
   EXPORT_CHAT = 'exportChat',
+  CANCEL_REQUEST = 'cancelRequest',
+  SELECT_MODEL = 'selectModel',
 
   // System responses
   MESSAGE_RESPONSE = 'messageResponse',
+  MESSAGE_DELTA = 'messageDelta',
+  RETRY_NOTICE = 'retryNotice',
   LOADING_START = 'loadingStart',
   LOADING_END = 'loadingEnd',
   ERROR = 'error',
@@ -67,6 +78,7 @@ export enum WebviewMessageType {
   // Configuration
   INIT = 'init',
   CONFIG_UPDATE = 'configUpdate',
+  MODELS_UPDATE = 'modelsUpdate',
 
   // Action buttons
   ACTION_BUTTON_CLICK = 'ACTION_BUTTON_CLICK',
@@ -97,6 +109,8 @@ export interface IChatConfig {
   fontSize: number;
   showTimestamps: boolean;
   enableSounds: boolean;
+  streamResponses: boolean;
+  enableTools: boolean;
 }
 
 export interface IAutoCompleteItem {